@@ -0,0 +1,13 @@
+/**
+ * Streaming Chat API Handler (Vercel Serverless)
+ *
+ * Streams AI-powered chat responses about document content as Server-Sent Events.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessStreamHandler } = require('../../backend/core');
+
+/**
+ * Serverless handler for streaming chat requests
+ */
+export default createServerlessStreamHandler(operations.chat);
@@ -0,0 +1,14 @@
+/**
+ * Embed API Handler (Vercel Serverless)
+ *
+ * Embeds document passages and queries for chat retrieval.
+ * Uses the configured LLM provider's embedding model.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessHandler } = require('../backend/core');
+
+/**
+ * Serverless handler for embedding requests
+ */
+export default createServerlessHandler(operations.embed);
@@ -0,0 +1,14 @@
+/**
+ * Flashcards API Handler (Vercel Serverless)
+ *
+ * Generates study flashcards from document content.
+ * Uses the configured LLM provider.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessHandler } = require('../backend/core');
+
+/**
+ * Serverless handler for flashcard generation requests
+ */
+export default createServerlessHandler(operations.flashcards);
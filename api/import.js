@@ -0,0 +1,15 @@
+/**
+ * Import API Handler (Vercel Serverless)
+ *
+ * Downloads a web page or document and extracts its text so it can be added
+ * to the workspace. Private network addresses are refused and downloads are
+ * size and time limited.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessHandler } = require('../backend/core');
+
+/**
+ * Serverless handler for URL import requests
+ */
+export default createServerlessHandler(operations.importUrl);
@@ -0,0 +1,14 @@
+/**
+ * Quiz Grading API Handler (Vercel Serverless)
+ *
+ * Grades free-text quiz answers against model answers.
+ * Uses the configured LLM provider.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessHandler } = require('../../backend/core');
+
+/**
+ * Serverless handler for grading requests
+ */
+export default createServerlessHandler(operations.grade);
@@ -0,0 +1,13 @@
+/**
+ * Streaming Summarization API Handler (Vercel Serverless)
+ *
+ * Streams per-chunk summarization progress and the final summary as Server-Sent Events.
+ */
+
+require('dotenv').config();
+const { operations, createServerlessStreamHandler } = require('../../backend/core');
+
+/**
+ * Serverless handler for streaming summarization requests
+ */
+export default createServerlessStreamHandler(operations.summarize);
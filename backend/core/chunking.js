@@ -0,0 +1,133 @@
+/**
+ * Content Chunking
+ *
+ * Splits long content into chunks at paragraph boundaries without breaking
+ * LaTeX display blocks ($$...$$, \[...\], \begin{...}...\end{...}).
+ * Paragraphs longer than a chunk are split at line and sentence boundaries.
+ */
+
+/**
+ * Reports whether a paragraph leaves a LaTeX display block open
+ * @param {string} text - Text accumulated for the current block
+ * @returns {boolean} - True when the block continues past this paragraph
+ */
+function hasOpenMathBlock(text) {
+  const dollarPairs = (text.match(/\$\$/g) || []).length;
+  const bracketOpens = (text.match(/\\\[/g) || []).length;
+  const bracketCloses = (text.match(/\\\]/g) || []).length;
+  const envOpens = (text.match(/\\begin\{[^}]+\}/g) || []).length;
+  const envCloses = (text.match(/\\end\{[^}]+\}/g) || []).length;
+
+  return dollarPairs % 2 === 1 || bracketOpens > bracketCloses || envOpens > envCloses;
+}
+
+/**
+ * Splits content into paragraph blocks, keeping LaTeX display blocks whole
+ *
+ * A display block that is still open after `maxChars` characters or at the
+ * end of the content is taken to start at a stray delimiter (such as
+ * "Costs $$5"): the paragraph holding the delimiter becomes a block of its
+ * own and the delimiter is treated as text.
+ * @param {string} content - Source text
+ * @param {number} [maxChars] - Longest a display block may grow; unlimited by default
+ * @returns {string[]} - Blocks in document order
+ */
+function splitBlocks(content, maxChars = Infinity) {
+  const paragraphs = content.split(/\n\s*\n/).filter((paragraph) => paragraph.trim());
+  const blocks = [];
+  let index = 0;
+
+  while (index < paragraphs.length) {
+    let current = paragraphs[index];
+    let end = index + 1;
+
+    while (hasOpenMathBlock(current) && end < paragraphs.length && current.length <= maxChars) {
+      current = `${current}\n\n${paragraphs[end]}`;
+      end++;
+    }
+
+    if (end > index + 1 && (current.length > maxChars || hasOpenMathBlock(current))) {
+      // The block never closed within the limit; keep only the opening paragraph
+      blocks.push(paragraphs[index].trim());
+      index++;
+    } else {
+      blocks.push(current.trim());
+      index = end;
+    }
+  }
+
+  return blocks;
+}
+
+/** Boundaries an oversize block is split at, from coarsest to finest */
+const SPLIT_LEVELS = [
+  { pattern: /\n/, separator: '\n' },
+  { pattern: /(?<=[.!?])\s+/, separator: ' ' },
+];
+
+/**
+ * Splits text longer than `maxChars` at line breaks, then at sentence ends,
+ * and cuts pieces that are still too long at `maxChars`
+ * @param {string} text - Text to split
+ * @param {number} maxChars - Maximum piece length
+ * @param {number} [level] - Index into SPLIT_LEVELS to split at
+ * @returns {string[]} - Pieces of at most `maxChars` characters
+ */
+function splitOversize(text, maxChars, level = 0) {
+  if (text.length <= maxChars) return [text];
+
+  if (level === SPLIT_LEVELS.length) {
+    const pieces = [];
+    for (let start = 0; start < text.length; start += maxChars) {
+      pieces.push(text.slice(start, start + maxChars));
+    }
+    return pieces;
+  }
+
+  const { pattern, separator } = SPLIT_LEVELS[level];
+  const pieces = [];
+  let current = '';
+
+  for (const part of text.split(pattern)) {
+    if (!part.trim()) continue;
+    for (const piece of splitOversize(part, maxChars, level + 1)) {
+      if (current && current.length + separator.length + piece.length > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}${separator}${piece}` : piece;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Packs content into chunks of at most `maxChars` characters
+ *
+ * Blocks larger than the limit, such as text extracted from PDFs without
+ * blank lines, are split at line breaks, then at sentence ends, and as a last
+ * resort cut at the limit.
+ * @param {string} content - Source text
+ * @param {number} maxChars - Maximum chunk length
+ * @returns {string[]} - Chunks in document order
+ */
+function chunkText(content, maxChars) {
+  const chunks = [];
+  let current = '';
+
+  const blocks = splitBlocks(content, maxChars).flatMap((block) => splitOversize(block, maxChars));
+  for (const block of blocks) {
+    if (current && current.length + block.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+module.exports = { chunkText, splitBlocks, splitOversize };
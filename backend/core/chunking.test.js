@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, splitBlocks } from './chunking';
+
+const MAX_CHARS = 8000;
+
+/** Sentences of about 60 characters */
+function sentences(count) {
+  return Array.from({ length: count }, (_, index) => `Sentence ${index + 1} of the extracted document text here.`);
+}
+
+describe('chunkText', () => {
+  it('keeps display math blocks whole', () => {
+    const content = ['Intro.', '$$\na = b\n\nc = d\n$$', 'Outro.'].join('\n\n');
+    expect(chunkText(content, 20)).toEqual(['Intro.', '$$\na = b\n\nc = d\n$$', 'Outro.']);
+  });
+
+  it('splits text joined by single newlines within the limit', () => {
+    const content = sentences(2000).join('\n');
+    const chunks = chunkText(content, MAX_CHARS);
+
+    expect(content.length).toBeGreaterThan(100000);
+    expect(chunks.length).toBeGreaterThan(10);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(MAX_CHARS));
+    expect(chunks.join('\n')).toBe(content);
+  });
+
+  it('splits a long line at sentence ends', () => {
+    const chunks = chunkText(sentences(300).join(' '), 1000);
+
+    chunks.forEach((chunk) => {
+      expect(chunk.length).toBeLessThanOrEqual(1000);
+      expect(chunk).toMatch(/here\.$/);
+    });
+  });
+
+  it('cuts text without any boundary at the limit', () => {
+    expect(chunkText('x'.repeat(2500), 1000).map((chunk) => chunk.length)).toEqual([1000, 1000, 500]);
+  });
+
+  it('treats a display math delimiter that never closes as text', () => {
+    const paragraphs = sentences(1000);
+    paragraphs[1] = 'Costs $$5 per unit.';
+    const content = paragraphs.join('\n\n');
+    const chunks = chunkText(content, MAX_CHARS);
+
+    expect(chunks.length).toBeGreaterThan(5);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(MAX_CHARS));
+    expect(chunks.join('\n\n')).toBe(content);
+  });
+});
+
+describe('splitBlocks', () => {
+  it('treats a display block still open at the end as text', () => {
+    expect(splitBlocks('Costs $$5.\n\nMore text.')).toEqual(['Costs $$5.', 'More text.']);
+  });
+
+  it('ends an unclosed display block at the limit', () => {
+    expect(splitBlocks('Costs $$5.\n\nMore text.\n\nEven more.', 20)).toEqual([
+      'Costs $$5.',
+      'More text.',
+      'Even more.',
+    ]);
+  });
+});
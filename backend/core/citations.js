@@ -0,0 +1,158 @@
+/**
+ * Chat Sources and Citations
+ *
+ * Labels document passages so the model can cite them as [D1:P3], then turns
+ * those labels into numbered citations the client can link back to a passage.
+ */
+
+const { validationError } = require('./errors');
+
+/** Matches one citation group such as [D1:P3] or [D1:P3, D2:P1] */
+const CITATION_GROUP_PATTERN = /\[(D\d+:P\d+(?:\s*[,;]\s*D\d+:P\d+)*)\]/g;
+
+/** Matches a single label inside a citation group */
+const CITATION_LABEL_PATTERN = /D(\d+):P(\d+)/g;
+
+/** Maximum excerpt length returned for a cited passage */
+const EXCERPT_LENGTH = 200;
+
+/**
+ * @typedef {Object} Passage
+ * @property {number} index - Zero-based position of the passage in its document
+ * @property {string} text - Passage text
+ */
+
+/**
+ * @typedef {Object} ChatDocument
+ * @property {string} id - Document identifier
+ * @property {string} name - Display name
+ * @property {Passage[]} passages - Passages sent as context, in document order
+ */
+
+/**
+ * @typedef {Object} Citation
+ * @property {number} marker - Footnote number shown in the response
+ * @property {string} documentId - Cited document
+ * @property {string} documentName - Cited document name
+ * @property {number} passageIndex - Zero-based passage index within the document
+ * @property {string} excerpt - Start of the cited passage
+ */
+
+/**
+ * Normalizes one passage entry
+ *
+ * Passages are either strings, numbered by position, or `{ index, text }`
+ * objects when the client sends only the passages retrieved for a question.
+ * @param {unknown} passage - Raw passage entry
+ * @param {number} position - Position of the entry in the passages array
+ * @returns {Passage | null} - Normalized passage, or null when invalid
+ */
+function normalizePassage(passage, position) {
+  if (typeof passage === 'string') {
+    return { index: position, text: passage };
+  }
+
+  if (Number.isInteger(passage?.index) && passage.index >= 0 && typeof passage.text === 'string') {
+    return { index: passage.index, text: passage.text };
+  }
+
+  return null;
+}
+
+/**
+ * Validates the chat documents of a request
+ *
+ * Accepts `documents` or, for single-document clients, `documentId` + `content`.
+ * @param {Object} body - Raw request body
+ * @returns {ChatDocument[]} - Validated documents
+ */
+function validateDocuments(body) {
+  if (body.documents === undefined && typeof body.content === 'string' && body.content.trim()) {
+    return [
+      {
+        id: String(body.documentId ?? 'document'),
+        name: 'Document',
+        passages: [{ index: 0, text: body.content }],
+      },
+    ];
+  }
+
+  if (!Array.isArray(body.documents) || body.documents.length === 0) {
+    throw validationError('"documents" must be a non-empty array.');
+  }
+
+  return body.documents.map((doc, index) => {
+    const passages = Array.isArray(doc?.passages) ? doc.passages.map(normalizePassage) : [];
+    const validPassages = passages.length > 0 && passages.every(Boolean);
+
+    if (typeof doc?.id !== 'string' || typeof doc.name !== 'string' || !validPassages) {
+      throw validationError(
+        `"documents[${index}]" must have string id and name and a non-empty passages array.`
+      );
+    }
+
+    return { id: doc.id, name: doc.name, passages };
+  });
+}
+
+/**
+ * Formats documents with passage labels for the prompt
+ * @param {ChatDocument[]} documents - Chat documents
+ * @returns {string} - Labelled document text
+ */
+function formatDocuments(documents) {
+  return documents
+    .map((doc, docIndex) => {
+      const passages = doc.passages
+        .map((passage) => `[D${docIndex + 1}:P${passage.index + 1}] ${passage.text}`)
+        .join('\n\n');
+      return `[D${docIndex + 1}] ${doc.name}\n\n${passages}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Replaces passage labels with numbered markers and collects the citations
+ * @param {string} text - Model response containing [D1:P3] labels
+ * @param {ChatDocument[]} documents - Documents the labels refer to
+ * @returns {{ text: string, citations: Citation[] }} - Rewritten text and citations
+ */
+function resolveCitations(text, documents) {
+  const citations = [];
+  const markers = new Map();
+
+  const rewritten = text.replace(CITATION_GROUP_PATTERN, (group) => {
+    const numbers = [];
+
+    for (const [, docNumber, passageNumber] of group.matchAll(CITATION_LABEL_PATTERN)) {
+      const doc = documents[Number(docNumber) - 1];
+      const passageIndex = Number(passageNumber) - 1;
+      const passage = doc?.passages.find((candidate) => candidate.index === passageIndex);
+      if (!passage) continue;
+
+      const key = `${docNumber}:${passageNumber}`;
+      if (!markers.has(key)) {
+        const marker = citations.length + 1;
+        markers.set(key, marker);
+        citations.push({
+          marker,
+          documentId: doc.id,
+          documentName: doc.name,
+          passageIndex,
+          excerpt: passage.text.slice(0, EXCERPT_LENGTH),
+        });
+      }
+
+      if (!numbers.includes(markers.get(key))) {
+        numbers.push(markers.get(key));
+      }
+    }
+
+    // Drop labels that point at passages that were not provided
+    return numbers.length ? numbers.map((number) => `[${number}]`).join('') : '';
+  });
+
+  return { text: rewritten, citations };
+}
+
+module.exports = { validateDocuments, formatDocuments, resolveCitations };
@@ -0,0 +1,28 @@
+/**
+ * Concurrency Helpers
+ */
+
+/**
+ * Maps items through an async function with bounded concurrency
+ * @template T, R
+ * @param {T[]} items - Items to process
+ * @param {number} limit - Maximum concurrent calls
+ * @param {(item: T, index: number) => Promise<R>} fn - Mapper
+ * @returns {Promise<R[]>} - Results in input order
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+module.exports = { mapWithConcurrency };
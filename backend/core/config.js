@@ -0,0 +1,16 @@
+/**
+ * Environment Configuration Helpers
+ */
+
+/**
+ * Reads a non-negative integer from the environment
+ * @param {string} name - Variable name
+ * @param {number} fallback - Default value
+ * @returns {number} - Configured value
+ */
+function readIntEnv(name, fallback) {
+  const value = Number.parseInt(process.env[name], 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+module.exports = { readIntEnv };
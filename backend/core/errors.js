@@ -0,0 +1,29 @@
+/**
+ * Operation Errors
+ *
+ * Errors raised by operation handlers carry the HTTP status and a message
+ * that is safe to return to the client.
+ */
+
+class OperationError extends Error {
+  /**
+   * @param {string} message - Client-facing error message
+   * @param {number} [status] - HTTP status code (default: 500)
+   */
+  constructor(message, status = 500) {
+    super(message);
+    this.name = 'OperationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Creates a 400 error for invalid request input
+ * @param {string} message - Client-facing error message
+ * @returns {OperationError} - Validation error
+ */
+function validationError(message) {
+  return new OperationError(message, 400);
+}
+
+module.exports = { OperationError, validationError };
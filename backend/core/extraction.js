@@ -0,0 +1,213 @@
+/**
+ * Document Extraction
+ *
+ * Turns documents downloaded for URL import into Markdown-style text. Web
+ * pages are reduced to their main content with headings, lists, tables and
+ * the LaTeX source of KaTeX, MathJax and MathML formulas; PDFs are read from
+ * their text layer page by page.
+ */
+
+const { parseHTML } = require('linkedom');
+const { Readability } = require('@mozilla/readability');
+const TurndownService = require('turndown');
+const { gfm } = require('turndown-plugin-gfm');
+const { OperationError } = require('./errors');
+
+/**
+ * @typedef {Object} PageSpan
+ * @property {number} page - 1-based page number
+ * @property {number} start - Offset of the page's first character
+ * @property {number} end - Offset just past the page's last character
+ */
+
+/**
+ * @typedef {Object} ExtractedDocument
+ * @property {string} content - Markdown-style text
+ * @property {string} type - MIME type of the source document
+ * @property {string} [title] - Page or document title
+ * @property {PageSpan[]} [pages] - Character range of each page, for PDFs
+ */
+
+/** Rendered math that only repeats a formula's MathML or TeX source (KaTeX and MathJax 3 glyphs, MathJax 2 previews) */
+const MATH_RENDERING_SELECTOR = '[aria-hidden="true"], .MathJax_Preview';
+
+/** MathJax 2 output, which is followed by the TeX script it was rendered from */
+const MATHJAX_OUTPUT_SELECTOR = '.MathJax, .MathJax_Display, .MathJax_SVG, .MathJax_CHTML';
+
+/** Marks where a formula was taken out of the page: its index between two private-use characters */
+const FORMULA_PLACEHOLDER_PATTERN = /\uE000(\d+)\uE001/g;
+
+/** Converter from web page HTML to Markdown */
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  bulletListMarker: '-',
+  codeBlockStyle: 'fenced',
+  emDelimiter: '*',
+});
+turndown.use(gfm);
+turndown.remove(['script', 'style', 'noscript', 'template', 'iframe', 'button', 'form']);
+// Text is kept as written, like pasted and uploaded HTML, rather than escaped for Markdown
+turndown.escape = (text) => text;
+
+/**
+ * Reports whether an element is a MathJax 2 TeX source script
+ * @param {Element | null} element - Element to check
+ * @returns {boolean} - True for <script type="math/tex"> elements
+ */
+function isTexScript(element) {
+  return element?.localName === 'script' && /^math\/tex/i.test(element.getAttribute('type') ?? '');
+}
+
+/**
+ * Reads the LaTeX source of a MathML element
+ *
+ * Prefers a TeX annotation (as written by KaTeX and MathJax), then the
+ * alttext attribute, then the element's text.
+ * @param {Element} math - MathML element
+ * @returns {string} - LaTeX source
+ */
+function mathSource(math) {
+  const annotation = [...math.querySelectorAll('annotation')].find((node) =>
+    /tex/i.test(node.getAttribute('encoding') ?? '')
+  );
+  return (annotation?.textContent ?? math.getAttribute('alttext') ?? math.textContent ?? '').trim();
+}
+
+/**
+ * Replaces formulas with placeholders so page cleanup and Markdown escaping leave their source alone
+ * @param {Document} document - Parsed page
+ * @returns {string[]} - Formulas as $...$ or $$...$$, indexed by placeholder
+ */
+function takeOutFormulas(document) {
+  const formulas = [];
+
+  const replace = (element, latex, display) => {
+    if (!latex) {
+      element.remove();
+      return;
+    }
+
+    const placeholder = `\uE000${formulas.length}\uE001`;
+    formulas.push(display ? `$$${latex}$$` : `$${latex}$`);
+
+    // Display formulas become paragraphs of their own
+    const replacement = display ? document.createElement('p') : document.createTextNode(placeholder);
+    if (display) replacement.textContent = placeholder;
+    element.replaceWith(replacement);
+  };
+
+  document.querySelectorAll(MATH_RENDERING_SELECTOR).forEach((element) => element.remove());
+  document.querySelectorAll(MATHJAX_OUTPUT_SELECTOR).forEach((element) => {
+    if (isTexScript(element.nextElementSibling)) element.remove();
+  });
+
+  document.querySelectorAll('script').forEach((script) => {
+    if (isTexScript(script)) {
+      replace(script, script.textContent.trim(), /mode\s*=\s*display/i.test(script.getAttribute('type')));
+    }
+  });
+
+  document.querySelectorAll('math').forEach((math) => {
+    replace(math, mathSource(math), math.getAttribute('display') === 'block');
+  });
+
+  return formulas;
+}
+
+/**
+ * Extracts the main content of a web page as Markdown
+ * @param {string} html - Page HTML
+ * @returns {{ title: string, content: string }} - Page title and Markdown text
+ */
+function extractHtml(html) {
+  // Without a root element the parser leaves the body empty
+  const { document } = parseHTML(/<html[\s>]/i.test(html) ? html : `<html><body>${html}</body></html>`);
+  const formulas = takeOutFormulas(document);
+  const fallbackTitle = document.title?.trim() ?? '';
+  const fallbackContent = document.body?.innerHTML ?? '';
+
+  // Pages too short to pick out an article from are converted whole
+  const article = new Readability(document).parse();
+  const markdown = turndown.turndown(article?.content || fallbackContent);
+
+  return {
+    title: article?.title?.trim() || fallbackTitle,
+    content: markdown.replace(FORMULA_PLACEHOLDER_PATTERN, (_, index) => formulas[index]).trim(),
+  };
+}
+
+/**
+ * Joins the text items of one PDF page into lines
+ * @param {Array<{ str?: string, hasEOL?: boolean }>} items - Text content items
+ * @returns {string} - Page text
+ */
+function pageText(items) {
+  return items
+    .map((item) => `${item.str ?? ''}${item.hasEOL ? '\n' : ''}`)
+    .join('')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extracts the text layer of a PDF
+ * @param {Buffer} bytes - PDF file
+ * @returns {Promise<{ title: string, content: string, pages: PageSpan[] }>} - Title, text and page ranges
+ */
+async function extractPdf(bytes) {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes), isEvalSupported: false, verbosity: 0 })
+    .promise;
+
+  try {
+    const pages = [];
+    let content = '';
+
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const text = pageText((await page.getTextContent()).items);
+      if (content && text) content += '\n\n';
+      pages.push({ page: number, start: content.length, end: content.length + text.length });
+      content += text;
+    }
+
+    const { info } = await pdf.getMetadata();
+    return { title: info?.Title?.trim() ?? '', content, pages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extracts the text of a downloaded document
+ * @param {import('./remote').RemoteDocument} document - Downloaded document
+ * @returns {Promise<ExtractedDocument>} - Extracted text
+ * @throws {OperationError} - When the document cannot be read or holds no text
+ */
+async function extractDocument({ name, contentType, body }) {
+  let extracted;
+  try {
+    if (contentType === 'application/pdf') {
+      extracted = await extractPdf(body);
+    } else if (contentType === 'text/html' || contentType === 'application/xhtml+xml') {
+      extracted = extractHtml(body);
+    } else {
+      extracted = { content: body };
+    }
+  } catch (error) {
+    console.warn(`[Import] Extraction failed for "${name}":`, error.message);
+    throw new OperationError(`Could not read "${name}".`, 422);
+  }
+
+  if (!extracted.content.trim()) {
+    const hint = contentType === 'application/pdf' ? ' Scanned PDFs can be uploaded to be read with OCR.' : '';
+    throw new OperationError(`No text found in "${name}".${hint}`, 422);
+  }
+
+  return { ...extracted, type: contentType };
+}
+
+module.exports = { extractDocument, extractHtml };
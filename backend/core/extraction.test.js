@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { extractHtml } from './extraction';
+
+/** Paragraph long enough for the page to count as an article */
+const FILLER =
+  '<p>The article explains the topic in enough detail for its main content to be found, with several sentences of plain text around the formulas.</p>';
+
+describe('extractHtml', () => {
+  it('keeps the main content and drops page furniture', () => {
+    const { title, content } = extractHtml(
+      `<html><head><title>Limits</title></head><body><nav>Home About</nav><article><h2>Definition</h2>${FILLER}<ul><li>One</li><li>Two</li></ul>${FILLER}</article><footer>Copyright</footer></body></html>`
+    );
+
+    expect(title).toBe('Limits');
+    expect(content).toContain('## Definition');
+    expect(content).toMatch(/^- +One$/m);
+    expect(content).not.toContain('Home About');
+    expect(content).not.toContain('Copyright');
+  });
+
+  it('keeps the LaTeX source of KaTeX, MathJax and MathML formulas', () => {
+    const { content } = extractHtml(
+      `<html><body><article>${FILLER}<p>Inline <span class="MathJax_Preview">x2</span><span class="MathJax">x2</span><script type="math/tex">x^2</script>, <span class="katex"><span class="katex-mathml"><math><semantics><mi>y</mi><annotation encoding="application/x-tex">y_1</annotation></semantics></math></span><span class="katex-html" aria-hidden="true">y1</span></span> and <mjx-container class="MathJax"><mjx-math aria-hidden="true">a</mjx-math><mjx-assistive-mml><math alttext="\\alpha"><mi>α</mi></math></mjx-assistive-mml></mjx-container>.</p><script type="math/tex; mode=display">\\int_0^1 f</script>${FILLER}</article></body></html>`
+    );
+
+    expect(content).toContain('Inline $x^2$, $y_1$ and $\\alpha$.');
+    expect(content).toContain('\n\n$$\\int_0^1 f$$\n\n');
+  });
+
+  it('converts pages too short for an article whole', () => {
+    expect(extractHtml('<p>Short <b>note</b> on snake_case</p>')).toEqual({
+      title: '',
+      content: 'Short **note** on snake_case',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Translation Glossary
+ *
+ * A glossary maps source terms to the translation that must be used for them
+ * in one target language. Only the entries whose source term occurs in a text
+ * are sent to the model, and a translation violates the glossary when a term
+ * occurs in the source but its required translation is missing.
+ */
+
+const { validationError } = require('./errors');
+
+/** Maximum glossary entries per request */
+const MAX_ENTRIES = 1000;
+
+/** Maximum length of a term or its translation */
+const MAX_TERM_LENGTH = 200;
+
+/**
+ * @typedef {Object} GlossaryEntry
+ * @property {string} source - Term in the source text
+ * @property {string} target - Required translation of the term
+ */
+
+/**
+ * Validates the glossary field of a request
+ * @param {unknown} glossary - Raw glossary value
+ * @returns {GlossaryEntry[]} - Validated entries, trimmed
+ */
+function validateGlossary(glossary) {
+  if (glossary === undefined || glossary === null) return [];
+
+  if (!Array.isArray(glossary) || glossary.length > MAX_ENTRIES) {
+    throw validationError(`"glossary" must be an array of at most ${MAX_ENTRIES} entries.`);
+  }
+
+  return glossary.map((entry, index) => {
+    const valid = ['source', 'target'].every(
+      (field) =>
+        typeof entry?.[field] === 'string' &&
+        entry[field].trim() &&
+        entry[field].length <= MAX_TERM_LENGTH
+    );
+    if (!valid) {
+      throw validationError(
+        `"glossary[${index}]" must have non-empty string source and target of at most ${MAX_TERM_LENGTH} characters.`
+      );
+    }
+    return { source: entry.source.trim(), target: entry.target.trim() };
+  });
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param {string} text - Literal text
+ * @returns {string} - Escaped pattern
+ */
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Tests whether a term occurs in a text as a whole word, ignoring case
+ * @param {string} text - Text to search
+ * @param {string} term - Term to find
+ * @returns {boolean} - Whether the term occurs
+ */
+function containsTerm(text, term) {
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+/**
+ * Selects the entries whose source term occurs in a text
+ * @param {GlossaryEntry[]} glossary - Validated glossary
+ * @param {string} text - Source text
+ * @returns {GlossaryEntry[]} - Entries that apply to the text
+ */
+function relevantEntries(glossary, text) {
+  return glossary.filter((entry) => containsTerm(text, entry.source));
+}
+
+/**
+ * Finds the entries a translation fails to apply
+ * @param {GlossaryEntry[]} glossary - Validated glossary
+ * @param {string} source - Source text
+ * @param {string} translation - Its translation
+ * @returns {GlossaryEntry[]} - Entries whose required translation is missing
+ */
+function findViolations(glossary, source, translation) {
+  // Inflected scripts rule out word boundaries in the translation; any occurrence counts
+  const translated = translation.toLowerCase();
+  return relevantEntries(glossary, source).filter((entry) => !translated.includes(entry.target.toLowerCase()));
+}
+
+/**
+ * Formats glossary entries as prompt instructions
+ * @param {GlossaryEntry[]} entries - Entries that apply to the text
+ * @returns {string} - Instructions, or an empty string when there are none
+ */
+function formatGlossary(entries) {
+  if (entries.length === 0) return '';
+
+  const lines = entries.map((entry) => `- "${entry.source}" → "${entry.target}"`).join('\n');
+  return `\n\nGlossary: the following terms MUST be translated exactly as given, every time they occur. Do not translate, transliterate or inflect them differently:\n${lines}`;
+}
+
+module.exports = { validateGlossary, relevantEntries, findViolations, formatGlossary };
@@ -0,0 +1,193 @@
+/**
+ * Operation Handlers
+ *
+ * Adapts operations to the Express server and to Vercel serverless functions
+ * so both deployment modes share validation, prompts and the response envelope.
+ */
+
+const { OperationError } = require('./errors');
+const { errorResponse, successResponse } = require('./responses');
+
+/**
+ * @typedef {Object} Operation
+ * @property {string} name - Operation name
+ * @property {string} label - Log prefix
+ * @property {string} failureMessage - Message returned for unexpected errors
+ * @property {(body: Object) => Object} validate - Validates the request body
+ * @property {(request: Object) => string} describe - Summarizes a request for logs
+ * @property {(request: Object) => Promise<Object>} run - Executes the operation
+ * @property {(request: Object, options: StreamOptions) => AsyncIterable<string>} [stream]
+ *   Streams the operation output as text deltas
+ * @property {(request: Object, text: string) => Object} [complete]
+ *   Builds the final result from the streamed text
+ */
+
+/**
+ * @typedef {Object} StreamOptions
+ * @property {AbortSignal} signal - Aborted when the client disconnects
+ * @property {(event: string, data: Object) => void} emit - Sends an extra event, e.g. progress
+ */
+
+/**
+ * Runs an operation against a request body
+ * @param {Operation} operation - Operation to run
+ * @param {Object} body - Raw request body
+ * @returns {Promise<{ status: number, body: Object }>} - HTTP status and envelope
+ */
+async function executeOperation(operation, body) {
+  try {
+    const request = operation.validate(body || {});
+    console.log(`[${operation.label}] ${operation.describe(request)}`);
+
+    const data = await operation.run(request);
+    return { status: 200, body: successResponse(data) };
+  } catch (error) {
+    if (error instanceof OperationError) {
+      if (error.status >= 500) {
+        console.error(`[${operation.label}] Error:`, error.message);
+      }
+      return { status: error.status, body: errorResponse(error.message) };
+    }
+
+    console.error(`[${operation.label}] Error:`, error.message);
+    return { status: 500, body: errorResponse(operation.failureMessage) };
+  }
+}
+
+/**
+ * Writes a Server-Sent Event
+ * @param {Object} res - HTTP response
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streams an operation as Server-Sent Events
+ *
+ * Emits `delta` events with `{ delta }`, then a `done` event carrying the same
+ * data the non-streaming endpoint returns, or an `error` event with `{ error }`.
+ * Operations may emit additional events (such as `progress`) through `emit`.
+ * Validation errors are returned as a regular JSON envelope before the stream opens.
+ * Generation stops when the client disconnects.
+ * @param {Operation} operation - Operation with a stream method
+ * @param {Object} req - HTTP request
+ * @param {Object} res - HTTP response
+ */
+async function streamOperation(operation, req, res) {
+  let request;
+  try {
+    request = operation.validate(req.body || {});
+  } catch (error) {
+    const status = error instanceof OperationError ? error.status : 400;
+    return res.status(status).json(errorResponse(error.message));
+  }
+
+  console.log(`[${operation.label}] (stream) ${operation.describe(request)}`);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  /** @type {StreamOptions} */
+  const options = {
+    signal: controller.signal,
+    emit: (event, data) => {
+      if (!controller.signal.aborted) sendEvent(res, event, data);
+    },
+  };
+
+  let text = '';
+  try {
+    for await (const delta of operation.stream(request, options)) {
+      if (controller.signal.aborted) break;
+      text += delta;
+      sendEvent(res, 'delta', { delta });
+    }
+
+    if (controller.signal.aborted) {
+      console.log(`[${operation.label}] Stream stopped by client`);
+      return;
+    }
+
+    sendEvent(res, 'done', operation.complete(request, text));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error(`[${operation.label}] Error:`, error.message);
+    const message = error instanceof OperationError ? error.message : operation.failureMessage;
+    sendEvent(res, 'error', { error: message });
+  } finally {
+    res.end();
+  }
+}
+
+/**
+ * Creates an Express route handler for an operation
+ * @param {Operation} operation - Operation to expose
+ * @returns {Function} - Express handler
+ */
+function createExpressHandler(operation) {
+  return async (req, res) => {
+    const { status, body } = await executeOperation(operation, req.body);
+    res.status(status).json(body);
+  };
+}
+
+/**
+ * Creates a serverless handler for an operation
+ * @param {Operation} operation - Operation to expose
+ * @returns {Function} - Serverless handler
+ */
+function createServerlessHandler(operation) {
+  return async (req, res) => {
+    // Method validation
+    if (req.method !== 'POST') {
+      return res.status(405).json(errorResponse('Method not allowed'));
+    }
+
+    const { status, body } = await executeOperation(operation, req.body);
+    res.status(status).json(body);
+  };
+}
+
+/**
+ * Creates an Express route handler that streams an operation
+ * @param {Operation} operation - Operation with a stream method
+ * @returns {Function} - Express handler
+ */
+function createExpressStreamHandler(operation) {
+  return (req, res) => streamOperation(operation, req, res);
+}
+
+/**
+ * Creates a serverless handler that streams an operation
+ * @param {Operation} operation - Operation with a stream method
+ * @returns {Function} - Serverless handler
+ */
+function createServerlessStreamHandler(operation) {
+  return async (req, res) => {
+    // Method validation
+    if (req.method !== 'POST') {
+      return res.status(405).json(errorResponse('Method not allowed'));
+    }
+
+    await streamOperation(operation, req, res);
+  };
+}
+
+module.exports = {
+  executeOperation,
+  streamOperation,
+  createExpressHandler,
+  createServerlessHandler,
+  createExpressStreamHandler,
+  createServerlessStreamHandler,
+};
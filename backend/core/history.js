@@ -0,0 +1,92 @@
+/**
+ * Chat History Windowing
+ *
+ * Keeps the most recent conversation turns that fit within a message window
+ * and an approximate token budget so long threads never crowd out the document.
+ *
+ * Environment:
+ *   CHAT_HISTORY_MAX_MESSAGES   Maximum prior messages sent to the model (default: 20)
+ *   CHAT_HISTORY_TOKEN_BUDGET   Approximate token budget for prior messages (default: 4000)
+ */
+
+const { validationError } = require('./errors');
+const { readIntEnv } = require('./config');
+
+const DEFAULT_MAX_MESSAGES = 20;
+const DEFAULT_TOKEN_BUDGET = 4000;
+
+/** Roles accepted in chat history */
+const HISTORY_ROLES = ['user', 'assistant'];
+
+/**
+ * @typedef {Object} ChatTurn
+ * @property {'user' | 'assistant'} role - Who sent the message
+ * @property {string} content - Message text
+ */
+
+/**
+ * Estimates the token count of a string (~4 characters per token)
+ * @param {string} text - Text to measure
+ * @returns {number} - Approximate token count
+ */
+function estimateTokens(text) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Validates the chat history field of a request
+ * @param {unknown} history - Raw history value
+ * @returns {ChatTurn[]} - Validated history
+ */
+function validateHistory(history) {
+  if (history === undefined || history === null) return [];
+
+  if (!Array.isArray(history)) {
+    throw validationError('"history" must be an array of messages.');
+  }
+
+  return history.map((turn, index) => {
+    if (!turn || !HISTORY_ROLES.includes(turn.role) || typeof turn.content !== 'string') {
+      throw validationError(
+        `"history[${index}]" must have a role of ${HISTORY_ROLES.join(' or ')} and string content.`
+      );
+    }
+    return { role: turn.role, content: turn.content };
+  });
+}
+
+/**
+ * Selects the most recent turns that fit the configured window
+ * @param {ChatTurn[]} history - Full validated history, oldest first
+ * @returns {ChatTurn[]} - Windowed history, oldest first
+ */
+function windowHistory(history) {
+  const maxMessages = readIntEnv('CHAT_HISTORY_MAX_MESSAGES', DEFAULT_MAX_MESSAGES);
+  const tokenBudget = readIntEnv('CHAT_HISTORY_TOKEN_BUDGET', DEFAULT_TOKEN_BUDGET);
+
+  const selected = [];
+  let usedTokens = 0;
+
+  for (let i = history.length - 1; i >= 0 && selected.length < maxMessages; i--) {
+    const tokens = estimateTokens(history[i].content);
+    if (usedTokens + tokens > tokenBudget) break;
+
+    usedTokens += tokens;
+    selected.unshift(history[i]);
+  }
+
+  return selected;
+}
+
+/**
+ * Formats history as a transcript for the prompt
+ * @param {ChatTurn[]} history - Windowed history
+ * @returns {string} - Transcript text
+ */
+function formatHistory(history) {
+  return history
+    .map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+}
+
+module.exports = { validateHistory, windowHistory, formatHistory };
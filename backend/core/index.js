@@ -0,0 +1,41 @@
+/**
+ * Polyform Request-Handling Core
+ *
+ * Shared operation handlers used by both the Express server (backend/index.js)
+ * and the Vercel serverless functions (api/*.js).
+ */
+
+const translate = require('./operations/translate');
+const summarize = require('./operations/summarize');
+const quiz = require('./operations/quiz');
+const flashcards = require('./operations/flashcards');
+const chat = require('./operations/chat');
+const embed = require('./operations/embed');
+const grade = require('./operations/grade');
+const importUrl = require('./operations/importUrl');
+const {
+  executeOperation,
+  streamOperation,
+  createExpressHandler,
+  createServerlessHandler,
+  createExpressStreamHandler,
+  createServerlessStreamHandler,
+} = require('./handlers');
+const { OperationError } = require('./errors');
+const { errorResponse, successResponse } = require('./responses');
+
+/** All operations keyed by name */
+const operations = { translate, summarize, quiz, grade, flashcards, chat, embed, importUrl };
+
+module.exports = {
+  operations,
+  executeOperation,
+  streamOperation,
+  createExpressHandler,
+  createServerlessHandler,
+  createExpressStreamHandler,
+  createServerlessStreamHandler,
+  OperationError,
+  errorResponse,
+  successResponse,
+};
@@ -0,0 +1,22 @@
+/**
+ * JSON Helpers for model output
+ */
+
+/**
+ * Cleans markdown code blocks from AI response
+ * @param {string} text - Raw response text
+ * @returns {string} - Cleaned text
+ */
+function cleanJsonResponse(text) {
+  let cleaned = text.trim();
+
+  if (cleaned.startsWith('```json')) {
+    cleaned = cleaned.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  return cleaned;
+}
+
+module.exports = { cleanJsonResponse };
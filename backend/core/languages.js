@@ -0,0 +1,61 @@
+/**
+ * Language Tags
+ *
+ * Request languages are BCP-47 tags such as `hi`, `pt-BR` or `sr-Latn`.
+ * Tags are canonicalized and must name a language known to the runtime's
+ * Intl data, so free text never reaches a prompt in place of a language.
+ */
+
+const { validationError } = require('./errors');
+
+/** English language names */
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+/**
+ * Canonicalizes a BCP-47 tag
+ * @param {string} tag - Tag in any case
+ * @returns {string | null} - Canonical tag, or null when invalid or unknown
+ */
+function canonicalLanguageTag(tag) {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag.trim());
+    return canonical && displayNames.of(canonical) ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asserts that a request field is a known BCP-47 language tag
+ * @param {unknown} value - Field value
+ * @param {string} field - Field name for the error message
+ * @returns {string} - The canonical tag
+ */
+function requireLanguage(value, field) {
+  const tag = typeof value === 'string' ? canonicalLanguageTag(value) : null;
+  if (!tag) {
+    throw validationError(`"${field}" must be a BCP-47 language tag such as "hi" or "pt-BR".`);
+  }
+  return tag;
+}
+
+/**
+ * Validates an optional language field
+ * @param {unknown} value - Field value
+ * @param {string} field - Field name for the error message
+ * @returns {string | undefined} - The canonical tag, or undefined when absent
+ */
+function optionalLanguage(value, field) {
+  return value === undefined || value === null || value === '' ? undefined : requireLanguage(value, field);
+}
+
+/**
+ * Describes a language for a prompt
+ * @param {string} tag - Canonical tag
+ * @returns {string} - Name with tag, e.g. "Brazilian Portuguese (pt-BR)"
+ */
+function describeLanguage(tag) {
+  return `${displayNames.of(tag) ?? tag} (${tag})`;
+}
+
+module.exports = { requireLanguage, optionalLanguage, describeLanguage };
@@ -0,0 +1,129 @@
+/**
+ * Chat Operation
+ *
+ * Answers a question about one or more documents, taking prior conversation
+ * turns into account and citing the passages each claim came from.
+ */
+
+const { generateContent, streamContent } = require('../../providers');
+const { OperationError } = require('../errors');
+const { requireString } = require('../validation');
+const { validateHistory, windowHistory, formatHistory } = require('../history');
+const { validateDocuments, formatDocuments, resolveCitations } = require('../citations');
+
+/**
+ * @typedef {Object} ChatRequest
+ * @property {import('../citations').ChatDocument[]} documents - Documents used as context
+ * @property {string} message - User's question
+ * @property {import('../history').ChatTurn[]} history - Prior turns, oldest first
+ */
+
+/**
+ * @typedef {Object} ChatResult
+ * @property {string} botResponse - Assistant reply with numbered citation markers
+ * @property {import('../citations').Citation[]} citations - Passages cited in the reply
+ */
+
+/**
+ * Builds the chat prompt
+ * @param {ChatRequest} request - Validated request
+ * @returns {string} - Prompt text
+ */
+function buildPrompt({ documents, message, history }) {
+  const conversation = history.length
+    ? `Conversation so far:\n${formatHistory(history)}\n\n`
+    : '';
+
+  return `You are a helpful AI assistant that answers questions about the following documents. Provide accurate, relevant responses based on the document content. If the question cannot be answered from the documents, say so politely. Use the conversation so far to resolve follow-up questions.
+
+Only the passages most relevant to the question may be included, so passage numbers can skip. Every passage is labelled like [D1:P3] (document 1, passage 3). After each claim, cite the passage or passages that support it using exactly those labels in square brackets, for example [D1:P3] or [D1:P3, D2:P1]. Do not cite passages that do not support the claim.
+
+Documents:
+${formatDocuments(documents)}
+
+${conversation}User Question: ${message}
+
+Please provide a helpful response:`;
+}
+
+/**
+ * Converts the raw model text into the chat result
+ * @param {ChatRequest} request - Validated request
+ * @param {string} text - Raw model output
+ * @returns {ChatResult} - Chat result
+ */
+function buildResult(request, text) {
+  if (!text?.trim()) {
+    const ids = request.documents.map((doc) => doc.id).join(', ');
+    console.warn(`[Chat] Empty response for documents: ${ids}`);
+    throw new OperationError('Empty response. Please try again.');
+  }
+
+  const { text: botResponse, citations } = resolveCitations(text, request.documents);
+  return { botResponse, citations };
+}
+
+module.exports = {
+  name: 'chat',
+  label: 'Chat',
+  failureMessage: 'Failed to get chat response.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {ChatRequest} - Validated request
+   */
+  validate(body) {
+    return {
+      documents: validateDocuments(body),
+      message: requireString(body.message, 'message'),
+      history: windowHistory(validateHistory(body.history)),
+    };
+  },
+
+  /**
+   * @param {ChatRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documents, message, history }) {
+    const ids = documents.map((doc) => doc.id).join(', ');
+    const passages = documents.reduce((total, doc) => total + doc.passages.length, 0);
+    return `Documents: ${ids}, Passages: ${passages}, History: ${history.length}, Message: "${message.substring(0, 50)}..."`;
+  },
+
+  /**
+   * @param {ChatRequest} request - Validated request
+   * @returns {Promise<ChatResult>} - Chat result
+   */
+  async run(request) {
+    const text = await generateContent(buildPrompt(request), { task: 'chat' });
+    return buildResult(request, text);
+  },
+
+  /**
+   * Streams the response, emitting a `resolved` event with the text received
+   * so far and its citations before each delta
+   * @param {ChatRequest} request - Validated request
+   * @param {import('../handlers').StreamOptions} options - Stream options
+   * @returns {AsyncGenerator<string>} - Response text deltas
+   */
+  async *stream(request, { signal, emit }) {
+    let text = '';
+
+    for await (const delta of streamContent(buildPrompt(request), { task: 'chat', signal })) {
+      text += delta;
+      const { text: botResponse, citations } = resolveCitations(text, request.documents);
+      emit('resolved', { botResponse, citations });
+      yield delta;
+    }
+  },
+
+  /**
+   * Builds the final result once a stream completes
+   * @param {ChatRequest} request - Validated request
+   * @param {string} text - Full streamed response
+   * @returns {ChatResult} - Chat result
+   */
+  complete(request, text) {
+    return buildResult(request, text);
+  },
+};
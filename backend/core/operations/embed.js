@@ -0,0 +1,80 @@
+/**
+ * Embed Operation
+ *
+ * Embeds document passages and queries so the client can rank passages by
+ * semantic similarity when building chat context.
+ */
+
+const { embedContent } = require('../../providers');
+const { OperationError, validationError } = require('../errors');
+
+/** Maximum number of texts embedded per request */
+const MAX_TEXTS = 100;
+
+/**
+ * @typedef {Object} EmbedRequest
+ * @property {string} [documentId] - Document identifier, used for logging
+ * @property {string[]} texts - Texts to embed
+ */
+
+/**
+ * @typedef {Object} EmbedResult
+ * @property {number[][]} embeddings - One vector per text, in request order
+ */
+
+/**
+ * Validates the texts to embed
+ * @param {unknown} texts - Raw texts field
+ * @returns {string[]} - Validated texts
+ */
+function validateTexts(texts) {
+  if (
+    !Array.isArray(texts) ||
+    texts.length === 0 ||
+    texts.length > MAX_TEXTS ||
+    !texts.every((text) => typeof text === 'string' && text.trim())
+  ) {
+    throw validationError(`"texts" must be an array of 1 to ${MAX_TEXTS} non-empty strings.`);
+  }
+  return texts;
+}
+
+module.exports = {
+  name: 'embed',
+  label: 'Embed',
+  failureMessage: 'Failed to embed content.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {EmbedRequest} - Validated request
+   */
+  validate(body) {
+    return {
+      documentId: body.documentId,
+      texts: validateTexts(body.texts),
+    };
+  },
+
+  /**
+   * @param {EmbedRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, texts }) {
+    return `Document: ${documentId}, Texts: ${texts.length}`;
+  },
+
+  /**
+   * @param {EmbedRequest} request - Validated request
+   * @returns {Promise<EmbedResult>} - Embedding vectors
+   */
+  async run({ texts }) {
+    const embeddings = await embedContent(texts);
+
+    if (embeddings.length !== texts.length) {
+      console.warn(`[Embed] Expected ${texts.length} embeddings, received ${embeddings.length}`);
+      throw new OperationError('Embedding response was incomplete. Please try again.');
+    }
+
+    return { embeddings };
+  },
+};
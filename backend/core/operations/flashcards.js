@@ -0,0 +1,167 @@
+/**
+ * Flashcards Operation
+ *
+ * Generates question-and-answer flashcards from document content for
+ * spaced-repetition study. Cards with a blank side or a front repeating an
+ * earlier card are dropped, and the model is asked once more for any cards
+ * still missing.
+ */
+
+const { generateContent } = require('../../providers');
+const { OperationError } = require('../errors');
+const { cleanJsonResponse } = require('../json');
+const { requireString, requireInteger } = require('../validation');
+
+/** Maximum number of cards per request */
+const MAX_CARDS = 50;
+
+/** Requests to the model, including the one that tops up missing cards */
+const ATTEMPTS = 2;
+
+/** JSON schema of a flashcard response */
+const CARDS_SCHEMA = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' },
+        },
+        required: ['front', 'back'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['cards'],
+  additionalProperties: false,
+};
+
+/**
+ * @typedef {Object} FlashcardsRequest
+ * @property {string} [documentId] - Document identifier, used for logging
+ * @property {string} content - Content to generate cards from
+ * @property {number} count - Number of cards
+ */
+
+/**
+ * @typedef {Object} Flashcard
+ * @property {string} front - Prompt side, a question or term
+ * @property {string} back - Answer side
+ */
+
+/**
+ * @typedef {Object} FlashcardsResult
+ * @property {Flashcard[]} cards - Generated cards
+ */
+
+/**
+ * Builds the card generation prompt
+ * @param {string} content - Content to generate cards from
+ * @param {number} count - Number of cards
+ * @param {Flashcard[]} existing - Cards already generated, which must not be repeated
+ * @returns {string} - Prompt text
+ */
+function buildPrompt(content, count, existing) {
+  const avoid = existing.length
+    ? `\n\nDo not repeat these existing cards:\n${existing.map((card) => `- ${card.front}`).join('\n')}`
+    : '';
+
+  return `Create ${count} flashcards for spaced-repetition study of the following content. Each card tests one fact, definition, formula or relationship. The front is a short question or cue; the back is a concise, complete answer. Cards must make sense on their own, without the document at hand. Write mathematics in LaTeX with $...$ or $$...$$ delimiters and keep formulas from the content verbatim.
+
+Content:
+${content}${avoid}
+
+Respond with a JSON object of the form:
+{
+  "cards": [
+    { "front": "Question", "back": "Answer" }
+  ]
+}`;
+}
+
+/**
+ * Parses model output into valid cards
+ * @param {string} text - Raw model output
+ * @returns {Flashcard[]} - Cards with both sides filled
+ */
+function parseCards(text) {
+  let cards;
+  try {
+    cards = JSON.parse(cleanJsonResponse(text)).cards;
+  } catch (parseError) {
+    console.warn('[Flashcards] Parse error:', parseError.message);
+  }
+
+  return (Array.isArray(cards) ? cards : [])
+    .filter((card) => typeof card?.front === 'string' && card.front.trim() && typeof card.back === 'string' && card.back.trim())
+    .map((card) => ({ front: card.front.trim(), back: card.back.trim() }));
+}
+
+/**
+ * Normalizes a card front for duplicate detection
+ * @param {string} front - Card front
+ * @returns {string} - Lowercased front without spacing differences
+ */
+function frontKey(front) {
+  return front.toLowerCase().replace(/\s+/g, ' ');
+}
+
+module.exports = {
+  name: 'flashcards',
+  label: 'Flashcards',
+  failureMessage: 'Failed to generate flashcards.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {FlashcardsRequest} - Validated request
+   */
+  validate(body) {
+    return {
+      documentId: body.documentId,
+      content: requireString(body.content, 'content'),
+      count: requireInteger(body.count, 1, MAX_CARDS, 'count'),
+    };
+  },
+
+  /**
+   * @param {FlashcardsRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, count }) {
+    return `Document: ${documentId}, Count: ${count}`;
+  },
+
+  /**
+   * @param {FlashcardsRequest} request - Validated request
+   * @returns {Promise<FlashcardsResult>} - Generated cards
+   */
+  async run({ content, count }) {
+    const cards = [];
+    const seen = new Set();
+
+    for (let attempt = 1; attempt <= ATTEMPTS && cards.length < count; attempt++) {
+      const text = await generateContent(buildPrompt(content, count - cards.length, cards), {
+        task: 'flashcards',
+        responseSchema: CARDS_SCHEMA,
+      });
+
+      for (const card of parseCards(text)) {
+        if (cards.length === count || seen.has(frontKey(card.front))) continue;
+        seen.add(frontKey(card.front));
+        cards.push(card);
+      }
+    }
+
+    if (cards.length === 0) {
+      throw new OperationError('No flashcards could be generated from this content. Please try again.');
+    }
+    if (cards.length < count) {
+      console.warn(`[Flashcards] Generated ${cards.length} of ${count} cards`);
+    }
+
+    return { cards };
+  },
+};
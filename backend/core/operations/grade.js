@@ -0,0 +1,194 @@
+/**
+ * Grade Operation
+ *
+ * Grades free-text quiz answers against each question's model answer.
+ * Blank answers are marked incorrect without asking the model.
+ */
+
+const { generateContent } = require('../../providers');
+const { OperationError, validationError } = require('../errors');
+const { cleanJsonResponse } = require('../json');
+
+/** Maximum number of answers graded per request */
+const MAX_ITEMS = 20;
+
+/** JSON schema of the grading response */
+const GRADE_SCHEMA = {
+  type: 'object',
+  properties: {
+    grades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          correct: { type: 'boolean' },
+          feedback: { type: 'string' },
+        },
+        required: ['id', 'correct', 'feedback'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['grades'],
+  additionalProperties: false,
+};
+
+/**
+ * @typedef {Object} GradeItem
+ * @property {string} id - Question identifier
+ * @property {string} question - Question text
+ * @property {string} sampleAnswer - Model answer to grade against
+ * @property {string} answer - Learner's answer
+ */
+
+/**
+ * @typedef {Object} GradeRequest
+ * @property {string} [documentId] - Document identifier, used for logging
+ * @property {GradeItem[]} items - Answers to grade
+ */
+
+/**
+ * @typedef {Object} Grade
+ * @property {string} id - Question identifier
+ * @property {boolean} correct - Whether the answer is acceptable
+ * @property {string} feedback - Short explanation of the grade
+ */
+
+/**
+ * @typedef {Object} GradeResult
+ * @property {Grade[]} grades - One grade per item, in request order
+ */
+
+/**
+ * Validates the answers to grade
+ * @param {unknown} items - Raw items field
+ * @returns {GradeItem[]} - Validated items
+ */
+function validateItems(items) {
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ITEMS) {
+    throw validationError(`"items" must be an array of 1 to ${MAX_ITEMS} answers.`);
+  }
+
+  return items.map((item, index) => {
+    const fields = ['id', 'question', 'sampleAnswer', 'answer'];
+    if (!fields.every((field) => typeof item?.[field] === 'string')) {
+      throw validationError(`"items[${index}]" must have string ${fields.join(', ')}.`);
+    }
+    return {
+      id: item.id,
+      question: item.question,
+      sampleAnswer: item.sampleAnswer,
+      answer: item.answer,
+    };
+  });
+}
+
+/**
+ * Builds the grading prompt
+ * @param {GradeItem[]} items - Answered items
+ * @returns {string} - Prompt text
+ */
+function buildPrompt(items) {
+  const entries = items
+    .map(
+      (item) =>
+        `ID: ${item.id}\nQuestion: ${item.question}\nModel answer: ${item.sampleAnswer}\nStudent answer: ${item.answer}`
+    )
+    .join('\n\n');
+
+  return `You are grading short free-text quiz answers. Mark an answer correct when it conveys the same key ideas as the model answer, even if worded differently or less complete in minor details. Mathematical expressions that are equivalent count as the same. For each answer give one or two sentences of feedback. Preserve any LaTeX formatting.
+
+${entries}
+
+Respond with a JSON object of the form:
+{
+  "grades": [
+    { "id": "question id", "correct": true, "feedback": "Feedback text" }
+  ]
+}`;
+}
+
+/**
+ * Parses the model's grades, keeping one per requested item
+ * @param {string} text - Raw model output
+ * @param {GradeItem[]} items - Items that were graded
+ * @returns {Grade[]} - Grades in item order
+ */
+function parseGrades(text, items) {
+  let grades;
+  try {
+    grades = JSON.parse(cleanJsonResponse(text)).grades;
+  } catch (parseError) {
+    console.error('[Grade] Parse error:', parseError.message);
+  }
+
+  const byId = new Map(
+    (Array.isArray(grades) ? grades : [])
+      .filter((grade) => typeof grade?.correct === 'boolean')
+      .map((grade) => [grade.id, grade])
+  );
+
+  if (!items.every((item) => byId.has(item.id))) {
+    throw new OperationError('Failed to grade answers. Please try again.');
+  }
+
+  return items.map((item) => ({
+    id: item.id,
+    correct: byId.get(item.id).correct,
+    feedback: String(byId.get(item.id).feedback ?? ''),
+  }));
+}
+
+module.exports = {
+  name: 'grade',
+  label: 'Grade',
+  failureMessage: 'Failed to grade answers.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {GradeRequest} - Validated request
+   */
+  validate(body) {
+    return {
+      documentId: body.documentId,
+      items: validateItems(body.items),
+    };
+  },
+
+  /**
+   * @param {GradeRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, items }) {
+    return `Document: ${documentId}, Answers: ${items.length}`;
+  },
+
+  /**
+   * @param {GradeRequest} request - Validated request
+   * @returns {Promise<GradeResult>} - Grades
+   */
+  async run({ items }) {
+    const answered = items.filter((item) => item.answer.trim());
+    let grades = [];
+
+    if (answered.length) {
+      const text = await generateContent(buildPrompt(answered), {
+        task: 'grade',
+        responseSchema: GRADE_SCHEMA,
+      });
+      grades = parseGrades(text, answered);
+    }
+
+    return {
+      grades: items.map(
+        (item) =>
+          grades.find((grade) => grade.id === item.id) ?? {
+            id: item.id,
+            correct: false,
+            feedback: 'No answer given.',
+          }
+      ),
+    };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * Import URL Operation
+ *
+ * Fetches a web page or document within size and time limits and extracts
+ * its text, so it can be added to the workspace as is.
+ */
+
+const { readIntEnv } = require('../config');
+const { validationError } = require('../errors');
+const { extractDocument } = require('../extraction');
+const { fetchRemoteDocument } = require('../remote');
+const { requireString } = require('../validation');
+
+/** Default maximum download size in bytes */
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+/** Default time allowed for the whole download, in milliseconds */
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * @typedef {Object} ImportRequest
+ * @property {string} url - Absolute http or https URL
+ */
+
+/**
+ * @typedef {Object} ImportResult
+ * @property {string} url - Final URL after redirects
+ * @property {string} name - File name derived from the URL
+ * @property {string} content - Extracted Markdown-style text
+ * @property {string} type - MIME type of the document
+ * @property {string} [title] - Page or document title
+ * @property {import('../extraction').PageSpan[]} [pages] - Character range of each page, for PDFs
+ */
+
+module.exports = {
+  name: 'importUrl',
+  label: 'Import',
+  failureMessage: 'Failed to import the URL.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {ImportRequest} - Validated request
+   */
+  validate(body) {
+    const raw = requireString(body.url, 'url').trim();
+
+    let url;
+    try {
+      url = new URL(raw);
+    } catch {
+      throw validationError('"url" must be a valid http or https URL.');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw validationError('"url" must be a valid http or https URL.');
+    }
+
+    return { url: url.href };
+  },
+
+  /**
+   * @param {ImportRequest} request - Validated request
+   * @returns {string} - Log line (host only, since query strings may hold tokens)
+   */
+  describe({ url }) {
+    return `Host: ${new URL(url).host}`;
+  },
+
+  /**
+   * @param {ImportRequest} request - Validated request
+   * @returns {Promise<ImportResult>} - Extracted document
+   */
+  async run({ url }) {
+    const document = await fetchRemoteDocument(url, {
+      maxBytes: readIntEnv('IMPORT_MAX_BYTES', DEFAULT_MAX_BYTES),
+      timeoutMs: readIntEnv('IMPORT_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    });
+    const extracted = await extractDocument(document);
+
+    return { url: document.url, name: document.name, ...extracted };
+  },
+};
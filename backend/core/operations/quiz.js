@@ -0,0 +1,289 @@
+/**
+ * Quiz Operation
+ *
+ * Generates a quiz from document content, mixing the requested question
+ * types. The model is asked for schema-conforming JSON; every question is
+ * validated and invalid or missing questions are sent back to the model for
+ * repair.
+ *
+ * Environment:
+ *   QUIZ_REPAIR_ATTEMPTS   Repair prompts after the first attempt (default: 2)
+ */
+
+const { generateContent } = require('../../providers');
+const { OperationError } = require('../errors');
+const { cleanJsonResponse } = require('../json');
+const {
+  requireString,
+  requireOneOf,
+  requireInteger,
+  requireSubset,
+  requireStringList,
+} = require('../validation');
+const { readIntEnv } = require('../config');
+const {
+  QUESTION_TYPE_NAMES,
+  buildQuizSchema,
+  describeQuizFormat,
+  validateQuestion,
+  extractQuestions,
+} = require('../quizSchema');
+
+/** Supported difficulty levels */
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/** Maximum number of questions per quiz */
+const MAX_QUESTIONS = 20;
+
+/** Question types used when a request does not choose any */
+const DEFAULT_TYPES = ['multiple-choice'];
+
+/** Maximum number of topics a quiz can focus on */
+const MAX_FOCUS_TOPICS = 10;
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * @typedef {'multiple-choice' | 'true-false' | 'multi-select' | 'fill-blank' | 'numeric' | 'short-answer'} QuestionType
+ */
+
+/**
+ * @typedef {Object} QuizRequest
+ * @property {string} [documentId] - Document identifier, used for logging
+ * @property {string} content - Content to generate the quiz from
+ * @property {number} count - Number of questions
+ * @property {'easy' | 'medium' | 'hard'} difficulty - Quiz difficulty
+ * @property {QuestionType[]} types - Question types to mix
+ * @property {string[]} focusTopics - Topics the learner missed, to concentrate on; empty for a general quiz
+ */
+
+/**
+ * @typedef {Object} QuizQuestion
+ * @property {string} id - Question identifier
+ * @property {QuestionType} type - Question type
+ * @property {string} topic - Concept the question tests
+ * @property {string} question - Question text
+ * @property {string} explanation - Answer explanation
+ *
+ * Answer fields depend on the type:
+ * @property {string[]} [options] - Options (multiple-choice, multi-select)
+ * @property {number} [correctAnswer] - Correct option index (multiple-choice)
+ * @property {number[]} [correctAnswers] - Correct option indices (multi-select)
+ * @property {boolean} [isTrue] - Whether the statement holds (true-false)
+ * @property {string[]} [acceptedAnswers] - Answers that fill the blank (fill-blank)
+ * @property {number} [numericAnswer] - Exact value (numeric)
+ * @property {number} [tolerance] - Largest accepted absolute error (numeric)
+ * @property {string} [unit] - Unit of the value, empty when unitless (numeric)
+ * @property {string} [sampleAnswer] - Model answer for grading (short-answer)
+ */
+
+/**
+ * @typedef {Object} RejectedQuestion
+ * @property {unknown} question - Question as generated
+ * @property {string[]} problems - Why it was rejected
+ */
+
+/**
+ * @typedef {Object} QuizResult
+ * @property {{ questions: QuizQuestion[] }} quiz - Generated quiz
+ */
+
+/**
+ * Splits the question count evenly across the requested types
+ * @param {number} count - Total number of questions
+ * @param {QuestionType[]} types - Requested types, in priority order
+ * @returns {Record<string, number>} - Questions per type
+ */
+function allocateQuestions(count, types) {
+  const quotas = Object.fromEntries(types.map((type) => [type, 0]));
+  for (let index = 0; index < count; index++) {
+    quotas[types[index % types.length]]++;
+  }
+  return quotas;
+}
+
+/**
+ * Formats per-type question counts for prompts
+ * @param {Record<string, number>} quotas - Questions per type
+ * @returns {string} - Counts such as "2 multiple-choice, 1 numeric"
+ */
+function formatQuotas(quotas) {
+  return Object.entries(quotas)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+}
+
+/**
+ * Describes the topics a quiz should concentrate on for prompts
+ * @param {string[]} focusTopics - Topics the learner missed
+ * @returns {string} - Prompt lines, empty when there are no focus topics
+ */
+function describeFocus(focusTopics) {
+  if (focusTopics.length === 0) return '';
+  return `\nFocus topics: ${focusTopics.join('; ')}
+The learner answered questions on these topics incorrectly before. Base the questions on them, approaching each from a new angle, and use these names as the questions' "topic".`;
+}
+
+/**
+ * Builds the quiz generation prompt
+ * @param {QuizRequest} request - Validated request
+ * @param {Record<string, number>} quotas - Questions per type
+ * @returns {string} - Prompt text
+ */
+function buildPrompt({ content, count, difficulty, types, focusTopics }, quotas) {
+  return `Generate a quiz with ${count} questions based on the following content. The difficulty should be ${difficulty}. Preserve any LaTeX formatting.
+Question types: ${formatQuotas(quotas)}${describeFocus(focusTopics)}
+
+Content:
+${content}
+
+${describeQuizFormat(types)}`;
+}
+
+/**
+ * Builds the prompt that asks the model to fix rejected questions and fill the gap
+ * @param {QuizRequest} request - Validated request
+ * @param {Record<string, number>} missing - Questions still needed per type
+ * @param {QuizQuestion[]} accepted - Questions already accepted
+ * @param {RejectedQuestion[]} rejected - Questions that failed validation
+ * @param {string | null} parseFailure - Why the last response could not be read, if it could not
+ * @returns {string} - Prompt text
+ */
+function buildRepairPrompt({ content, difficulty, types, focusTopics }, missing, accepted, rejected, parseFailure) {
+  const missingCount = Object.values(missing).reduce((sum, count) => sum + count, 0);
+  const issues = parseFailure
+    ? `Your previous response could not be used: ${parseFailure}.`
+    : `These questions from your previous response were rejected:\n\n${rejected
+        .map(({ question, problems }) => `${JSON.stringify(question)}\nProblems: ${problems.join('; ')}`)
+        .join('\n\n')}`;
+  const existing = accepted.length
+    ? `\n\nDo not repeat these accepted questions:\n${accepted.map((q) => `- ${q.question}`).join('\n')}`
+    : '';
+
+  return `You are generating a quiz based on the following content. The difficulty should be ${difficulty}. Preserve any LaTeX formatting.
+
+Content:
+${content}
+
+${issues}${existing}
+
+Provide exactly ${missingCount} corrected or new question${missingCount === 1 ? '' : 's'}.
+Question types: ${formatQuotas(missing)}${describeFocus(focusTopics)}
+
+${describeQuizFormat(types)}`;
+}
+
+/**
+ * Parses model output into candidate questions
+ * @param {string} text - Raw model output
+ * @returns {{ candidates: unknown[], parseFailure: string | null }} - Candidates, or why none could be read
+ */
+function parseCandidates(text) {
+  let parsed;
+  try {
+    parsed = JSON.parse(cleanJsonResponse(text));
+  } catch (parseError) {
+    console.warn('[Quiz] Parse error:', parseError.message);
+    return { candidates: [], parseFailure: 'it was not valid JSON' };
+  }
+
+  const candidates = extractQuestions(parsed);
+  if (!candidates) {
+    return { candidates: [], parseFailure: 'it did not contain a "questions" array' };
+  }
+
+  return { candidates, parseFailure: null };
+}
+
+/**
+ * Generates questions, re-prompting the model until every type quota is filled
+ * @param {QuizRequest} request - Validated request
+ * @returns {Promise<QuizQuestion[]>} - Exactly `count` validated questions
+ */
+async function generateQuestions(request) {
+  const attempts = 1 + readIntEnv('QUIZ_REPAIR_ATTEMPTS', DEFAULT_REPAIR_ATTEMPTS);
+  const responseSchema = buildQuizSchema(request.types);
+  const missing = allocateQuestions(request.count, request.types);
+  const accepted = [];
+  let prompt = buildPrompt(request, missing);
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const text = await generateContent(prompt, { task: 'quiz', responseSchema });
+    const { candidates, parseFailure } = parseCandidates(text);
+    const rejected = [];
+
+    for (const candidate of candidates) {
+      const { question, problems } = validateQuestion(candidate, request.types);
+
+      if (question && accepted.some((q) => q.question.trim() === question.question.trim())) {
+        problems.push('duplicates an earlier question');
+      }
+      if (problems.length) {
+        rejected.push({ question: candidate, problems });
+        continue;
+      }
+
+      // Extra questions of a type whose quota is already filled are dropped
+      if (missing[question.type] === 0) continue;
+
+      missing[question.type]--;
+      accepted.push({ id: `q${accepted.length + 1}`, ...question });
+    }
+
+    if (accepted.length === request.count) return accepted;
+
+    console.warn(
+      `[Quiz] Attempt ${attempt}: ${accepted.length}/${request.count} valid, ${rejected.length} rejected`
+    );
+    prompt = buildRepairPrompt(request, missing, accepted, rejected, parseFailure);
+  }
+
+  throw new OperationError(
+    `Could only generate ${accepted.length} of ${request.count} valid questions. Please try again.`
+  );
+}
+
+module.exports = {
+  name: 'quiz',
+  label: 'Quiz',
+  failureMessage: 'Failed to generate quiz.',
+
+  /**
+   * @param {Object} body - Raw request body
+   * @returns {QuizRequest} - Validated request
+   */
+  validate(body) {
+    return {
+      documentId: body.documentId,
+      content: requireString(body.content, 'content'),
+      count: requireInteger(body.count, 1, MAX_QUESTIONS, 'count'),
+      difficulty: requireOneOf(body.difficulty, DIFFICULTIES, 'difficulty'),
+      types:
+        body.types === undefined
+          ? DEFAULT_TYPES
+          : requireSubset(body.types, QUESTION_TYPE_NAMES, 'types'),
+      focusTopics:
+        body.focusTopics === undefined
+          ? []
+          : requireStringList(body.focusTopics, MAX_FOCUS_TOPICS, 'focusTopics'),
+    };
+  },
+
+  /**
+   * @param {QuizRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, count, difficulty, types, focusTopics }) {
+    const focus = focusTopics.length ? `, Focus: ${focusTopics.join(', ')}` : '';
+    return `Document: ${documentId}, Count: ${count}, Difficulty: ${difficulty}, Types: ${types.join(', ')}${focus}`;
+  },
+
+  /**
+   * @param {QuizRequest} request - Validated request
+   * @returns {Promise<QuizResult>} - Quiz result
+   */
+  async run(request) {
+    return { quiz: { questions: await generateQuestions(request) } };
+  },
+};
@@ -0,0 +1,271 @@
+/**
+ * Summarize Operation
+ *
+ * Generates a summary of document content. Long content is summarized
+ * map-reduce style: each chunk is summarized on its own, then the partial
+ * summaries are combined into the final summary at the requested length.
+ *
+ * The summary style sets the shape of the output: prose, a hierarchical
+ * outline, key takeaways, a glossary of defined terms, a formula sheet or a
+ * one-line TL;DR. Every style is Markdown in a fixed layout the client renders
+ * per style; only prose, outlines and takeaways take a length.
+ *
+ * Environment:
+ *   SUMMARY_CHUNK_CHARS    Maximum characters per chunk (default: 12000)
+ *   SUMMARY_CONCURRENCY    Chunks summarized in parallel (default: 3)
+ */
+
+const { generateContent, streamContent } = require('../../providers');
+const { requireString, requireOneOf } = require('../validation');
+const { chunkText } = require('../chunking');
+const { mapWithConcurrency } = require('../concurrency');
+const { readIntEnv } = require('../config');
+
+/** Supported summary lengths */
+const SUMMARY_LENGTHS = ['short', 'medium', 'detailed'];
+
+/** What partial summaries of long documents keep unless a style needs more */
+const DEFAULT_CHUNK_FOCUS = 'every key point, definition and result. Preserve any LaTeX formatting and keep important formulas verbatim';
+
+/**
+ * Output format of each summary style
+ * @type {Record<SummaryStyle, {usesLength: boolean, instructions: (length?: SummaryLength) => string, chunkFocus?: string}>}
+ */
+const SUMMARY_STYLES = {
+  prose: {
+    usesLength: true,
+    instructions: (length) => `The desired length is ${length}.`,
+  },
+  outline: {
+    usesLength: true,
+    instructions: (length) =>
+      `Write it as a hierarchical outline: a nested Markdown bulleted list with one top-level item per main section, subtopics nested beneath, at most three levels deep, and short phrases rather than sentences. The desired level of detail is ${length}. Output only the list.`,
+  },
+  takeaways: {
+    usesLength: true,
+    instructions: (length) =>
+      `Write it as key takeaways: a Markdown bulleted list, one self-contained sentence per item, most important first. Give ${length === 'short' ? '3' : length === 'detailed' ? '10 to 12' : '5 to 7'} items. Output only the list.`,
+  },
+  glossary: {
+    usesLength: false,
+    instructions: () =>
+      'Write it as a glossary of every term the content defines. Output one Markdown bullet per term, in order of first appearance, exactly of the form `- **Term**: definition`, on a single line each. Keep definitions faithful to the content, and write any formula that is part of a definition in LaTeX. Output only the list.',
+    chunkFocus: 'every term it defines together with its exact definition, including formulas, in LaTeX',
+  },
+  formulas: {
+    usesLength: false,
+    instructions: () =>
+      'Write it as a formula sheet listing every equation in the content, in order of appearance. For each equation output a `### ` heading naming it, then the equation verbatim as display math between `$$` delimiters on its own lines, then one sentence saying what it states and what its symbols mean. Output nothing else.',
+    chunkFocus: 'every equation verbatim in LaTeX, each with what it states and what its symbols mean',
+  },
+  tldr: {
+    usesLength: false,
+    instructions: () => 'Write it as a TL;DR: a single sentence of at most 30 words. Output only that sentence.',
+  },
+};
+
+const DEFAULT_CHUNK_CHARS = 12000;
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * @typedef {'short' | 'medium' | 'detailed'} SummaryLength
+ */
+
+/**
+ * @typedef {'prose' | 'outline' | 'takeaways' | 'glossary' | 'formulas' | 'tldr'} SummaryStyle
+ */
+
+/**
+ * @typedef {Object} SummarizeRequest
+ * @property {string} [documentId] - Document identifier, used for logging
+ * @property {string} content - Content to summarize
+ * @property {SummaryStyle} style - Shape of the summary
+ * @property {SummaryLength} [length] - Desired summary length, for styles that take one
+ * @property {string[]} chunks - Content split into summarizable chunks
+ */
+
+/**
+ * @typedef {Object} SummarizeResult
+ * @property {string} summary - Generated summary
+ * @property {number} chunkCount - Number of chunks the content was split into
+ */
+
+/**
+ * @typedef {Object} SummaryProgress
+ * @property {'map' | 'reduce' | 'combine'} stage - Current phase
+ * @property {number} completed - Finished steps in this phase
+ * @property {number} total - Total steps in this phase
+ */
+
+/**
+ * Builds the single-pass summarization prompt
+ * @param {string} content - Content to summarize
+ * @param {SummarizeRequest} request - Style and length
+ * @returns {string} - Prompt text
+ */
+function buildPrompt(content, { style, length }) {
+  return `Summarize the following content. ${SUMMARY_STYLES[style].instructions(length)} Preserve any LaTeX formatting.
+
+Content:
+${content}
+
+Summary:`;
+}
+
+/**
+ * Builds the prompt that summarizes one chunk of a longer document
+ * @param {string} chunk - Chunk text
+ * @param {number} index - Zero-based chunk index
+ * @param {number} total - Number of chunks
+ * @param {SummaryStyle} style - Style of the final summary, which decides what the part must keep
+ * @returns {string} - Prompt text
+ */
+function buildChunkPrompt(chunk, index, total, style) {
+  const focus = SUMMARY_STYLES[style].chunkFocus ?? DEFAULT_CHUNK_FOCUS;
+  return `The following is part ${index + 1} of ${total} of a longer document. Summarize this part thoroughly, keeping ${focus}.
+
+Content:
+${chunk}
+
+Summary of part ${index + 1}:`;
+}
+
+/**
+ * Builds the prompt that merges partial summaries into the final summary
+ * @param {string[]} partials - Partial summaries in document order
+ * @param {SummarizeRequest} request - Style and length
+ * @returns {string} - Prompt text
+ */
+function buildCombinePrompt(partials, { style, length }) {
+  const sections = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n');
+
+  return `The following are summaries of consecutive parts of one document. Combine them into a single coherent summary of the whole document. ${SUMMARY_STYLES[style].instructions(length)} Remove repetition, keep the document's overall structure, and preserve any LaTeX formatting.
+
+${sections}
+
+Summary:`;
+}
+
+/**
+ * Summarizes chunks, condensing repeatedly until the partial summaries fit one prompt
+ * @param {SummarizeRequest} request - Validated request
+ * @param {(progress: SummaryProgress) => void} onProgress - Progress callback
+ * @returns {Promise<string[]>} - Partial summaries ready to combine
+ */
+async function summarizeChunks({ chunks, style }, onProgress) {
+  const maxChars = readIntEnv('SUMMARY_CHUNK_CHARS', DEFAULT_CHUNK_CHARS);
+  const concurrency = readIntEnv('SUMMARY_CONCURRENCY', DEFAULT_CONCURRENCY);
+
+  let stage = 'map';
+  let parts = chunks;
+
+  for (;;) {
+    let completed = 0;
+    const total = parts.length;
+    onProgress({ stage, completed, total });
+
+    parts = await mapWithConcurrency(parts, concurrency, async (part, index) => {
+      const summary = await generateContent(buildChunkPrompt(part, index, total, style), {
+        task: 'summarize',
+      });
+      onProgress({ stage, completed: ++completed, total });
+      return summary;
+    });
+
+    const combinedLength = parts.reduce((sum, part) => sum + part.length, 0);
+    if (combinedLength <= maxChars) {
+      return parts;
+    }
+
+    // Partial summaries are still too long to combine in one prompt; stop
+    // once another round would no longer reduce the number of parts
+    const regrouped = chunkText(parts.join('\n\n'), maxChars);
+    if (regrouped.length >= parts.length) {
+      return parts;
+    }
+
+    stage = 'reduce';
+    parts = regrouped;
+  }
+}
+
+/**
+ * Builds the prompt for the final summarization step
+ * @param {SummarizeRequest} request - Validated request
+ * @param {(progress: SummaryProgress) => void} onProgress - Progress callback
+ * @returns {Promise<string>} - Prompt text
+ */
+async function prepareFinalPrompt(request, onProgress) {
+  if (request.chunks.length <= 1) {
+    return buildPrompt(request.content, request);
+  }
+
+  const partials = await summarizeChunks(request, onProgress);
+  onProgress({ stage: 'combine', completed: 0, total: 1 });
+  return buildCombinePrompt(partials, request);
+}
+
+module.exports = {
+  name: 'summarize',
+  label: 'Summarize',
+  failureMessage: 'Failed to generate summary.',
+
+  /**
+   * Accepts an optional `style`, prose by default; `length` is required for styles that take one
+   * @param {Object} body - Raw request body
+   * @returns {SummarizeRequest} - Validated request
+   */
+  validate(body) {
+    const content = requireString(body.content, 'content');
+    const style = body.style === undefined ? 'prose' : requireOneOf(body.style, Object.keys(SUMMARY_STYLES), 'style');
+
+    return {
+      documentId: body.documentId,
+      content,
+      style,
+      length: SUMMARY_STYLES[style].usesLength ? requireOneOf(body.length, SUMMARY_LENGTHS, 'length') : undefined,
+      chunks: chunkText(content, readIntEnv('SUMMARY_CHUNK_CHARS', DEFAULT_CHUNK_CHARS)),
+    };
+  },
+
+  /**
+   * @param {SummarizeRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, style, length, chunks }) {
+    return `Document: ${documentId}, Style: ${style}, Length: ${length ?? '-'}, Chunks: ${chunks.length}`;
+  },
+
+  /**
+   * @param {SummarizeRequest} request - Validated request
+   * @returns {Promise<SummarizeResult>} - Summary result
+   */
+  async run(request) {
+    const prompt = await prepareFinalPrompt(request, () => {});
+    const summary = await generateContent(prompt, { task: 'summarize' });
+    return { summary, chunkCount: request.chunks.length };
+  },
+
+  /**
+   * Reports chunk progress, then streams the final summary
+   * @param {SummarizeRequest} request - Validated request
+   * @param {import('../handlers').StreamOptions} options - Stream options
+   * @returns {AsyncGenerator<string>} - Summary text deltas
+   */
+  async *stream(request, { signal, emit }) {
+    const prompt = await prepareFinalPrompt(request, (progress) => emit('progress', progress));
+    if (signal.aborted) return;
+
+    yield* streamContent(prompt, { task: 'summarize', signal });
+  },
+
+  /**
+   * Builds the final result once a stream completes
+   * @param {SummarizeRequest} request - Validated request
+   * @param {string} text - Full streamed summary
+   * @returns {SummarizeResult} - Summary result
+   */
+  complete(request, text) {
+    return { summary: text, chunkCount: request.chunks.length };
+  },
+};
@@ -0,0 +1,399 @@
+/**
+ * Translate Operation
+ *
+ * Translates document content to a target language, paragraph by paragraph,
+ * so the translation can be shown aligned with its source. Content is split
+ * into segments at paragraph boundaries (keeping LaTeX display blocks whole),
+ * segments are translated in batches, and any segment missing from a batch
+ * response is translated on its own. A request may also carry ready-made
+ * segments, e.g. to re-translate a single paragraph.
+ *
+ * Languages are BCP-47 tags. The source language is optional; without it the
+ * model identifies the language of the content itself.
+ *
+ * An optional glossary fixes the translation of technical terms. Entries are
+ * sent with the segments they occur in, and a segment whose translation still
+ * misses a required term is translated once more on its own.
+ *
+ * With `backTranslate`, each translated paragraph is translated back into the
+ * source language and scored against its source, so a reviewer who cannot
+ * read the target language knows which paragraphs to check.
+ *
+ * Environment:
+ *   TRANSLATE_BATCH_CHARS    Maximum source characters per batch (default: 6000)
+ *   TRANSLATE_CONCURRENCY    Batches translated in parallel (default: 3)
+ */
+
+const { generateContent } = require('../../providers');
+const { splitBlocks, splitOversize } = require('../chunking');
+const { mapWithConcurrency } = require('../concurrency');
+const { readIntEnv } = require('../config');
+const { OperationError, validationError } = require('../errors');
+const { validateGlossary, relevantEntries, findViolations, formatGlossary } = require('../glossary');
+const { requireLanguage, optionalLanguage, describeLanguage } = require('../languages');
+const { cleanJsonResponse } = require('../json');
+const { scorePairs } = require('../similarity');
+const { requireString } = require('../validation');
+
+const DEFAULT_BATCH_CHARS = 6000;
+const DEFAULT_CONCURRENCY = 3;
+
+/** Maximum number of segments in one batch prompt */
+const MAX_BATCH_SEGMENTS = 40;
+
+/** Maximum number of ready-made segments per request */
+const MAX_SEGMENTS = 500;
+
+/** JSON schema of a batch translation response */
+const SEGMENTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          translation: { type: 'string' },
+        },
+        required: ['id', 'translation'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['segments'],
+  additionalProperties: false,
+};
+
+/**
+ * @typedef {Object} TranslateOptions
+ * @property {string} [sourceLanguage] - Canonical BCP-47 tag of the content, when known
+ * @property {string} targetLanguage - Canonical BCP-47 tag to translate into
+ * @property {import('../glossary').GlossaryEntry[]} glossary - Required term translations
+ */
+
+/**
+ * @typedef {TranslateOptions & {documentId?: string, segments: string[], backTranslate: boolean}} TranslateRequest
+ */
+
+/**
+ * @typedef {Object} SegmentQuality
+ * @property {string} backTranslation - Translation translated back into the source language
+ * @property {number} score - Similarity of the back-translation to the source, from 0 to 1
+ * @property {import('../similarity').SimilarityMethod} method - How the score was computed
+ */
+
+/**
+ * @typedef {Object} TranslatedSegment
+ * @property {string} source - Source paragraph
+ * @property {string} translation - Its translation
+ * @property {SegmentQuality} [quality] - Back-translation check, when requested
+ */
+
+/**
+ * @typedef {Object} TranslateResult
+ * @property {string} translatedContent - Translated content
+ * @property {TranslatedSegment[]} segments - Source and translation of each paragraph
+ */
+
+/**
+ * Validates ready-made segments
+ * @param {unknown} segments - Raw segments field
+ * @returns {string[]} - Validated segments
+ */
+function validateSegments(segments) {
+  if (
+    !Array.isArray(segments) ||
+    segments.length === 0 ||
+    segments.length > MAX_SEGMENTS ||
+    !segments.every((segment) => typeof segment === 'string' && segment.trim())
+  ) {
+    throw validationError(`"segments" must be an array of 1 to ${MAX_SEGMENTS} non-empty strings.`);
+  }
+  return segments;
+}
+
+/**
+ * Describes the translation direction for a prompt
+ * @param {TranslateOptions} options - Languages
+ * @returns {string} - e.g. "from English (en) into Hindi (hi)"
+ */
+function direction({ sourceLanguage, targetLanguage }) {
+  const from = sourceLanguage ? `from ${describeLanguage(sourceLanguage)} ` : '';
+  return `${from}into ${describeLanguage(targetLanguage)}`;
+}
+
+/**
+ * Builds the prompt that translates a single segment
+ * @param {string} content - Content to translate
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {string} - Prompt text
+ */
+function buildPrompt(content, options) {
+  return `Translate the following content ${direction(options)}. Preserve any LaTeX formatting.${formatGlossary(relevantEntries(options.glossary, content))}
+
+Content:
+${content}
+
+Translated Content:`;
+}
+
+/**
+ * Builds the prompt that translates a batch of segments
+ * @param {string[]} segments - Consecutive source segments
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {string} - Prompt text
+ */
+function buildBatchPrompt(segments, options) {
+  const entries = segments.map((segment, index) => `[${index + 1}]\n${segment}`).join('\n\n');
+  const terms = formatGlossary(relevantEntries(options.glossary, segments.join('\n\n')));
+
+  return `Translate each numbered segment below ${direction(options)}. The segments are consecutive paragraphs of one document. Translate every segment separately and completely: do not merge, split or skip segments. Preserve any LaTeX formatting and Markdown.${terms}
+
+${entries}
+
+Respond with a JSON object of the form:
+{
+  "segments": [
+    { "id": "1", "translation": "Translated segment" }
+  ]
+}`;
+}
+
+/**
+ * Splits content into paragraph segments that each fit in one batch
+ *
+ * Unclosed display math ends at the batch limit, and paragraphs longer than
+ * it, such as PDF text without blank lines, are split at line breaks and
+ * sentence ends.
+ * @param {string} content - Source text
+ * @returns {string[]} - Segments in document order
+ */
+function splitParagraphs(content) {
+  const maxChars = readIntEnv('TRANSLATE_BATCH_CHARS', DEFAULT_BATCH_CHARS);
+  return splitBlocks(content, maxChars).flatMap((block) => splitOversize(block, maxChars));
+}
+
+/**
+ * Groups segment indices into batches that fit the character limit
+ * @param {string[]} segments - Source segments
+ * @param {number} maxChars - Maximum characters per batch
+ * @returns {number[][]} - Batches of segment indices
+ */
+function batchSegments(segments, maxChars) {
+  const batches = [];
+  let current = [];
+  let size = 0;
+
+  segments.forEach((segment, index) => {
+    if (current.length && (size + segment.length > maxChars || current.length >= MAX_BATCH_SEGMENTS)) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(index);
+    size += segment.length;
+  });
+
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+/**
+ * Parses a batch response into translations by position
+ * @param {string} text - Raw model output
+ * @param {number} count - Number of segments in the batch
+ * @returns {(string | undefined)[]} - Translation of each segment, undefined when missing
+ */
+function parseBatch(text, count) {
+  let entries;
+  try {
+    entries = JSON.parse(cleanJsonResponse(text)).segments;
+  } catch (parseError) {
+    console.error('[Translate] Parse error:', parseError.message);
+  }
+
+  const translations = new Array(count).fill(undefined);
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const index = Number(entry?.id) - 1;
+    if (Number.isInteger(index) && index >= 0 && index < count && typeof entry.translation === 'string' && entry.translation.trim()) {
+      translations[index] = entry.translation.trim();
+    }
+  }
+  return translations;
+}
+
+/**
+ * Translates one segment on its own
+ * @param {string} segment - Source segment
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {Promise<string>} - Translation
+ * @throws {OperationError} - When the model returns nothing
+ */
+async function translateSegment(segment, options) {
+  const translation = await generateContent(buildPrompt(segment, options), { task: 'translate' });
+  if (!translation?.trim()) {
+    throw new OperationError('Translation returned empty. Try different content or language.');
+  }
+  return translation.trim();
+}
+
+/**
+ * Translates a segment again on its own when its translation misses glossary terms
+ * @param {string} segment - Source segment
+ * @param {string} translation - Current translation
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {Promise<string>} - The translation with fewer violations
+ */
+async function enforceGlossary(segment, translation, options) {
+  const violations = findViolations(options.glossary, segment, translation);
+  if (violations.length === 0) return translation;
+
+  const retry = await translateSegment(segment, options);
+  const remaining = findViolations(options.glossary, segment, retry);
+  if (remaining.length) {
+    console.warn(`[Translate] Glossary terms still missing: ${remaining.map((entry) => entry.source).join(', ')}`);
+  }
+  return remaining.length < violations.length ? retry : translation;
+}
+
+/**
+ * Translates a batch of segments, falling back to one request per segment for any the batch missed
+ * @param {string[]} segments - Source segments of the batch
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {Promise<string[]>} - Translations in segment order
+ */
+async function translateBatch(segments, options) {
+  const translations = await translateBatchOnce(segments, options);
+  return Promise.all(
+    translations.map((translation, index) => enforceGlossary(segments[index], translation, options))
+  );
+}
+
+/**
+ * Translates a batch of segments in one request, translating any the response missed individually
+ * @param {string[]} segments - Source segments of the batch
+ * @param {TranslateOptions} options - Languages and glossary
+ * @returns {Promise<string[]>} - Translations in segment order
+ */
+async function translateBatchOnce(segments, options) {
+  if (segments.length === 1) {
+    return [await translateSegment(segments[0], options)];
+  }
+
+  const text = await generateContent(buildBatchPrompt(segments, options), {
+    task: 'translate',
+    responseSchema: SEGMENTS_SCHEMA,
+  });
+  const translations = parseBatch(text, segments.length);
+
+  const missing = translations.filter((translation) => translation === undefined).length;
+  if (missing) {
+    console.warn(`[Translate] ${missing} of ${segments.length} segments missing from batch; translating them individually`);
+  }
+
+  return Promise.all(
+    translations.map((translation, index) => translation ?? translateSegment(segments[index], options))
+  );
+}
+
+/**
+ * Translates translations back into the source language and scores them against their sources
+ * @param {string[]} sources - Source segments
+ * @param {string[]} translations - Their translations
+ * @param {TranslateOptions} options - Languages of the translation; the source language is required
+ * @param {number} maxChars - Maximum characters per batch
+ * @param {number} concurrency - Batches translated in parallel
+ * @returns {Promise<SegmentQuality[]>} - Quality of each segment
+ */
+async function estimateQuality(sources, translations, options, maxChars, concurrency) {
+  // The glossary is left out so required terms cannot make a poor translation look faithful
+  const reverse = { sourceLanguage: options.targetLanguage, targetLanguage: options.sourceLanguage, glossary: [] };
+  const backTranslated = await mapWithConcurrency(batchSegments(translations, maxChars), concurrency, (batch) =>
+    translateBatchOnce(batch.map((index) => translations[index]), reverse)
+  );
+  const backTranslations = backTranslated.flat();
+
+  const { method, scores } = await scorePairs(sources, backTranslations);
+  return backTranslations.map((backTranslation, index) => ({
+    backTranslation,
+    score: Math.round(scores[index] * 1000) / 1000,
+    method,
+  }));
+}
+
+module.exports = {
+  name: 'translate',
+  label: 'Translate',
+  failureMessage: 'Failed to translate content.',
+
+  /**
+   * Accepts either `content`, which is split into paragraphs, or ready-made `segments`, and an
+   * optional `sourceLanguage`, `glossary` and `backTranslate`; back-translation needs the source language
+   * @param {Object} body - Raw request body
+   * @returns {TranslateRequest} - Validated request
+   */
+  validate(body) {
+    const segments =
+      body.segments !== undefined
+        ? validateSegments(body.segments)
+        : splitParagraphs(requireString(body.content, 'content'));
+
+    if (segments.length === 0) {
+      throw validationError('"content" must be a non-empty string.');
+    }
+
+    if (body.backTranslate !== undefined && typeof body.backTranslate !== 'boolean') {
+      throw validationError('"backTranslate" must be a boolean.');
+    }
+
+    const sourceLanguage = optionalLanguage(body.sourceLanguage, 'sourceLanguage');
+    if (body.backTranslate && !sourceLanguage) {
+      throw validationError('"sourceLanguage" is required for back-translation.');
+    }
+
+    return {
+      documentId: body.documentId,
+      segments,
+      sourceLanguage,
+      targetLanguage: requireLanguage(body.targetLanguage, 'targetLanguage'),
+      glossary: validateGlossary(body.glossary),
+      backTranslate: body.backTranslate === true,
+    };
+  },
+
+  /**
+   * @param {TranslateRequest} request - Validated request
+   * @returns {string} - Log line
+   */
+  describe({ documentId, segments, sourceLanguage, targetLanguage, glossary, backTranslate }) {
+    return `Document: ${documentId}, Language: ${sourceLanguage ?? 'auto'} → ${targetLanguage}, Segments: ${segments.length}, Glossary: ${glossary.length}, Back-translate: ${backTranslate}`;
+  },
+
+  /**
+   * @param {TranslateRequest} request - Validated request
+   * @returns {Promise<TranslateResult>} - Translation result
+   */
+  async run({ segments, sourceLanguage, targetLanguage, glossary, backTranslate }) {
+    const options = { sourceLanguage, targetLanguage, glossary };
+    const maxChars = readIntEnv('TRANSLATE_BATCH_CHARS', DEFAULT_BATCH_CHARS);
+    const concurrency = readIntEnv('TRANSLATE_CONCURRENCY', DEFAULT_CONCURRENCY);
+
+    const translated = await mapWithConcurrency(batchSegments(segments, maxChars), concurrency, (batch) =>
+      translateBatch(batch.map((index) => segments[index]), options)
+    );
+    const translations = translated.flat();
+    const quality = backTranslate
+      ? await estimateQuality(segments, translations, options, maxChars, concurrency)
+      : [];
+
+    return {
+      translatedContent: translations.join('\n\n'),
+      segments: segments.map((source, index) => ({
+        source,
+        translation: translations[index],
+        ...(quality[index] && { quality: quality[index] }),
+      })),
+    };
+  },
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import translate from './translate';
+
+const MAX_CHARS = 6000;
+
+/** Validates a translation request for the given content */
+function segmentsOf(content) {
+  return translate.validate({ content, targetLanguage: 'de' }).segments;
+}
+
+describe('translate.validate', () => {
+  it('splits content into paragraph segments', () => {
+    expect(segmentsOf('First.\n\n$$\na = b\n\nc = d\n$$\n\nLast.')).toEqual([
+      'First.',
+      '$$\na = b\n\nc = d\n$$',
+      'Last.',
+    ]);
+  });
+
+  it('keeps paragraphs separate after a stray display math delimiter', () => {
+    const paragraphs = Array.from({ length: 200 }, (_, index) => `Paragraph ${index + 1} of the document.`);
+    paragraphs[10] = 'It costs $$5 per unit.';
+    const segments = segmentsOf(paragraphs.join('\n\n'));
+
+    expect(segments.length).toBeGreaterThan(150);
+    expect(segments).toContain('It costs $$5 per unit.');
+    segments.forEach((segment) => expect(segment.length).toBeLessThanOrEqual(MAX_CHARS));
+  });
+
+  it('splits single-newline text into segments that fit a batch', () => {
+    const content = Array.from({ length: 5000 }, (_, index) => `Line ${index + 1} of the extracted text.`).join('\n');
+    const segments = segmentsOf(content);
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment) => expect(segment.length).toBeLessThanOrEqual(MAX_CHARS));
+    expect(segments.join('\n')).toBe(content);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Quiz Schema
+ *
+ * Question types, the JSON schema requested from the model for quiz output,
+ * and the server-side checks every generated question must pass before it
+ * reaches the client.
+ */
+
+/** Number of options every multiple-choice question must have */
+const OPTION_COUNT = 4;
+
+/** Option count range for multi-select questions */
+const MIN_MULTI_SELECT_OPTIONS = 4;
+const MAX_MULTI_SELECT_OPTIONS = 6;
+
+/** Matches the blank in a fill-in-the-blank question */
+const BLANK_PATTERN = /_{3,}/;
+
+/**
+ * Reports whether a value is a string with visible content
+ * @param {unknown} value - Value to check
+ * @returns {boolean} - True for non-blank strings
+ */
+function isFilledString(value) {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Checks a list of answer options
+ * @param {unknown} options - Candidate options
+ * @param {number} min - Minimum option count
+ * @param {number} max - Maximum option count
+ * @returns {string[]} - Problem descriptions
+ */
+function validateOptions(options, min, max) {
+  const count = min === max ? `exactly ${min}` : `${min} to ${max}`;
+
+  if (!Array.isArray(options) || options.length < min || options.length > max) {
+    return [`"options" must contain ${count} entries`];
+  }
+  if (!options.every(isFilledString)) {
+    return ['every option must be a non-empty string'];
+  }
+  if (new Set(options.map((option) => option.trim())).size !== options.length) {
+    return ['options must be distinct'];
+  }
+  return [];
+}
+
+/**
+ * Question type definitions keyed by type name
+ *
+ * Each type lists the schema of its answer fields, an example for prompts,
+ * a validator returning problem descriptions, and a picker that copies the
+ * answer fields of a valid question.
+ */
+const QUESTION_TYPES = {
+  'multiple-choice': {
+    properties: {
+      options: { type: 'array', items: { type: 'string' } },
+      correctAnswer: { type: 'integer' },
+    },
+    example: {
+      options: ['Option 0', 'Option 1', 'Option 2', 'Option 3'],
+      correctAnswer: 0,
+    },
+    instructions: `exactly ${OPTION_COUNT} distinct options and "correctAnswer", the index (0-${OPTION_COUNT - 1}) of the correct option`,
+    validate(question) {
+      const problems = validateOptions(question.options, OPTION_COUNT, OPTION_COUNT);
+      if (
+        !Number.isInteger(question.correctAnswer) ||
+        question.correctAnswer < 0 ||
+        question.correctAnswer >= OPTION_COUNT
+      ) {
+        problems.push(`"correctAnswer" must be an integer from 0 to ${OPTION_COUNT - 1}`);
+      }
+      return problems;
+    },
+    pick: ({ options, correctAnswer }) => ({ options, correctAnswer }),
+  },
+
+  'true-false': {
+    properties: {
+      isTrue: { type: 'boolean' },
+    },
+    example: { isTrue: true },
+    instructions: 'a statement as the question and "isTrue", whether the statement is true',
+    validate(question) {
+      return typeof question.isTrue === 'boolean' ? [] : ['"isTrue" must be a boolean'];
+    },
+    pick: ({ isTrue }) => ({ isTrue }),
+  },
+
+  'multi-select': {
+    properties: {
+      options: { type: 'array', items: { type: 'string' } },
+      correctAnswers: { type: 'array', items: { type: 'integer' } },
+    },
+    example: {
+      options: ['Option 0', 'Option 1', 'Option 2', 'Option 3', 'Option 4'],
+      correctAnswers: [0, 2],
+    },
+    instructions: `${MIN_MULTI_SELECT_OPTIONS} to ${MAX_MULTI_SELECT_OPTIONS} distinct options and "correctAnswers", the indices of every correct option`,
+    validate(question) {
+      const problems = validateOptions(
+        question.options,
+        MIN_MULTI_SELECT_OPTIONS,
+        MAX_MULTI_SELECT_OPTIONS
+      );
+      const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+      const answers = question.correctAnswers;
+      const validAnswers =
+        Array.isArray(answers) &&
+        answers.length > 0 &&
+        new Set(answers).size === answers.length &&
+        answers.every((answer) => Number.isInteger(answer) && answer >= 0 && answer < optionCount);
+
+      if (!validAnswers) {
+        problems.push('"correctAnswers" must list one or more distinct valid option indices');
+      }
+      return problems;
+    },
+    pick: ({ options, correctAnswers }) => ({
+      options,
+      correctAnswers: [...correctAnswers].sort((a, b) => a - b),
+    }),
+  },
+
+  'fill-blank': {
+    properties: {
+      acceptedAnswers: { type: 'array', items: { type: 'string' } },
+    },
+    example: { acceptedAnswers: ['answer', 'equivalent answer'] },
+    instructions: 'a sentence with the blank written as ____ and "acceptedAnswers", every answer that fills it correctly',
+    validate(question) {
+      const problems = [];
+      if (isFilledString(question.question) && !BLANK_PATTERN.test(question.question)) {
+        problems.push('"question" must mark the blank with ____');
+      }
+      if (
+        !Array.isArray(question.acceptedAnswers) ||
+        question.acceptedAnswers.length === 0 ||
+        !question.acceptedAnswers.every(isFilledString)
+      ) {
+        problems.push('"acceptedAnswers" must be a non-empty array of non-empty strings');
+      }
+      return problems;
+    },
+    pick: ({ acceptedAnswers }) => ({ acceptedAnswers }),
+  },
+
+  numeric: {
+    properties: {
+      numericAnswer: { type: 'number' },
+      tolerance: { type: 'number' },
+      unit: { type: 'string' },
+    },
+    example: { numericAnswer: 9.81, tolerance: 0.01, unit: 'm/s^2' },
+    instructions: '"numericAnswer", the exact value, "tolerance", the largest accepted absolute error, and "unit" (empty string when unitless)',
+    validate(question) {
+      const problems = [];
+      if (!Number.isFinite(question.numericAnswer)) {
+        problems.push('"numericAnswer" must be a finite number');
+      }
+      if (!Number.isFinite(question.tolerance) || question.tolerance < 0) {
+        problems.push('"tolerance" must be a non-negative number');
+      }
+      const { unit } = question;
+      if (unit !== undefined && unit !== null && typeof unit !== 'string') {
+        problems.push('"unit" must be a string');
+      }
+      return problems;
+    },
+    pick: ({ numericAnswer, tolerance, unit }) => ({ numericAnswer, tolerance, unit: unit || '' }),
+  },
+
+  'short-answer': {
+    properties: {
+      sampleAnswer: { type: 'string' },
+    },
+    example: { sampleAnswer: 'A model answer that graders compare responses against' },
+    instructions: '"sampleAnswer", a concise model answer used to grade free-text responses',
+    validate(question) {
+      return isFilledString(question.sampleAnswer)
+        ? []
+        : ['"sampleAnswer" must be a non-empty string'];
+    },
+    pick: ({ sampleAnswer }) => ({ sampleAnswer }),
+  },
+};
+
+/** Supported question type names */
+const QUESTION_TYPE_NAMES = Object.keys(QUESTION_TYPES);
+
+/**
+ * Builds the JSON schema of a quiz restricted to the given question types
+ *
+ * With several types every answer field is present but nullable, which keeps
+ * the schema valid for strict structured-output modes.
+ * @param {string[]} types - Requested question types
+ * @returns {Object} - JSON schema of the quiz response
+ */
+function buildQuizSchema(types) {
+  const mixed = types.length > 1;
+  const answerProperties = {};
+
+  for (const type of types) {
+    for (const [name, schema] of Object.entries(QUESTION_TYPES[type].properties)) {
+      answerProperties[name] = mixed ? { ...schema, type: [schema.type, 'null'] } : schema;
+    }
+  }
+
+  if (!mixed && types[0] === 'multiple-choice') {
+    answerProperties.options = {
+      ...answerProperties.options,
+      minItems: OPTION_COUNT,
+      maxItems: OPTION_COUNT,
+    };
+    answerProperties.correctAnswer = { type: 'integer', minimum: 0, maximum: OPTION_COUNT - 1 };
+  }
+
+  const properties = {
+    type: { type: 'string', enum: types },
+    topic: { type: 'string' },
+    question: { type: 'string' },
+    ...answerProperties,
+    explanation: { type: 'string' },
+  };
+
+  return {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties,
+          required: Object.keys(properties),
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['questions'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Describes the requested question types and the response format for prompts
+ * @param {string[]} types - Requested question types
+ * @returns {string} - Format instructions
+ */
+function describeQuizFormat(types) {
+  const rules = types
+    .map((type) => `- "${type}": ${QUESTION_TYPES[type].instructions}`)
+    .join('\n');
+  const examples = types
+    .map((type) =>
+      JSON.stringify({
+        type,
+        topic: 'Concept tested',
+        question: 'Question text with LaTeX if applicable',
+        ...QUESTION_TYPES[type].example,
+        explanation: 'Explanation text with LaTeX if applicable',
+      })
+    )
+    .join(',\n    ');
+  const nulls =
+    types.length > 1 ? '\nSet answer fields that do not belong to a question\'s type to null.' : '';
+
+  return `Every question has a "type", a "topic" naming the concept it tests in a few words, a "question", a non-empty "explanation", and depending on its type:
+${rules}${nulls}
+
+Respond with a JSON object of the form:
+{
+  "questions": [
+    ${examples}
+  ]
+}`;
+}
+
+/**
+ * Validates a generated question and copies the fields of its type
+ * @param {unknown} candidate - Candidate question from the model
+ * @param {string[]} types - Question types that were requested
+ * @returns {{ question: Object | null, problems: string[] }} - Normalized question or problems
+ */
+function validateQuestion(candidate, types) {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    return { question: null, problems: ['question must be an object'] };
+  }
+
+  // Untyped questions predate mixed quizzes and are multiple choice
+  const type = candidate.type ?? 'multiple-choice';
+  if (!types.includes(type)) {
+    return { question: null, problems: [`"type" must be one of: ${types.join(', ')}`] };
+  }
+
+  const definition = QUESTION_TYPES[type];
+  const problems = [];
+
+  if (!isFilledString(candidate.topic)) {
+    problems.push('"topic" must be a non-empty string');
+  }
+  if (!isFilledString(candidate.question)) {
+    problems.push('"question" must be a non-empty string');
+  }
+  problems.push(...definition.validate(candidate));
+  if (!isFilledString(candidate.explanation)) {
+    problems.push('"explanation" must be a non-empty string');
+  }
+
+  if (problems.length) return { question: null, problems };
+
+  return {
+    question: {
+      type,
+      topic: candidate.topic.trim(),
+      question: candidate.question,
+      ...definition.pick(candidate),
+      explanation: candidate.explanation,
+    },
+    problems,
+  };
+}
+
+/**
+ * Extracts the question list from parsed model output
+ *
+ * Accepts the schema's `{ questions: [...] }` object or a bare array.
+ * @param {unknown} parsed - Parsed JSON
+ * @returns {unknown[] | null} - Candidate questions, or null when the shape is wrong
+ */
+function extractQuestions(parsed) {
+  if (Array.isArray(parsed)) return parsed;
+  if (Array.isArray(parsed?.questions)) return parsed.questions;
+  return null;
+}
+
+module.exports = {
+  QUESTION_TYPE_NAMES,
+  buildQuizSchema,
+  describeQuizFormat,
+  validateQuestion,
+  extractQuestions,
+};
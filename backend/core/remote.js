@@ -0,0 +1,304 @@
+/**
+ * Remote Document Fetching
+ *
+ * Downloads documents for URL import with limits on size, time and
+ * redirects. Addresses on private networks are refused so the server cannot
+ * be used to reach internal services. Host names are checked in the lookup
+ * of the connection itself, so a host cannot pass the check and then resolve
+ * to a private address when connecting (DNS rebinding).
+ */
+
+const dns = require('node:dns');
+const http = require('node:http');
+const https = require('node:https');
+const net = require('node:net');
+const { OperationError, validationError } = require('./errors');
+
+/** Maximum number of redirects followed */
+const MAX_REDIRECTS = 5;
+
+/** User agent sent with import requests */
+const USER_AGENT = 'PolyformImporter/1.0';
+
+/** Importable content types and the file extensions they are named with (first is preferred) */
+const IMPORTABLE_TYPES = {
+  'text/html': ['.html', '.htm'],
+  'application/xhtml+xml': ['.xhtml'],
+  'text/plain': ['.txt'],
+  'text/markdown': ['.md'],
+  'application/pdf': ['.pdf'],
+};
+
+/** Content types returned as decoded text rather than bytes */
+const TEXT_TYPES = new Set(['text/html', 'application/xhtml+xml', 'text/plain', 'text/markdown']);
+
+/**
+ * @typedef {Object} RemoteDocument
+ * @property {string} url - Final URL after redirects
+ * @property {string} name - File name derived from the URL
+ * @property {string} contentType - MIME type without parameters
+ * @property {string | Buffer} body - Decoded text, or the bytes of a PDF
+ */
+
+/**
+ * Reports whether an IP address belongs to a private, loopback, link-local or reserved range
+ * @param {string} address - IPv4 or IPv6 address
+ * @returns {boolean} - True when the address must not be fetched
+ */
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const lower = address.toLowerCase();
+  if (lower.startsWith('::ffff:')) {
+    // IPv4-mapped addresses in hex form are refused outright
+    const mapped = lower.slice('::ffff:'.length);
+    return net.isIPv4(mapped) ? isPrivateAddress(mapped) : true;
+  }
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+}
+
+/**
+ * Creates the error for a refused private address
+ * @returns {OperationError} - 403 error
+ */
+function privateAddressError() {
+  return new OperationError('Addresses on private networks cannot be imported.', 403);
+}
+
+/**
+ * Resolves a host name for a connection, refusing private addresses
+ *
+ * Used as the `lookup` of each request, so the addresses checked are the ones
+ * connected to.
+ * @param {string} hostname - Host name to resolve
+ * @param {Object} options - Lookup options from the socket
+ * @param {Function} callback - Receives the address and family, or every address when `options.all` is set
+ */
+function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) return callback(privateAddressError());
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Checks that a URL may be fetched: http(s), and a public address when the host is an IP
+ *
+ * Host names are checked by {@link publicLookup} when connecting.
+ * @param {URL} url - URL to check
+ * @throws {OperationError} - When the URL is refused
+ */
+function assertPublicUrl(url) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw validationError('"url" must be an http or https URL.');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw privateAddressError();
+  }
+}
+
+/**
+ * Sends a GET request, resolving the host through {@link publicLookup}
+ * @param {URL} url - URL to fetch
+ * @param {AbortSignal} signal - Aborts the request and its body
+ * @returns {Promise<http.IncomingMessage>} - Response with an unread body
+ * @throws {OperationError} - When the address is refused or the server cannot be reached
+ */
+function request(url, signal) {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(
+      url,
+      {
+        lookup: publicLookup,
+        signal,
+        headers: { 'User-Agent': USER_AGENT, Accept: `${Object.keys(IMPORTABLE_TYPES).join(', ')};q=0.9, */*;q=0.1` },
+      },
+      resolve
+    );
+
+    req.on('error', (error) => {
+      if (error instanceof OperationError) return reject(error);
+      if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') {
+        return reject(new OperationError(`Could not find the server ${url.hostname}.`, 502));
+      }
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Formats a byte limit for error messages
+ * @param {number} bytes - Byte count
+ * @returns {string} - Size in megabytes
+ */
+function formatMegabytes(bytes) {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+/**
+ * Finds the character encoding of a text response
+ *
+ * Uses the Content-Type charset, then a <meta> charset declaration near the
+ * start of HTML, then UTF-8.
+ * @param {string} contentTypeHeader - Raw Content-Type header
+ * @param {Buffer} bytes - Response body
+ * @returns {string} - Encoding label
+ */
+function detectCharset(contentTypeHeader, bytes) {
+  const declared = contentTypeHeader.match(/charset\s*=\s*"?([\w-]+)/i);
+  if (declared) return declared[1];
+
+  const head = bytes.subarray(0, 2048).toString('latin1');
+  const meta = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i);
+  return meta ? meta[1] : 'utf-8';
+}
+
+/**
+ * Decodes a text body
+ * @param {Buffer} bytes - Response body
+ * @param {string} charset - Encoding label
+ * @returns {string} - Decoded text
+ */
+function decodeText(bytes, charset) {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Derives a file name from a URL, adding the extension of the content type when missing
+ * @param {URL} url - Final URL
+ * @param {string} contentType - MIME type
+ * @returns {string} - File name
+ */
+function documentName(url, contentType) {
+  const extensions = IMPORTABLE_TYPES[contentType];
+  let segment = url.pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    segment = decodeURIComponent(segment);
+  } catch {
+    // Keep the encoded segment
+  }
+
+  const base = segment || url.hostname;
+  return extensions.some((extension) => base.toLowerCase().endsWith(extension))
+    ? base
+    : `${base}${extensions[0]}`;
+}
+
+/**
+ * Reads a response body, failing as soon as it exceeds the size limit
+ * @param {http.IncomingMessage} response - Response
+ * @param {number} maxBytes - Size limit
+ * @returns {Promise<Buffer>} - Body bytes
+ */
+async function readLimitedBody(response, maxBytes) {
+  const chunks = [];
+  let size = 0;
+
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw new OperationError(`The document is larger than ${formatMegabytes(maxBytes)}.`, 413);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetches a document for import
+ * @param {string} rawUrl - URL to fetch
+ * @param {{ maxBytes: number, timeoutMs: number }} limits - Size and time limits
+ * @returns {Promise<RemoteDocument>} - Fetched document
+ * @throws {OperationError} - When the URL is refused, unreachable, too large, too slow or unsupported
+ */
+async function fetchRemoteDocument(rawUrl, { maxBytes, timeoutMs }) {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const timeoutError = () =>
+    new OperationError(`The page did not respond within ${Math.round(timeoutMs / 1000)} seconds.`, 504);
+
+  let url = new URL(rawUrl);
+  let response;
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+
+    try {
+      response = await request(url, signal);
+    } catch (error) {
+      if (error instanceof OperationError) throw error;
+      throw signal.aborted ? timeoutError() : new OperationError(`Could not connect to ${url.host}.`, 502);
+    }
+
+    const { location } = response.headers;
+    if (response.statusCode < 300 || response.statusCode >= 400 || !location) break;
+
+    // Every redirect target is checked again before it is fetched
+    response.destroy();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new OperationError('The page redirected too many times.', 502);
+    }
+    url = new URL(location, url);
+  }
+
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    response.destroy();
+    throw new OperationError(`The page responded with HTTP ${response.statusCode}.`, 502);
+  }
+
+  const contentTypeHeader = response.headers['content-type'] ?? '';
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+  if (!IMPORTABLE_TYPES[contentType]) {
+    response.destroy();
+    throw new OperationError(
+      `Documents of type "${contentType || 'unknown'}" cannot be imported from a URL. Download and upload the file instead.`,
+      415
+    );
+  }
+
+  if (Number(response.headers['content-length']) > maxBytes) {
+    response.destroy();
+    throw new OperationError(`The document is larger than ${formatMegabytes(maxBytes)}.`, 413);
+  }
+
+  let bytes;
+  try {
+    bytes = await readLimitedBody(response, maxBytes);
+  } catch (error) {
+    if (error instanceof OperationError) throw error;
+    throw signal.aborted ? timeoutError() : new OperationError('The download was interrupted.', 502);
+  }
+
+  return {
+    url: url.href,
+    name: documentName(url, contentType),
+    contentType,
+    body: TEXT_TYPES.has(contentType) ? decodeText(bytes, detectCharset(contentTypeHeader, bytes)) : bytes,
+  };
+}
+
+module.exports = { fetchRemoteDocument, isPrivateAddress };
@@ -0,0 +1,34 @@
+/**
+ * Response Envelope
+ *
+ * Every endpoint responds with `{ success, data }` or `{ success, error }`.
+ */
+
+/**
+ * @template T
+ * @typedef {Object} ApiResponse
+ * @property {boolean} success - Whether the operation succeeded
+ * @property {T} [data] - Operation result on success
+ * @property {string} [error] - Error message on failure
+ */
+
+/**
+ * Creates an error response object
+ * @param {string} message - Error message
+ * @returns {ApiResponse<never>} - Error response
+ */
+function errorResponse(message) {
+  return { success: false, error: message };
+}
+
+/**
+ * Creates a success response object
+ * @template T
+ * @param {T} data - Response data
+ * @returns {ApiResponse<T>} - Success response
+ */
+function successResponse(data) {
+  return { success: true, data };
+}
+
+module.exports = { errorResponse, successResponse };
@@ -0,0 +1,125 @@
+/**
+ * Text Similarity
+ *
+ * Scores how closely pairs of texts in the same language agree, e.g. a source
+ * paragraph and the back-translation of its translation. Scores come from the
+ * cosine similarity of embeddings when the provider can embed, and otherwise
+ * from shared character trigrams, which needs no model but only rewards shared
+ * wording, so its scores run lower for the same agreement.
+ */
+
+const { embedContent } = require('../providers');
+
+/** Maximum number of texts per embedding request */
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * @typedef {'embeddings' | 'lexical'} SimilarityMethod
+ */
+
+/**
+ * @typedef {Object} SimilarityScores
+ * @property {SimilarityMethod} method - How the scores were computed
+ * @property {number[]} scores - Score of each pair from 0 to 1
+ */
+
+/**
+ * Cosine similarity of two vectors, clamped to 0..1
+ * @param {number[]} a - First vector
+ * @param {number[]} b - Second vector
+ * @returns {number} - Similarity
+ */
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? Math.max(0, dot / Math.sqrt(normA * normB)) : 0;
+}
+
+/**
+ * Counts the character trigrams of a text, ignoring case, punctuation and spacing
+ * @param {string} text - Text
+ * @returns {Map<string, number>} - Trigram counts
+ */
+function trigrams(text) {
+  const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}\p{M}]+/gu, ' ').trim()} `;
+  const counts = new Map();
+  for (let i = 0; i + 3 <= normalized.length; i++) {
+    const gram = normalized.slice(i, i + 3);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient of the character trigrams of two texts
+ * @param {string} a - First text
+ * @param {string} b - Second text
+ * @returns {number} - Similarity from 0 to 1
+ */
+function lexicalSimilarity(a, b) {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  let total = 0;
+
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) ?? 0);
+    total += count;
+  });
+  gramsB.forEach((count) => {
+    total += count;
+  });
+
+  return total ? (2 * shared) / total : 0;
+}
+
+/**
+ * Embeds texts in batches the providers accept
+ * @param {string[]} texts - Texts to embed
+ * @returns {Promise<number[][]>} - One vector per text
+ * @throws {Error} - When the provider cannot embed or returns too few vectors
+ */
+async function embedAll(texts) {
+  const vectors = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+    const embeddings = await embedContent(batch);
+    if (embeddings.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings, received ${embeddings.length}`);
+    }
+    vectors.push(...embeddings);
+  }
+  return vectors;
+}
+
+/**
+ * Scores each pair of texts, falling back to trigram overlap when embedding fails
+ * @param {string[]} left - First text of each pair
+ * @param {string[]} right - Second text of each pair
+ * @returns {Promise<SimilarityScores>} - Scores in pair order
+ */
+async function scorePairs(left, right) {
+  try {
+    const vectors = await embedAll([...left, ...right]);
+    return {
+      method: 'embeddings',
+      scores: left.map((_, index) => cosineSimilarity(vectors[index], vectors[left.length + index])),
+    };
+  } catch (error) {
+    console.warn('[Similarity] Embedding failed, using trigram overlap:', error.message);
+    return {
+      method: 'lexical',
+      scores: left.map((text, index) => lexicalSimilarity(text, right[index])),
+    };
+  }
+}
+
+module.exports = { scorePairs };
@@ -0,0 +1,88 @@
+/**
+ * Request Validation Helpers
+ */
+
+const { validationError } = require('./errors');
+
+/**
+ * Asserts that a request field is a non-empty string
+ * @param {unknown} value - Field value
+ * @param {string} field - Field name for the error message
+ * @returns {string} - The validated value
+ */
+function requireString(value, field) {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw validationError(`"${field}" must be a non-empty string.`);
+  }
+  return value;
+}
+
+/**
+ * Asserts that a request field is one of the allowed values
+ * @param {unknown} value - Field value
+ * @param {string[]} allowed - Allowed values
+ * @param {string} field - Field name for the error message
+ * @returns {string} - The validated value
+ */
+function requireOneOf(value, allowed, field) {
+  if (!allowed.includes(value)) {
+    throw validationError(`"${field}" must be one of: ${allowed.join(', ')}.`);
+  }
+  return value;
+}
+
+/**
+ * Asserts that a request field is an integer within a range
+ * @param {unknown} value - Field value
+ * @param {number} min - Minimum allowed value
+ * @param {number} max - Maximum allowed value
+ * @param {string} field - Field name for the error message
+ * @returns {number} - The validated value
+ */
+function requireInteger(value, min, max, field) {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw validationError(`"${field}" must be an integer between ${min} and ${max}.`);
+  }
+  return value;
+}
+
+/**
+ * Asserts that a request field is a non-empty list of distinct allowed values
+ * @param {unknown} value - Field value
+ * @param {string[]} allowed - Allowed values
+ * @param {string} field - Field name for the error message
+ * @returns {string[]} - The validated value
+ */
+function requireSubset(value, allowed, field) {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    new Set(value).size !== value.length ||
+    !value.every((item) => allowed.includes(item))
+  ) {
+    throw validationError(
+      `"${field}" must be a non-empty list of distinct values from: ${allowed.join(', ')}.`
+    );
+  }
+  return value;
+}
+
+/**
+ * Asserts that a request field is a list of non-empty strings
+ * @param {unknown} value - Field value
+ * @param {number} max - Maximum number of entries
+ * @param {string} field - Field name for the error message
+ * @returns {string[]} - The trimmed entries
+ */
+function requireStringList(value, max, field) {
+  if (
+    !Array.isArray(value) ||
+    value.length > max ||
+    !value.every((item) => typeof item === 'string' && item.trim())
+  ) {
+    throw validationError(`"${field}" must be a list of at most ${max} non-empty strings.`);
+  }
+  return value.map((item) => item.trim());
+}
+
+module.exports = { requireString, requireOneOf, requireInteger, requireSubset, requireStringList };
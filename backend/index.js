@@ -2,214 +2,102 @@
  * Polyform Backend Server
  *
  * Express.js server providing AI-powered content processing API endpoints.
- * Uses Google Gemini AI for translation, summarization, quiz generation, and chat.
+ * Uses the configured LLM provider for translation, summarization, quiz and flashcard generation, and chat.
+ * Request handling is shared with the serverless functions through ./core.
  */
 
 require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
-const { GoogleGenAI } = require('@google/genai');
+const { getProvider } = require('./providers');
+const {
+  operations,
+  createExpressHandler,
+  createExpressStreamHandler,
+} = require('./core');
 
 // Configuration
 const PORT = 3001;
 const JSON_LIMIT = '50mb';
 
-// Validate API key
-const geminiApiKey = process.env.GEMINI_API_KEY;
-if (!geminiApiKey) {
-  console.error('Error: GEMINI_API_KEY is not set in environment');
+// Validate provider configuration
+let provider;
+try {
+  provider = getProvider();
+} catch (error) {
+  console.error(`Error: ${error.message}`);
   process.exit(1);
 }
 
-// Initialize Gemini client
-const client = new GoogleGenAI({ apiKey: geminiApiKey });
-
 // Initialize Express app
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: JSON_LIMIT }));
 
-/**
- * Generates content using Gemini AI
- * @param {string} prompt - The prompt to send to the AI
- * @returns {Promise<string>} - The generated content
- */
-async function generateContent(prompt) {
-  const response = await client.models.generateContent({
-    model: 'gemini-2.0-flash',
-    contents: [{ role: 'user', parts: [{ text: prompt }] }],
-    config: { thinkingConfig: { thinkingBudget: -1 } },
-  });
-
-  return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-}
-
-/**
- * Creates an error response object
- * @param {string} message - Error message
- * @returns {Object} - Error response
- */
-function errorResponse(message) {
-  return { success: false, error: message };
-}
-
-/**
- * Creates a success response object
- * @param {Object} data - Response data
- * @returns {Object} - Success response
- */
-function successResponse(data) {
-  return { success: true, data };
-}
-
 // ============================================================================
 // API Endpoints
 // ============================================================================
 
 /**
  * POST /api/translate
- * Translates document content to a target language
+ * Translates document content to a target language, paragraph by paragraph
  */
-app.post('/api/translate', async (req, res) => {
-  const { documentId, content, targetLanguage } = req.body;
-  console.log(`[Translate] Document: ${documentId}, Language: ${targetLanguage}`);
-
-  try {
-    const prompt = `Translate the following content into ${targetLanguage}. Preserve any LaTeX formatting.
-
-Content:
-${content}
-
-Translated Content:`;
-
-    const translatedContent = await generateContent(prompt);
-
-    if (!translatedContent?.trim()) {
-      console.warn(`[Translate] Empty response for document: ${documentId}`);
-      return res.status(500).json(
-        errorResponse('Translation returned empty. Try different content or language.')
-      );
-    }
-
-    res.json(successResponse({ translatedContent }));
-  } catch (error) {
-    console.error('[Translate] Error:', error.message);
-    res.status(500).json(errorResponse('Failed to translate content.'));
-  }
-});
+app.post('/api/translate', createExpressHandler(operations.translate));
 
 /**
  * POST /api/summarize
- * Generates a summary of document content
+ * Generates a summary of document content in the requested style
  */
-app.post('/api/summarize', async (req, res) => {
-  const { documentId, content, length } = req.body;
-  console.log(`[Summarize] Document: ${documentId}, Length: ${length}`);
-
-  try {
-    const prompt = `Summarize the following content. The desired length is ${length}.
-
-Content:
-${content}
+app.post('/api/summarize', createExpressHandler(operations.summarize));
 
-Summary:`;
+/**
+ * POST /api/summarize/stream
+ * Streams summary progress and text as Server-Sent Events
+ */
+app.post('/api/summarize/stream', createExpressStreamHandler(operations.summarize));
 
-    const summary = await generateContent(prompt);
+/**
+ * POST /api/quiz
+ * Generates a quiz from document content, optionally focused on topics the learner missed
+ */
+app.post('/api/quiz', createExpressHandler(operations.quiz));
 
-    res.json(successResponse({ summary }));
-  } catch (error) {
-    console.error('[Summarize] Error:', error.message);
-    res.status(500).json(errorResponse('Failed to generate summary.'));
-  }
-});
+/**
+ * POST /api/quiz/grade
+ * Grades free-text quiz answers against model answers
+ */
+app.post('/api/quiz/grade', createExpressHandler(operations.grade));
 
 /**
- * POST /api/quiz
- * Generates a multiple-choice quiz from document content
+ * POST /api/flashcards
+ * Generates study flashcards from document content
  */
-app.post('/api/quiz', async (req, res) => {
-  const { documentId, content, count, difficulty } = req.body;
-  console.log(`[Quiz] Document: ${documentId}, Count: ${count}, Difficulty: ${difficulty}`);
-
-  try {
-    const prompt = `Generate a multiple-choice quiz with ${count} questions based on the following content. The difficulty should be ${difficulty}. For each question, provide 4 options, the correct answer index (0-3), and a brief explanation. Preserve any LaTeX formatting.
-
-Content:
-${content}
-
-Output format (JSON array):
-[
-  {
-    "question": "Question text with LaTeX if applicable",
-    "options": ["Option 0", "Option 1", "Option 2", "Option 3"],
-    "correctAnswer": 0,
-    "explanation": "Explanation text with LaTeX if applicable"
-  }
-]`;
-
-    const quizText = await generateContent(prompt);
-
-    // Parse JSON response
-    let quiz;
-    try {
-      let cleanText = quizText.trim();
-
-      // Remove markdown code blocks if present
-      if (cleanText.startsWith('```json')) {
-        cleanText = cleanText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanText.startsWith('```')) {
-        cleanText = cleanText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-
-      quiz = JSON.parse(cleanText);
-
-      // Add unique IDs to questions
-      quiz.forEach((q, index) => {
-        q.id = `q${index + 1}`;
-      });
-    } catch (parseError) {
-      console.error('[Quiz] Parse error:', parseError.message);
-      throw new Error('Failed to parse quiz response. Please try again.');
-    }
-
-    res.json(successResponse({ quiz: { questions: quiz } }));
-  } catch (error) {
-    console.error('[Quiz] Error:', error.message);
-    res.status(500).json(errorResponse(error.message || 'Failed to generate quiz.'));
-  }
-});
+app.post('/api/flashcards', createExpressHandler(operations.flashcards));
 
 /**
  * POST /api/chat
  * Provides AI chat responses about document content
  */
-app.post('/api/chat', async (req, res) => {
-  const { documentId, content, message } = req.body;
-  console.log(`[Chat] Document: ${documentId}, Message: "${message.substring(0, 50)}..."`);
-
-  try {
-    const prompt = `You are a helpful AI assistant that answers questions about the following document. Provide accurate, relevant responses based on the document content. If the question cannot be answered from the document, say so politely.
+app.post('/api/chat', createExpressHandler(operations.chat));
 
-Document Content:
-${content}
-
-User Question: ${message}
-
-Please provide a helpful response:`;
-
-    const botResponse = await generateContent(prompt);
+/**
+ * POST /api/chat/stream
+ * Streams AI chat responses as Server-Sent Events, with `resolved` events
+ * carrying the text so far with numbered citation markers and its citations
+ */
+app.post('/api/chat/stream', createExpressStreamHandler(operations.chat));
 
-    if (!botResponse?.trim()) {
-      console.warn(`[Chat] Empty response for document: ${documentId}`);
-      return res.status(500).json(errorResponse('Empty response. Please try again.'));
-    }
+/**
+ * POST /api/embed
+ * Embeds document passages and queries for chat retrieval
+ */
+app.post('/api/embed', createExpressHandler(operations.embed));
 
-    res.json(successResponse({ botResponse }));
-  } catch (error) {
-    console.error('[Chat] Error:', error.message);
-    res.status(500).json(errorResponse('Failed to get chat response.'));
-  }
-});
+/**
+ * POST /api/import
+ * Downloads a web page or PDF within size and time limits and extracts its text
+ */
+app.post('/api/import', createExpressHandler(operations.importUrl));
 
 // ============================================================================
 // Server Startup
@@ -217,4 +105,5 @@ Please provide a helpful response:`;
 
 app.listen(PORT, () => {
   console.log(`Polyform backend running on http://localhost:${PORT}`);
+  console.log(`LLM provider: ${provider.name} (${provider.model})`);
 });
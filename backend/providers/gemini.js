@@ -0,0 +1,138 @@
+/**
+ * Gemini Provider
+ *
+ * Generates content with Google Gemini through the @google/genai SDK.
+ */
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+/** JSON schema keywords understood by Gemini response schemas */
+const GEMINI_SCHEMA_KEYS = [
+  'description',
+  'enum',
+  'items',
+  'maxItems',
+  'maximum',
+  'minItems',
+  'minimum',
+  'properties',
+  'required',
+];
+
+/**
+ * Converts a JSON schema to Gemini's response schema dialect
+ *
+ * Gemini uses upper-case type names, marks optional values with `nullable`
+ * instead of a "null" type, and rejects keywords such as additionalProperties.
+ * @param {Object} schema - JSON schema
+ * @returns {Object} - Gemini response schema
+ */
+function toGeminiSchema(schema) {
+  const types = [].concat(schema.type);
+  const converted = { type: types.find((type) => type !== 'null').toUpperCase() };
+  if (types.includes('null')) converted.nullable = true;
+
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    if (schema[key] === undefined) continue;
+
+    if (key === 'items') {
+      converted.items = toGeminiSchema(schema.items);
+    } else if (key === 'properties') {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, value]) => [name, toGeminiSchema(value)])
+      );
+    } else {
+      converted[key] = schema[key];
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Creates a Gemini provider
+ * @param {Object} options - Provider options
+ * @param {string} options.apiKey - Gemini API key
+ * @param {string} [options.model] - Model name
+ * @param {string} [options.embeddingModel] - Embedding model name
+ * @returns {Object} - Provider with generateContent, streamContent and embedContent methods
+ */
+function createGeminiProvider({
+  apiKey,
+  model = DEFAULT_MODEL,
+  embeddingModel = DEFAULT_EMBEDDING_MODEL,
+}) {
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set in environment');
+  }
+
+  // Required lazily so other providers work without the SDK installed
+  const { GoogleGenAI } = require('@google/genai');
+  const client = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    model,
+
+    /**
+     * Generates content using Gemini AI
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {Object} [options.responseSchema] - JSON schema the output must follow
+     * @returns {Promise<string>} - The generated content
+     */
+    async generateContent(prompt, { responseSchema } = {}) {
+      const response = await client.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        config: {
+          thinkingConfig: { thinkingBudget: -1 },
+          ...(responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema),
+          }),
+        },
+      });
+
+      return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    },
+
+    /**
+     * Streams content using Gemini AI
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {AbortSignal} [options.signal] - Stops reading when aborted
+     * @returns {AsyncGenerator<string>} - Text deltas
+     */
+    async *streamContent(prompt, { signal } = {}) {
+      const stream = await client.models.generateContentStream({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        config: { thinkingConfig: { thinkingBudget: -1 } },
+      });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      }
+    },
+
+    /**
+     * Embeds texts using the Gemini embedding model
+     * @param {string[]} texts - Texts to embed
+     * @returns {Promise<number[][]>} - One vector per text
+     */
+    async embedContent(texts) {
+      const response = await client.models.embedContent({
+        model: embeddingModel,
+        contents: texts,
+      });
+
+      return (response.embeddings || []).map((embedding) => embedding.values || []);
+    },
+  };
+}
+
+module.exports = { createGeminiProvider };
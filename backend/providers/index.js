@@ -0,0 +1,131 @@
+/**
+ * LLM Provider Registry
+ *
+ * Selects the content generation backend from environment configuration so
+ * routes never depend on a specific model vendor.
+ *
+ * Environment:
+ *   LLM_PROVIDER     gemini (default) | openai | ollama | mock
+ *   LLM_MODEL        Model name override for the selected provider
+ *   EMBEDDING_MODEL  Embedding model override for the selected provider
+ *   GEMINI_API_KEY   Required for gemini
+ *   OPENAI_API_KEY   Bearer token for openai (optional for local servers)
+ *   OPENAI_BASE_URL  Base URL for openai-compatible servers
+ *   OLLAMA_BASE_URL  Base URL for the ollama server
+ *   MOCK_FIXTURES    JSON file of task → response overrides for mock
+ */
+
+const { createGeminiProvider } = require('./gemini');
+const { createOpenAIProvider } = require('./openai');
+const { createOllamaProvider } = require('./ollama');
+const { createMockProvider } = require('./mock');
+
+/**
+ * Provider factories keyed by name
+ */
+const PROVIDERS = {
+  gemini: (env) =>
+    createGeminiProvider({
+      apiKey: env.GEMINI_API_KEY,
+      model: env.LLM_MODEL,
+      embeddingModel: env.EMBEDDING_MODEL,
+    }),
+  openai: (env) =>
+    createOpenAIProvider({
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.OPENAI_BASE_URL,
+      model: env.LLM_MODEL,
+      embeddingModel: env.EMBEDDING_MODEL,
+    }),
+  ollama: (env) =>
+    createOllamaProvider({
+      baseUrl: env.OLLAMA_BASE_URL,
+      model: env.LLM_MODEL,
+      embeddingModel: env.EMBEDDING_MODEL,
+    }),
+  mock: (env) => createMockProvider({ fixturesPath: env.MOCK_FIXTURES }),
+};
+
+let cachedProvider = null;
+
+/**
+ * Creates a provider from configuration
+ * @param {Object} [env] - Environment variables (defaults to process.env)
+ * @returns {Object} - Provider with a generateContent method
+ */
+function createProvider(env = process.env) {
+  const name = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const factory = PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`
+    );
+  }
+
+  // Drop empty strings so factory defaults apply
+  const cleanEnv = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ''));
+  return factory(cleanEnv);
+}
+
+/**
+ * Returns the process-wide provider, creating it on first use
+ * @returns {Object} - Provider with a generateContent method
+ */
+function getProvider() {
+  if (!cachedProvider) {
+    cachedProvider = createProvider();
+  }
+  return cachedProvider;
+}
+
+/**
+ * Generates content with the configured provider
+ * @param {string} prompt - The prompt to send to the AI
+ * @param {Object} [options] - Generation options
+ * @param {string} [options.task] - Operation name (translate, summarize, quiz, chat)
+ * @param {Object} [options.responseSchema] - JSON schema the output must follow, for
+ *   providers that support structured output
+ * @returns {Promise<string>} - The generated content
+ */
+function generateContent(prompt, options = {}) {
+  return getProvider().generateContent(prompt, options);
+}
+
+/**
+ * Streams content with the configured provider
+ *
+ * Providers without native streaming yield the full response as one delta.
+ * @param {string} prompt - The prompt to send to the AI
+ * @param {Object} [options] - Generation options
+ * @param {string} [options.task] - Operation name (translate, summarize, quiz, chat)
+ * @param {AbortSignal} [options.signal] - Stops generation when aborted
+ * @returns {AsyncGenerator<string>} - Text deltas
+ */
+async function* streamContent(prompt, options = {}) {
+  const provider = getProvider();
+
+  if (typeof provider.streamContent === 'function') {
+    yield* provider.streamContent(prompt, options);
+    return;
+  }
+
+  yield await provider.generateContent(prompt, options);
+}
+
+/**
+ * Embeds texts with the configured provider
+ * @param {string[]} texts - Texts to embed
+ * @returns {Promise<number[][]>} - One vector per text, in input order
+ */
+function embedContent(texts) {
+  const provider = getProvider();
+
+  if (typeof provider.embedContent !== 'function') {
+    throw new Error(`LLM provider "${provider.name}" does not support embeddings`);
+  }
+
+  return provider.embedContent(texts);
+}
+
+module.exports = { createProvider, getProvider, generateContent, streamContent, embedContent };
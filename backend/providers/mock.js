@@ -0,0 +1,206 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline provider used for local development and tests.
+ * Responses come from a fixture file when one is configured, otherwise from
+ * built-in generators that produce well-formed output for every task.
+ */
+
+const fs = require('fs');
+
+/** Dimension of mock embedding vectors */
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Builds a well-formed mock question of the given type
+ * @param {string} type - Question type
+ * @param {number} index - Zero-based question index
+ * @param {string[]} topics - Topics to assign in turn
+ * @returns {Object} - Question in the quiz schema
+ */
+function mockQuestion(type, index, topics) {
+  const n = index + 1;
+  const answers = {
+    'multiple-choice': {
+      question: `Mock question ${n}: what is $${n} + 1$?`,
+      options: [`$${n - 1}$`, `$${n}$`, `$${n + 1}$`, `$${n + 2}$`],
+      correctAnswer: 2,
+    },
+    'true-false': { question: `Mock question ${n}: $${n} + 1 = ${n + 1}$.`, isTrue: true },
+    'multi-select': {
+      question: `Mock question ${n}: which values are greater than $${n}$?`,
+      options: [`$${n - 1}$`, `$${n + 1}$`, `$${n}$`, `$${n + 2}$`],
+      correctAnswers: [1, 3],
+    },
+    'fill-blank': {
+      question: `Mock question ${n}: $${n} + 1$ equals ____.`,
+      acceptedAnswers: [String(n + 1)],
+    },
+    numeric: {
+      question: `Mock question ${n}: what is $${n} / 3$?`,
+      numericAnswer: Number((n / 3).toFixed(4)),
+      tolerance: 0.01,
+      unit: '',
+    },
+    'short-answer': {
+      question: `Mock question ${n}: why is $${n} + 1$ greater than $${n}$?`,
+      sampleAnswer: 'Adding a positive number increases the value.',
+    },
+  };
+
+  return {
+    type,
+    topic: topics[index % topics.length],
+    ...(answers[type] ?? answers['multiple-choice']),
+    explanation: `Mock explanation for question ${n}.`,
+  };
+}
+
+/**
+ * Built-in response generators keyed by task
+ */
+const DEFAULT_FIXTURES = {
+  translate: (prompt) => {
+    const translation = 'This is a mock translation. Inline math such as $E = mc^2$ is preserved.';
+    if (!prompt.startsWith('Translate each numbered segment')) return translation;
+
+    // Batch prompts number their segments on lines such as "[1]"
+    const entries = prompt.split('\nRespond with a JSON object')[0];
+    const ids = new Set([...entries.matchAll(/^\[(\d+)\]$/gm)].map(([, id]) => id));
+    const segments = [...ids].map((id) => ({ id, translation: `${translation} (segment ${id})` }));
+    return JSON.stringify({ segments }, null, 2);
+  },
+
+  summarize: () =>
+    '## Mock Summary\n\n- The document introduces its main topic.\n- Key formula: $a^2 + b^2 = c^2$.',
+
+  quiz: (prompt) => {
+    // Prompts list the wanted counts per type, e.g. "Question types: 2 multiple-choice, 1 numeric"
+    const line = prompt.match(/^Question types: (.+)$/m)?.[1] ?? '3 multiple-choice';
+    const types = [...line.matchAll(/(\d+) ([a-z-]+)/g)].flatMap(([, count, type]) =>
+      Array(Number(count)).fill(type)
+    );
+    // Weak-topic quizzes list their topics, e.g. "Focus topics: Limits; Derivatives"
+    const focus = prompt.match(/^Focus topics: (.+)$/m)?.[1];
+    const topics = focus ? focus.split('; ') : ['Mock topic A', 'Mock topic B'];
+    const questions = types.map((type, index) => mockQuestion(type, index, topics));
+    return JSON.stringify({ questions }, null, 2);
+  },
+
+  flashcards: (prompt) => {
+    const count = Number(prompt.match(/^Create (\d+) flashcards/m)?.[1] ?? 3);
+    const cards = Array.from({ length: count }, (_, index) => ({
+      front: `Mock card ${index + 1}: what is $${index + 1} + 1$?`,
+      back: `$${index + 2}$`,
+    }));
+    return JSON.stringify({ cards }, null, 2);
+  },
+
+  grade: (prompt) => {
+    const grades = [...prompt.matchAll(/^ID: (.+)$/gm)].map(([, id]) => ({
+      id,
+      correct: true,
+      feedback: 'Mock grading accepts every answer.',
+    }));
+    return JSON.stringify({ grades });
+  },
+
+  chat: (prompt) => {
+    // Cite the first passage in the prompt, which may not be P1 after retrieval
+    const documents = prompt.slice(Math.max(prompt.indexOf('\nDocuments:'), 0));
+    const label = documents.match(/\[(D\d+:P\d+)\]/)?.[1] ?? 'D1:P1';
+    return `This is a mock answer based on the provided documents [${label}].`;
+  },
+};
+
+/**
+ * Embeds text as a hashed bag of words
+ *
+ * Texts sharing words get similar vectors, which is enough to exercise
+ * retrieval offline.
+ * @param {string} text - Text to embed
+ * @returns {number[]} - Unit-length vector
+ */
+function hashEmbedding(text) {
+  const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.codePointAt(0)) >>> 0;
+    }
+    vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * Loads fixture overrides from a JSON file mapping task names to responses
+ * @param {string} [fixturesPath] - Path to the fixture file
+ * @returns {Object} - Task to response string map
+ */
+function loadFixtures(fixturesPath) {
+  if (!fixturesPath) return {};
+  return JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+}
+
+/**
+ * Creates a mock provider
+ * @param {Object} options - Provider options
+ * @param {string} [options.fixturesPath] - Optional JSON fixture file
+ * @returns {Object} - Provider with generateContent, streamContent and embedContent methods
+ */
+function createMockProvider({ fixturesPath } = {}) {
+  const fixtures = loadFixtures(fixturesPath);
+
+  return {
+    name: 'mock',
+    model: 'mock',
+
+    /**
+     * Returns the fixture response for the task
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {string} [options.task] - Operation the prompt belongs to
+     * @returns {Promise<string>} - The generated content
+     */
+    async generateContent(prompt, { task } = {}) {
+      if (task && typeof fixtures[task] === 'string') {
+        return fixtures[task];
+      }
+
+      const generator = DEFAULT_FIXTURES[task] || DEFAULT_FIXTURES.chat;
+      return generator(prompt);
+    },
+
+    /**
+     * Streams the fixture response word by word
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {string} [options.task] - Operation the prompt belongs to
+     * @param {AbortSignal} [options.signal] - Stops streaming when aborted
+     * @returns {AsyncGenerator<string>} - Text deltas
+     */
+    async *streamContent(prompt, { task, signal } = {}) {
+      const text = await this.generateContent(prompt, { task });
+
+      for (const delta of text.match(/\S+\s*/g) || []) {
+        if (signal?.aborted) return;
+        yield delta;
+      }
+    },
+
+    /**
+     * Embeds texts as hashed bags of words
+     * @param {string[]} texts - Texts to embed
+     * @returns {Promise<number[][]>} - One vector per text
+     */
+    async embedContent(texts) {
+      return texts.map(hashEmbedding);
+    },
+  };
+}
+
+module.exports = { createMockProvider };
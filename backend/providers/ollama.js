@@ -0,0 +1,110 @@
+/**
+ * Ollama Provider
+ *
+ * Generates content with a locally hosted model through an
+ * Ollama-style /api/generate endpoint.
+ */
+
+const { readLines } = require('./stream');
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3.1';
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * Creates an Ollama provider
+ * @param {Object} options - Provider options
+ * @param {string} [options.baseUrl] - Ollama server URL
+ * @param {string} [options.model] - Model name
+ * @param {string} [options.embeddingModel] - Embedding model name
+ * @returns {Object} - Provider with generateContent, streamContent and embedContent methods
+ */
+function createOllamaProvider({
+  baseUrl = DEFAULT_BASE_URL,
+  model = DEFAULT_MODEL,
+  embeddingModel = DEFAULT_EMBEDDING_MODEL,
+}) {
+  const serverUrl = baseUrl.replace(/\/+$/, '');
+  const endpoint = `${serverUrl}/api/generate`;
+
+  return {
+    name: 'ollama',
+    model,
+
+    /**
+     * Generates content using the local model
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {Object} [options.responseSchema] - JSON schema the output must follow
+     * @returns {Promise<string>} - The generated content
+     */
+    async generateContent(prompt, { responseSchema } = {}) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          prompt,
+          stream: false,
+          ...(responseSchema && { format: responseSchema }),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama request failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.response || '';
+    },
+
+    /**
+     * Streams content from the local model
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {AbortSignal} [options.signal] - Aborts the request
+     * @returns {AsyncGenerator<string>} - Text deltas
+     */
+    async *streamContent(prompt, { signal } = {}) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, prompt, stream: true }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama request failed with HTTP ${response.status}`);
+      }
+
+      // Ollama streams newline-delimited JSON objects
+      for await (const line of readLines(response.body)) {
+        const data = JSON.parse(line);
+        if (data.response) yield data.response;
+        if (data.done) return;
+      }
+    },
+
+    /**
+     * Embeds texts using the local embedding model
+     * @param {string[]} texts - Texts to embed
+     * @returns {Promise<number[][]>} - One vector per text
+     */
+    async embedContent(texts) {
+      const response = await fetch(`${serverUrl}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: embeddingModel, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama embedding request failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.embeddings || [];
+    },
+  };
+}
+
+module.exports = { createOllamaProvider };
@@ -0,0 +1,141 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Generates content through any HTTP endpoint implementing the
+ * OpenAI chat completions API (OpenAI, Azure proxies, vLLM, LM Studio, ...).
+ */
+
+const { readLines } = require('./stream');
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * Creates an OpenAI-compatible provider
+ * @param {Object} options - Provider options
+ * @param {string} [options.apiKey] - Bearer token, optional for local servers
+ * @param {string} [options.baseUrl] - API base URL including the version segment
+ * @param {string} [options.model] - Model name
+ * @param {string} [options.embeddingModel] - Embedding model name
+ * @returns {Object} - Provider with generateContent, streamContent and embedContent methods
+ */
+function createOpenAIProvider({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+  model = DEFAULT_MODEL,
+  embeddingModel = DEFAULT_EMBEDDING_MODEL,
+}) {
+  const apiUrl = baseUrl.replace(/\/+$/, '');
+  const endpoint = `${apiUrl}/chat/completions`;
+
+  /**
+   * Builds request headers
+   * @returns {Object} - HTTP headers
+   */
+  function buildHeaders() {
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Sends a chat completions request
+   * @param {string} prompt - The prompt to send to the AI
+   * @param {Object} [extra] - Additional request body fields
+   * @param {AbortSignal} [signal] - Aborts the request
+   * @returns {Promise<Response>} - Successful HTTP response
+   */
+  async function request(prompt, extra = {}, signal) {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: buildHeaders(),
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...extra,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed with HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  return {
+    name: 'openai',
+    model,
+
+    /**
+     * Generates content using the chat completions endpoint
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {string} [options.task] - Operation name, used to name the schema
+     * @param {Object} [options.responseSchema] - JSON schema the output must follow
+     * @returns {Promise<string>} - The generated content
+     */
+    async generateContent(prompt, { task, responseSchema } = {}) {
+      const extra = responseSchema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: task || 'response', schema: responseSchema, strict: true },
+            },
+          }
+        : {};
+      const response = await request(prompt, extra);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    /**
+     * Streams content from the chat completions endpoint
+     * @param {string} prompt - The prompt to send to the AI
+     * @param {Object} [options] - Generation options
+     * @param {AbortSignal} [options.signal] - Aborts the request
+     * @returns {AsyncGenerator<string>} - Text deltas
+     */
+    async *streamContent(prompt, { signal } = {}) {
+      const response = await request(prompt, { stream: true }, signal);
+
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+
+    /**
+     * Embeds texts using the embeddings endpoint
+     * @param {string[]} texts - Texts to embed
+     * @returns {Promise<number[][]>} - One vector per text
+     */
+    async embedContent(texts) {
+      const response = await fetch(`${apiUrl}/embeddings`, {
+        method: 'POST',
+        headers: buildHeaders(),
+        body: JSON.stringify({ model: embeddingModel, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible embedding request failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      return [...(data.data || [])]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+module.exports = { createOpenAIProvider };
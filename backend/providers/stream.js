@@ -0,0 +1,31 @@
+/**
+ * Streaming Helpers
+ *
+ * Utilities shared by providers that read incremental HTTP responses.
+ */
+
+/**
+ * Reads a fetch response body line by line
+ * @param {ReadableStream<Uint8Array>} body - Response body
+ * @returns {AsyncGenerator<string>} - Non-empty lines
+ */
+async function* readLines(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newlineIndex;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) yield line;
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) yield rest;
+}
+
+module.exports = { readLines };
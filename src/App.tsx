@@ -2,7 +2,8 @@
  * Polyform Application
  *
  * Main application component that orchestrates the AI-powered content processing suite.
- * Manages document state, processing results, and theme preferences.
+ * Manages document state, processing results, and theme preferences. Documents and
+ * results are saved to IndexedDB and restored on load.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -15,17 +16,26 @@ import {
   Download,
   Sun,
   Moon,
+  HardDrive,
+  Loader,
+  Layers,
 } from 'lucide-react';
 
 import ContentInput from './components/ContentInput';
 import TranslationPanel from './components/TranslationPanel';
 import SummaryPanel from './components/SummaryPanel';
 import QuizPanel from './components/QuizPanel';
+import FlashcardPanel from './components/FlashcardPanel';
 import ChatPanel from './components/ChatPanel';
 import ResultsManager from './components/ResultsManager';
+import WorkspaceStorage from './components/WorkspaceStorage';
+import { indexDocuments, loadRetrievalBackend } from './utils/retrieval';
+import { getAllRecords, replaceRecords, clearWorkspace } from './utils/workspaceDb';
+import { PageSpan } from './utils/pdfLayout';
+import { detectLanguage } from './utils/languages';
 
 /** Available navigation tabs */
-type Tab = 'input' | 'translate' | 'summarize' | 'quiz' | 'chat' | 'results';
+type Tab = 'input' | 'translate' | 'summarize' | 'quiz' | 'flashcards' | 'chat' | 'results';
 
 /** Document data structure */
 interface Document {
@@ -33,6 +43,10 @@ interface Document {
   name: string;
   content: string;
   type: string;
+  /** Character range of each page, for PDFs */
+  pages?: PageSpan[];
+  /** Detected or chosen language of the content, as a BCP-47 tag */
+  language?: string;
 }
 
 /** Processing result data structure */
@@ -57,6 +71,7 @@ const TABS: TabConfig[] = [
   { id: 'translate', label: 'Translate', icon: Languages },
   { id: 'summarize', label: 'Summarize', icon: BookOpen },
   { id: 'quiz', label: 'Quiz Generator', icon: FileText },
+  { id: 'flashcards', label: 'Flashcards', icon: Layers },
   { id: 'chat', label: 'Chat with Docs', icon: MessageCircle },
   { id: 'results', label: 'Results', icon: Download },
 ];
@@ -68,6 +83,9 @@ function App(): React.ReactElement {
   const [activeTab, setActiveTab] = useState<Tab>('input');
   const [documents, setDocuments] = useState<Document[]>([]);
   const [results, setResults] = useState<Result[]>([]);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [showStorage, setShowStorage] = useState(false);
+  const [workspaceKey, setWorkspaceKey] = useState(0);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(() => {
     return localStorage.getItem('theme') === 'dark';
   });
@@ -78,18 +96,73 @@ function App(): React.ReactElement {
     localStorage.setItem('theme', isDarkMode ? 'dark' : 'light');
   }, [isDarkMode]);
 
+  // Restore the saved workspace
+  useEffect(() => {
+    Promise.all([getAllRecords<Document>('documents'), getAllRecords<Result>('results')])
+      .then(([savedDocuments, savedResults]) => {
+        // Documents saved before language detection get their language now
+        setDocuments(
+          savedDocuments.map((doc) => (doc.language ? doc : { ...doc, language: detectLanguage(doc.content) }))
+        );
+        setResults(savedResults.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+      })
+      .catch((error) => console.warn('Failed to restore workspace:', error))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  // Save documents and results once the saved workspace has been restored
+  useEffect(() => {
+    if (isRestoring) return;
+    replaceRecords('documents', documents).catch((error) =>
+      console.warn('Failed to save documents:', error)
+    );
+  }, [documents, isRestoring]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    replaceRecords('results', results).catch((error) =>
+      console.warn('Failed to save results:', error)
+    );
+  }, [results, isRestoring]);
+
+  // Index uploaded documents for chat retrieval
+  useEffect(() => {
+    indexDocuments(documents, loadRetrievalBackend());
+  }, [documents]);
+
   /**
    * Adds a new processing result to the results list
+   * @returns ID of the new result
    */
-  const addResult = (type: string, title: string, content: unknown): void => {
+  const addResult = (type: string, title: string, content: unknown): string => {
     const newResult: Result = {
-      id: Date.now().toString(),
+      // Batches add several results within the same millisecond
+      id: Date.now().toString() + Math.random().toString(36).slice(2, 9),
       type,
       title,
       content,
       timestamp: new Date(),
     };
     setResults((prev) => [newResult, ...prev]);
+    return newResult.id;
+  };
+
+  /**
+   * Replaces the content of a saved result, e.g. after part of it is redone
+   */
+  const updateResult = (id: string, content: unknown): void => {
+    setResults((prev) => prev.map((result) => (result.id === id ? { ...result, content } : result)));
+  };
+
+  /**
+   * Deletes the saved workspace and resets every panel
+   */
+  const handleClearWorkspace = async (): Promise<void> => {
+    await clearWorkspace();
+    setDocuments([]);
+    setResults([]);
+    // Remount panels so their local state starts fresh
+    setWorkspaceKey((prev) => prev + 1);
   };
 
   /**
@@ -100,11 +173,13 @@ function App(): React.ReactElement {
       case 'input':
         return <ContentInput documents={documents} setDocuments={setDocuments} />;
       case 'translate':
-        return <TranslationPanel documents={documents} onResult={addResult} />;
+        return <TranslationPanel documents={documents} onResult={addResult} onUpdateResult={updateResult} />;
       case 'summarize':
-        return <SummaryPanel documents={documents} onResult={addResult} />;
+        return <SummaryPanel documents={documents} onResult={addResult} onUpdateResult={updateResult} />;
       case 'quiz':
-        return <QuizPanel documents={documents} onResult={addResult} />;
+        return <QuizPanel documents={documents} onResult={addResult} onUpdateResult={updateResult} />;
+      case 'flashcards':
+        return <FlashcardPanel documents={documents} />;
       case 'chat':
         return <ChatPanel documents={documents} />;
       case 'results':
@@ -135,6 +210,14 @@ function App(): React.ReactElement {
 
             {/* Controls */}
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setShowStorage(true)}
+                className="p-2 rounded-full text-gray-500 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-surface transition-colors"
+                aria-label="Workspace storage"
+              >
+                <HardDrive className="h-5 w-5" />
+              </button>
+
               <button
                 onClick={() => setIsDarkMode((prev) => !prev)}
                 className="p-2 rounded-full text-gray-500 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-surface transition-colors"
@@ -188,10 +271,25 @@ function App(): React.ReactElement {
         </nav>
 
         {/* Content Panel */}
-        <div className="bg-white dark:bg-black rounded-xl shadow-sm border-2 border-gray-200 dark:border-white dark:shadow-2xl dark:shadow-white/10 p-1">
-          {renderActivePanel()}
+        <div
+          key={workspaceKey}
+          className="bg-white dark:bg-black rounded-xl shadow-sm border-2 border-gray-200 dark:border-white dark:shadow-2xl dark:shadow-white/10 p-1"
+        >
+          {isRestoring ? (
+            <div className="p-8 flex items-center justify-center space-x-2 text-gray-500 dark:text-dark-text-secondary">
+              <Loader className="h-5 w-5 animate-spin" />
+              <span>Restoring workspace...</span>
+            </div>
+          ) : (
+            renderActivePanel()
+          )}
         </div>
       </div>
+
+      {/* Storage Dialog */}
+      {showStorage && (
+        <WorkspaceStorage onClose={() => setShowStorage(false)} onClear={handleClearWorkspace} />
+      )}
     </div>
   );
 }
@@ -2,9 +2,11 @@
  * API Client Module
  *
  * Handles all communication with the backend API endpoints.
- * Provides type-safe wrappers for translation, summarization, quiz, and chat operations.
+ * Provides type-safe wrappers for translation, summarization, quiz, flashcard, and chat operations.
  */
 
+import { PageSpan } from './utils/pdfLayout';
+
 /** Base URL for API requests - uses environment variable or falls back to current origin */
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
@@ -20,29 +22,213 @@ interface ApiResponse<T> {
 /** Translation response data */
 interface TranslationData {
   translatedContent: string;
+  /** Source and translation of each paragraph, in document order */
+  segments: TranslatedSegment[];
+}
+
+/** A source paragraph and its translation */
+export interface TranslatedSegment {
+  source: string;
+  translation: string;
+  /** Back-translation check, when requested */
+  quality?: SegmentQuality;
+}
+
+/** How a translated paragraph compares with its source after translating it back */
+export interface SegmentQuality {
+  /** The translation translated back into the source language */
+  backTranslation: string;
+  /** Similarity of the back-translation to the source, from 0 to 1 */
+  score: number;
+  /** embeddings: semantic similarity; lexical: shared wording, used when the provider cannot embed */
+  method: 'embeddings' | 'lexical';
 }
 
+/** Required translation of a term in one target language */
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+/** Length of prose summaries, outlines and takeaways */
+export type SummaryLength = 'short' | 'medium' | 'detailed';
+
+/** Shape of a summary; each style is Markdown in its own fixed layout */
+export type SummaryStyle = 'prose' | 'outline' | 'takeaways' | 'glossary' | 'formulas' | 'tldr';
+
 /** Summarization response data */
 interface SummaryData {
   summary: string;
+  /** Number of chunks long content was split into */
+  chunkCount: number;
+}
+
+/** Progress of a chunked summarization */
+export interface SummaryProgress {
+  /** map: summarizing chunks, reduce: condensing partial summaries, combine: writing the final summary */
+  stage: 'map' | 'reduce' | 'combine';
+  completed: number;
+  total: number;
+}
+
+/** Supported quiz question types */
+export type QuestionType =
+  | 'multiple-choice'
+  | 'true-false'
+  | 'multi-select'
+  | 'fill-blank'
+  | 'numeric'
+  | 'short-answer';
+
+/** Fields shared by every quiz question */
+interface QuestionBase {
+  id: string;
+  /** Concept the question tests; absent on quizzes saved before topics */
+  topic?: string;
+  question: string;
+  explanation: string;
+}
+
+/** Single-answer multiple choice; `type` is absent on quizzes saved before mixed types */
+export interface MultipleChoiceQuestion extends QuestionBase {
+  type?: 'multiple-choice';
+  options: string[];
+  correctAnswer: number;
+}
+
+/** Statement judged true or false */
+export interface TrueFalseQuestion extends QuestionBase {
+  type: 'true-false';
+  isTrue: boolean;
+}
+
+/** Multiple choice with one or more correct options */
+export interface MultiSelectQuestion extends QuestionBase {
+  type: 'multi-select';
+  options: string[];
+  correctAnswers: number[];
+}
+
+/** Sentence with a ____ blank to fill in */
+export interface FillBlankQuestion extends QuestionBase {
+  type: 'fill-blank';
+  acceptedAnswers: string[];
+}
+
+/** Numeric answer accepted within an absolute tolerance */
+export interface NumericQuestion extends QuestionBase {
+  type: 'numeric';
+  numericAnswer: number;
+  tolerance: number;
+  /** Unit of the answer, empty when unitless */
+  unit: string;
+}
+
+/** Free-text answer graded by the model against a sample answer */
+export interface ShortAnswerQuestion extends QuestionBase {
+  type: 'short-answer';
+  sampleAnswer: string;
 }
 
+/** A generated quiz question */
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | NumericQuestion
+  | ShortAnswerQuestion;
+
 /** Quiz response data */
 interface QuizData {
   quiz: {
-    questions: Array<{
-      id: string;
-      question: string;
-      options: string[];
-      correctAnswer: number;
-      explanation: string;
-    }>;
+    questions: QuizQuestion[];
   };
 }
 
+/** A free-text answer to grade */
+export interface GradeItem {
+  id: string;
+  question: string;
+  sampleAnswer: string;
+  answer: string;
+}
+
+/** Grading response data */
+interface GradeData {
+  grades: Array<{ id: string; correct: boolean; feedback: string }>;
+}
+
+/** A generated flashcard */
+export interface Flashcard {
+  /** Question or cue, Markdown with LaTeX */
+  front: string;
+  /** Answer, Markdown with LaTeX */
+  back: string;
+}
+
+/** Flashcard generation response data */
+interface FlashcardsData {
+  cards: Flashcard[];
+}
+
+/** A prior message in a chat conversation */
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** A citable passage sent as chat context */
+export interface ChatPassage {
+  /** Zero-based position of the passage in its document */
+  index: number;
+  text: string;
+}
+
+/** A document sent as chat context, reduced to the passages relevant to the question */
+export interface ChatDocument {
+  id: string;
+  name: string;
+  passages: ChatPassage[];
+}
+
+/** A passage cited in a chat response */
+export interface Citation {
+  /** Footnote number used in the response text, e.g. [1] */
+  marker: number;
+  documentId: string;
+  documentName: string;
+  /** Zero-based index into the document's passages */
+  passageIndex: number;
+  excerpt: string;
+}
+
 /** Chat response data */
 interface ChatData {
   botResponse: string;
+  citations: Citation[];
+}
+
+/** Embedding response data */
+interface EmbedData {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+}
+
+/** Extracted document from a URL import */
+interface ImportData {
+  /** Final URL after redirects */
+  url: string;
+  /** File name derived from the URL */
+  name: string;
+  /** Markdown-style text */
+  content: string;
+  /** MIME type of the document */
+  type: string;
+  /** Page or document title */
+  title?: string;
+  /** Character range of each page, for PDFs */
+  pages?: PageSpan[];
 }
 
 /**
@@ -72,7 +258,7 @@ async function callApi<T>(
       const errorData = await response.json();
       return {
         success: false,
-        error: errorData.message || `HTTP error: ${response.status}`,
+        error: errorData.error || `HTTP error: ${response.status}`,
       };
     }
 
@@ -87,17 +273,53 @@ async function callApi<T>(
  * Translates document content to the specified language
  * @param documentId - Unique document identifier
  * @param content - Content to translate
- * @param targetLanguage - Target language code
+ * @param targetLanguage - Target language as a BCP-47 tag
+ * @param glossary - Required term translations for the target language
+ * @param sourceLanguage - Language of the content as a BCP-47 tag; detected by the model when omitted
+ * @param backTranslate - Translate the result back and score each paragraph; needs the source language
  */
 export function translateContent(
   documentId: string,
   content: string,
-  targetLanguage: string
+  targetLanguage: string,
+  glossary: GlossaryEntry[] = [],
+  sourceLanguage?: string,
+  backTranslate = false
 ): Promise<ApiResponse<TranslationData>> {
   return callApi<TranslationData>('/translate', 'POST', {
     documentId,
     content,
+    sourceLanguage,
     targetLanguage,
+    glossary,
+    backTranslate,
+  });
+}
+
+/**
+ * Translates a single paragraph again, e.g. to replace one segment of an aligned translation
+ * @param documentId - Unique document identifier
+ * @param segment - Source paragraph
+ * @param targetLanguage - Target language as a BCP-47 tag
+ * @param glossary - Required term translations for the target language
+ * @param sourceLanguage - Language of the paragraph as a BCP-47 tag; detected by the model when omitted
+ * @param backTranslate - Translate the result back and score it; needs the source language
+ */
+export function translateSegment(
+  documentId: string,
+  segment: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[] = [],
+  sourceLanguage?: string,
+  backTranslate = false
+): Promise<ApiResponse<TranslationData>> {
+  return callApi<TranslationData>('/translate', 'POST', {
+    documentId,
+    segments: [segment],
+    sourceLanguage,
+    targetLanguage,
+    glossary,
+    backTranslate,
   });
 }
 
@@ -105,17 +327,20 @@ export function translateContent(
  * Generates a summary of document content
  * @param documentId - Unique document identifier
  * @param content - Content to summarize
- * @param length - Desired summary length
+ * @param length - Desired summary length; ignored by glossaries, formula sheets and TL;DRs
+ * @param style - Shape of the summary
  */
 export function summarizeContent(
   documentId: string,
   content: string,
-  length: 'short' | 'medium' | 'detailed'
+  length: SummaryLength,
+  style: SummaryStyle = 'prose'
 ): Promise<ApiResponse<SummaryData>> {
   return callApi<SummaryData>('/summarize', 'POST', {
     documentId,
     content,
     length,
+    style,
   });
 }
 
@@ -125,35 +350,252 @@ export function summarizeContent(
  * @param content - Content to generate quiz from
  * @param count - Number of questions
  * @param difficulty - Quiz difficulty level
+ * @param types - Question types to mix
+ * @param focusTopics - Topics the learner missed, to concentrate the quiz on
  */
 export function generateQuiz(
   documentId: string,
   content: string,
   count: number,
-  difficulty: 'easy' | 'medium' | 'hard'
+  difficulty: 'easy' | 'medium' | 'hard',
+  types: QuestionType[] = ['multiple-choice'],
+  focusTopics: string[] = []
 ): Promise<ApiResponse<QuizData>> {
   return callApi<QuizData>('/quiz', 'POST', {
     documentId,
     content,
     count,
     difficulty,
+    types,
+    focusTopics,
   });
 }
 
 /**
- * Sends a chat message about document content
+ * Grades free-text quiz answers with the model
+ * @param documentId - Document the quiz was generated from
+ * @param items - Answers with their questions and sample answers
+ */
+export function gradeAnswers(
+  documentId: string,
+  items: GradeItem[]
+): Promise<ApiResponse<GradeData>> {
+  return callApi<GradeData>('/quiz/grade', 'POST', { documentId, items });
+}
+
+/**
+ * Generates study flashcards from document content
  * @param documentId - Unique document identifier
- * @param content - Document content for context
- * @param message - User's chat message
+ * @param content - Content to generate cards from
+ * @param count - Number of cards
  */
-export function chatWithDocument(
+export function generateFlashcards(
   documentId: string,
   content: string,
-  message: string
+  count: number
+): Promise<ApiResponse<FlashcardsData>> {
+  return callApi<FlashcardsData>('/flashcards', 'POST', { documentId, content, count });
+}
+
+/**
+ * Sends a chat message about one or more documents
+ * @param documents - Documents used as context
+ * @param message - User's chat message
+ * @param history - Prior conversation turns, oldest first
+ */
+export function chatWithDocuments(
+  documents: ChatDocument[],
+  message: string,
+  history: ChatTurn[] = []
 ): Promise<ApiResponse<ChatData>> {
   return callApi<ChatData>('/chat', 'POST', {
-    documentId,
-    content,
+    documents,
     message,
+    history,
   });
 }
+
+/** Options for streaming requests */
+interface StreamOptions {
+  /** Called with each text delta as it arrives */
+  onDelta?: (delta: string) => void;
+  /** Called with any additional named event, e.g. progress */
+  onEvent?: (event: string, data: unknown) => void;
+  /** Aborts the request and stops generation on the server */
+  signal?: AbortSignal;
+}
+
+/**
+ * Embeds texts with the server's embedding model
+ * @param texts - Passages or queries to embed
+ * @param documentId - Document the texts belong to, used for logging
+ */
+export function embedTexts(texts: string[], documentId?: string): Promise<ApiResponse<EmbedData>> {
+  return callApi<EmbedData>('/embed', 'POST', { documentId, texts });
+}
+
+/**
+ * Downloads a web page or PDF through the server and extracts its text for import
+ * @param url - http or https URL
+ */
+export function importUrl(url: string): Promise<ApiResponse<ImportData>> {
+  return callApi<ImportData>('/import', 'POST', { url });
+}
+
+/**
+ * Parses a single Server-Sent Event block
+ * @param block - Raw event text without the trailing blank line
+ * @returns Event name and parsed JSON payload
+ */
+function parseServerEvent(block: string): { event: string; data: unknown } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice('data:'.length).trim());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join('\n')) };
+}
+
+/**
+ * Makes a streaming API request and reads its Server-Sent Events
+ * @param endpoint - API endpoint path
+ * @param data - Request body data
+ * @param options - Event callbacks and abort signal
+ * @param onAbort - Builds the result from the partial text when aborted
+ * @returns Data of the final `done` event, or the error
+ */
+async function streamApi<T>(
+  endpoint: string,
+  data: unknown,
+  { onDelta, onEvent, signal }: StreamOptions,
+  onAbort: (partial: string) => T
+): Promise<ApiResponse<T>> {
+  let partial = '';
+
+  try {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        error: errorData.error || `HTTP error: ${response.status}`,
+      };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const parsed = parseServerEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (!parsed) continue;
+
+        if (parsed.event === 'delta') {
+          const { delta } = parsed.data as { delta: string };
+          partial += delta;
+          onDelta?.(delta);
+        } else if (parsed.event === 'done') {
+          return { success: true, data: parsed.data as T };
+        } else if (parsed.event === 'error') {
+          return { success: false, error: (parsed.data as { error: string }).error };
+        } else {
+          onEvent?.(parsed.event, parsed.data);
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      return { success: true, data: onAbort(partial) };
+    }
+    return { success: false, error: 'Stream ended unexpectedly' };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { success: true, data: onAbort(partial) };
+    }
+
+    const message = error instanceof Error ? error.message : 'Network error';
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Sends a chat message and streams the response as Server-Sent Events
+ * @param documents - Documents used as context
+ * @param message - User's chat message
+ * @param history - Prior conversation turns, oldest first
+ * @param options - Delta and resolved-response callbacks and abort signal
+ * @returns Final response; aborted requests resolve with the last response resolved before stopping
+ */
+export function streamChatWithDocuments(
+  documents: ChatDocument[],
+  message: string,
+  history: ChatTurn[],
+  { onResolved, ...options }: StreamOptions & { onResolved?: (response: ChatData) => void }
+): Promise<ApiResponse<ChatData>> {
+  /** Response so far with its labels resolved to citations by the server */
+  let resolved: ChatData = { botResponse: '', citations: [] };
+
+  return streamApi<ChatData>(
+    '/chat/stream',
+    { documents, message, history },
+    {
+      ...options,
+      onEvent: (event, data) => {
+        if (event !== 'resolved') return;
+        resolved = data as ChatData;
+        onResolved?.(resolved);
+      },
+    },
+    () => resolved
+  );
+}
+
+/**
+ * Summarizes content while streaming chunk progress and the final summary
+ * @param documentId - Unique document identifier
+ * @param content - Content to summarize
+ * @param length - Desired summary length; ignored by glossaries, formula sheets and TL;DRs
+ * @param style - Shape of the summary
+ * @param options - Delta and progress callbacks and abort signal
+ * @returns Final response; aborted requests resolve with the partial summary
+ */
+export function streamSummarizeContent(
+  documentId: string,
+  content: string,
+  length: SummaryLength,
+  style: SummaryStyle,
+  { onProgress, ...options }: StreamOptions & { onProgress?: (progress: SummaryProgress) => void }
+): Promise<ApiResponse<SummaryData>> {
+  return streamApi<SummaryData>(
+    '/summarize/stream',
+    { documentId, content, length, style },
+    {
+      ...options,
+      onEvent: (event, data) => {
+        if (event === 'progress') onProgress?.(data as SummaryProgress);
+      },
+    },
+    (partial) => ({ summary: partial, chunkCount: 0 })
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Aligned Translation View Component
+ *
+ * Shows a translation paragraph by paragraph next to its source. The two
+ * columns scroll together, anchored on the segment at the top of the column
+ * being scrolled; hovering a segment highlights its counterpart; and any
+ * segment can be translated again on its own. Segments that miss a glossary
+ * term or change a formula of their source are flagged, and so are segments
+ * whose back-translation strays from the source; each checked segment shows
+ * its similarity score and back-translation.
+ */
+
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, Loader, RefreshCw } from 'lucide-react';
+import LaTeXRenderer from './LaTeXRenderer';
+import { TranslatedSegment } from '../api';
+import { GlossaryViolation } from '../utils/glossary';
+import { FormulaIssue } from '../utils/latexCheck';
+
+/** Component props */
+interface AlignedTranslationViewProps {
+  segments: TranslatedSegment[];
+  languageName: string;
+  /** Index of the segment being translated again, if any */
+  retranslatingIndex: number | null;
+  onRetranslate: (index: number) => void;
+  /** Glossary terms the translation misses */
+  violations?: GlossaryViolation[];
+  /** Formula differences of each segment */
+  formulaIssues?: FormulaIssue[][];
+  /** Indices of segments whose back-translation scored low */
+  lowQuality?: number[];
+}
+
+/** Column of the view */
+type Side = 'source' | 'target';
+
+/** Segment text styling inside a column */
+const SEGMENT_CLASS_NAME = 'max-w-none leading-relaxed';
+
+/** Column container styling */
+const COLUMN_CLASS_NAME =
+  'relative max-h-[36rem] overflow-y-auto space-y-2 p-2 bg-gray-50 border border-gray-200 rounded-lg dark:bg-dark-surface dark:border-dark-input-border';
+
+/**
+ * Describes a formula difference for display
+ */
+function describeFormulaIssue(issue: FormulaIssue): string {
+  switch (issue.kind) {
+    case 'altered':
+      return `Formula changed: ${issue.found} (original ${issue.expected})`;
+    case 'missing':
+      return `Formula missing: ${issue.expected}`;
+    default:
+      return `Formula not in the original: ${issue.found}`;
+  }
+}
+
+/**
+ * Formats a similarity score as a percentage
+ */
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Scrolls one column so that the segment at the top of the other column sits
+ * at the same relative position
+ * @param from - Column the user scrolled
+ * @param to - Column to follow
+ */
+function alignScroll(from: HTMLElement, to: HTMLElement): void {
+  // Keep the ends in step even when the first or last segments differ in height
+  if (from.scrollTop <= 0) {
+    to.scrollTop = 0;
+    return;
+  }
+  if (from.scrollTop + from.clientHeight >= from.scrollHeight - 1) {
+    to.scrollTop = to.scrollHeight;
+    return;
+  }
+
+  const fromSegments = Array.from(from.querySelectorAll<HTMLElement>('[data-segment]'));
+  const toSegments = to.querySelectorAll<HTMLElement>('[data-segment]');
+
+  let index = fromSegments.findIndex((segment) => segment.offsetTop + segment.offsetHeight > from.scrollTop);
+  if (index === -1) index = fromSegments.length - 1;
+
+  const current = fromSegments[index];
+  const counterpart = toSegments[index];
+  if (!current || !counterpart) return;
+
+  const fraction = Math.min(1, Math.max(0, (from.scrollTop - current.offsetTop) / current.offsetHeight));
+  to.scrollTop = counterpart.offsetTop + fraction * counterpart.offsetHeight;
+}
+
+/**
+ * Aligned Translation View Component
+ */
+const AlignedTranslationView: React.FC<AlignedTranslationViewProps> = ({
+  segments,
+  languageName,
+  retranslatingIndex,
+  onRetranslate,
+  violations = [],
+  formulaIssues = [],
+  lowQuality = [],
+}) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const columns = { source: useRef<HTMLDivElement>(null), target: useRef<HTMLDivElement>(null) };
+  /** Scroll position each column was last moved to by syncing, to tell it apart from user scrolling */
+  const syncedTop = useRef<Record<Side, number | null>>({ source: null, target: null });
+
+  /**
+   * Follows a column's scrolling in the other column
+   */
+  const handleScroll = (side: Side): void => {
+    const from = columns[side].current;
+    const otherSide: Side = side === 'source' ? 'target' : 'source';
+    const to = columns[otherSide].current;
+    if (!from || !to) return;
+
+    // Ignore the scroll event caused by our own sync
+    const expected = syncedTop.current[side];
+    syncedTop.current[side] = null;
+    if (expected !== null && Math.abs(from.scrollTop - expected) < 1) return;
+
+    alignScroll(from, to);
+    syncedTop.current[otherSide] = to.scrollTop;
+  };
+
+  /**
+   * Styling of a segment, highlighted while it or its counterpart is hovered and tinted when it scored low
+   */
+  const segmentClassName = (index: number): string =>
+    `group relative rounded-md px-3 py-2 transition-colors ${hoveredIndex === index
+      ? 'bg-yellow-100 ring-1 ring-yellow-300 dark:bg-yellow-900/40 dark:ring-yellow-700'
+      : lowQuality.includes(index)
+        ? 'bg-red-50 ring-1 ring-red-200 dark:bg-red-900/20 dark:ring-red-800'
+        : ''
+    }`;
+
+  const hoverProps = (index: number) => ({
+    onMouseEnter: () => setHoveredIndex(index),
+    onMouseLeave: () => setHoveredIndex(null),
+  });
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <h4 className="font-medium text-gray-900 dark:text-dark-text">Original</h4>
+      <h4 className="font-medium text-gray-900 dark:text-dark-text">{languageName}</h4>
+
+      <div ref={columns.source} onScroll={() => handleScroll('source')} className={COLUMN_CLASS_NAME}>
+        {segments.map((segment, index) => (
+          <div key={index} data-segment className={segmentClassName(index)} {...hoverProps(index)}>
+            <LaTeXRenderer content={segment.source} className={SEGMENT_CLASS_NAME} />
+          </div>
+        ))}
+      </div>
+
+      <div ref={columns.target} onScroll={() => handleScroll('target')} className={COLUMN_CLASS_NAME}>
+        {segments.map((segment, index) => (
+          <div key={index} data-segment className={segmentClassName(index)} {...hoverProps(index)}>
+            <div className={retranslatingIndex === index ? 'opacity-50' : ''}>
+              <LaTeXRenderer content={segment.translation} className={SEGMENT_CLASS_NAME} />
+            </div>
+            {violations
+              .filter((violation) => violation.segmentIndex === index)
+              .map(({ entry }) => (
+                <p
+                  key={entry.source}
+                  className="flex items-center space-x-1 mt-1 text-xs text-amber-700 dark:text-amber-300"
+                >
+                  <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    Glossary: “{entry.source}” should be “{entry.target}”
+                  </span>
+                </p>
+              ))}
+            {(formulaIssues[index] ?? []).map((issue, issueIndex) => (
+              <p
+                key={issueIndex}
+                className="flex items-center space-x-1 mt-1 text-xs text-amber-700 dark:text-amber-300"
+              >
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                <span className="font-mono break-all">{describeFormulaIssue(issue)}</span>
+              </p>
+            ))}
+            {segment.quality && (
+              <details className="mt-1 text-xs">
+                <summary
+                  className={`cursor-pointer ${lowQuality.includes(index)
+                    ? 'text-red-700 dark:text-red-300'
+                    : 'text-gray-500 dark:text-dark-text-secondary'
+                  }`}
+                >
+                  {lowQuality.includes(index) && <AlertTriangle className="inline h-3 w-3 mr-1 align-[-2px]" />}
+                  Back-translation {formatScore(segment.quality.score)} similar
+                </summary>
+                <LaTeXRenderer
+                  content={segment.quality.backTranslation}
+                  className="mt-1 pl-2 border-l-2 border-gray-300 text-gray-600 dark:border-dark-input-border dark:text-dark-text-secondary"
+                />
+              </details>
+            )}
+            <button
+              onClick={() => onRetranslate(index)}
+              disabled={retranslatingIndex !== null}
+              title="Translate this paragraph again"
+              aria-label={`Translate paragraph ${index + 1} again`}
+              className={`absolute top-2 right-2 p-1 rounded bg-white border border-gray-200 text-gray-600 hover:text-blue-600 dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text-secondary dark:hover:text-blue-300 disabled:cursor-not-allowed transition-opacity ${retranslatingIndex === index
+                ? 'opacity-100'
+                : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+              }`}
+            >
+              {retranslatingIndex === index ? (
+                <Loader className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlignedTranslationView;
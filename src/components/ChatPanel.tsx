@@ -2,13 +2,29 @@
  * Chat Panel Component
  *
  * Provides an interactive chat interface for document-based conversations.
- * Users can ask questions about uploaded documents and receive AI-generated responses.
+ * Users can ask questions about one or more uploaded documents and receive AI-generated
+ * responses that stream in as they are generated. Only the passages most relevant to each
+ * question are sent as context. Answers cite the passages they draw on; clicking a citation
+ * scrolls the source preview to that passage. Each document selection keeps its own
+ * conversation thread, saved to the workspace database, and recent turns are sent along so
+ * follow-up questions keep their context.
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import { MessageCircle, Send, Bot, User, FileText } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { MessageCircle, Send, Bot, User, FileText, Square, Trash2, BookMarked } from 'lucide-react';
 import LaTeXRenderer from './LaTeXRenderer';
-import { chatWithDocument } from '../api';
+import { streamChatWithDocuments, ChatTurn, Citation } from '../api';
+import { stripPartialCitation } from '../utils/citations';
+import { splitPassages } from '../utils/passages';
+import {
+  RETRIEVAL_BACKENDS,
+  RetrievalBackendId,
+  indexDocuments,
+  loadRetrievalBackend,
+  retrievePassages,
+  saveRetrievalBackend,
+} from '../utils/retrieval';
+import { getAllRecords, replaceRecords } from '../utils/workspaceDb';
 
 /** Document data structure */
 interface Document {
@@ -29,32 +45,177 @@ interface Message {
   type: 'user' | 'bot';
   content: string;
   timestamp: Date;
+  /** Passages cited in a bot response */
+  citations?: Citation[];
+  /** True while the response is still streaming */
+  isStreaming?: boolean;
+  /** True when the user stopped generation before it finished */
+  stopped?: boolean;
+}
+
+/** Chat thread as saved in the workspace database */
+interface StoredThread {
+  key: string;
+  messages: Message[];
+}
+
+/** Conversation history window options (number of prior messages sent) */
+const HISTORY_WINDOW_OPTIONS = [0, 4, 10, 20];
+
+/** Default number of prior messages sent with each question */
+const DEFAULT_HISTORY_WINDOW = 10;
+
+/** Maximum number of passages sent as context with each question */
+const CONTEXT_PASSAGE_LIMIT = 8;
+
+/**
+ * Converts thread messages to the chat history contract
+ */
+function toHistory(messages: Message[], window: number): ChatTurn[] {
+  if (window <= 0) return [];
+
+  return messages
+    .filter((msg) => msg.content.trim() && !msg.isStreaming)
+    .slice(-window)
+    .map((msg) => ({ role: msg.type === 'user' ? 'user' : 'assistant', content: msg.content }));
+}
+
+/**
+ * Builds the thread key for a document selection
+ */
+function getThreadKey(documentIds: string[]): string {
+  return [...documentIds].sort().join('|');
+}
+
+/**
+ * Builds the lookup key for a passage in the source preview
+ */
+function getPassageKey(documentId: string, passageIndex: number): string {
+  return `${documentId}:${passageIndex}`;
 }
 
 /**
  * Chat Panel Component
  */
 const ChatPanel: React.FC<ChatPanelProps> = ({ documents }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [threads, setThreads] = useState<Record<string, Message[]>>({});
+  const [threadsLoaded, setThreadsLoaded] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
-  const [selectedDoc, setSelectedDoc] = useState<string>('');
+  const [selectedDocs, setSelectedDocs] = useState<string[]>([]);
+  const [historyWindow, setHistoryWindow] = useState<number>(DEFAULT_HISTORY_WINDOW);
+  const [retrievalBackend, setRetrievalBackend] = useState<RetrievalBackendId>(loadRetrievalBackend);
+  const [previewDocId, setPreviewDocId] = useState<string>('');
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const passageRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  // Stop any in-flight generation when the panel unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Restore saved conversations
+  useEffect(() => {
+    getAllRecords<StoredThread>('chatThreads')
+      .then((stored) => {
+        const saved = Object.fromEntries(stored.map((thread) => [thread.key, thread.messages]));
+        setThreads((prev) => ({ ...saved, ...prev }));
+      })
+      .catch((error) => console.warn('Failed to restore chat threads:', error))
+      .finally(() => setThreadsLoaded(true));
+  }, []);
+
+  // Save conversations between responses, dropping threads of removed documents
+  useEffect(() => {
+    if (!threadsLoaded || isTyping) return;
+
+    const loadedIds = new Set(documents.map((doc) => doc.id));
+    const stored: StoredThread[] = Object.entries(threads)
+      .filter(([key, thread]) => thread.length > 0 && key.split('|').every((id) => loadedIds.has(id)))
+      .map(([key, thread]) => ({ key, messages: thread }));
+
+    replaceRecords('chatThreads', stored).catch((error) =>
+      console.warn('Failed to save chat threads:', error)
+    );
+  }, [threads, threadsLoaded, isTyping, documents]);
+
+  /** Selected documents that are still loaded */
+  const selectedDocuments = documents.filter((doc) => selectedDocs.includes(doc.id));
+
+  /** Key of the thread for the current selection */
+  const threadKey = getThreadKey(selectedDocuments.map((doc) => doc.id));
+
+  /** Messages in the current selection's thread */
+  const messages = threads[threadKey] ?? [];
+
+  /** Citable passages for every loaded document */
+  const passagesByDoc = useMemo(
+    () => Object.fromEntries(documents.map((doc) => [doc.id, splitPassages(doc.content)])),
+    [documents]
+  );
+
+  /** Document shown in the source preview */
+  const previewDocument =
+    selectedDocuments.find((doc) => doc.id === previewDocId) ?? selectedDocuments[0];
 
   // Auto-scroll to latest message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [threads, threadKey, isTyping]);
+
+  // Scroll the source preview to the active citation
+  useEffect(() => {
+    if (!activeCitation) return;
+    const key = getPassageKey(activeCitation.documentId, activeCitation.passageIndex);
+    passageRefs.current[key]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeCitation, previewDocId]);
+
+  /**
+   * Toggles a document in the chat context
+   */
+  const toggleDocument = (id: string): void => {
+    setSelectedDocs((prev) =>
+      prev.includes(id) ? prev.filter((docId) => docId !== id) : [...prev, id]
+    );
+    setActiveCitation(null);
+  };
+
+  /** Whether every loaded document is selected */
+  const allSelected = documents.every((doc) => selectedDocs.includes(doc.id));
+
+  /**
+   * Selects every document, or clears the selection when all are selected
+   */
+  const toggleAllDocuments = (): void => {
+    setSelectedDocs(allSelected ? [] : documents.map((doc) => doc.id));
+    setActiveCitation(null);
+  };
+
+  /**
+   * Switches the passage retrieval backend and indexes documents with it
+   */
+  const handleRetrievalBackendChange = (backendId: RetrievalBackendId): void => {
+    setRetrievalBackend(backendId);
+    saveRetrievalBackend(backendId);
+    indexDocuments(documents, backendId);
+  };
+
+  /**
+   * Shows a cited passage in the source preview
+   */
+  const handleCitationClick = (citation: Citation): void => {
+    setPreviewDocId(citation.documentId);
+    setActiveCitation(citation);
+  };
 
   /**
    * Sends a message and receives AI response
    */
   const handleSendMessage = async (): Promise<void> => {
-    if (!inputMessage.trim() || !selectedDoc) return;
-
-    const document = documents.find((doc) => doc.id === selectedDoc);
-    if (!document) return;
+    if (!inputMessage.trim() || selectedDocuments.length === 0) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -63,34 +224,109 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ documents }) => {
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    const botMessageId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const history = toHistory(messages, historyWindow);
+    const key = threadKey;
+
+    // Include the previous question so follow-ups retrieve the passages they refer to
+    const previousQuestion = [...messages].reverse().find((msg) => msg.type === 'user');
+    const retrievalQuery = previousQuestion
+      ? `${previousQuestion.content}\n${inputMessage}`
+      : inputMessage;
+
+    /**
+     * Applies an update to this selection's thread
+     */
+    const updateThread = (update: (thread: Message[]) => Message[]): void => {
+      setThreads((prev) => ({ ...prev, [key]: update(prev[key] ?? []) }));
+    };
+
+    /**
+     * Applies an update to the streaming bot message
+     */
+    const updateBotMessage = (update: (message: Message) => Message): void => {
+      updateThread((prev) => prev.map((msg) => (msg.id === botMessageId ? update(msg) : msg)));
+    };
+
+    updateThread((prev) => [...prev, userMessage]);
     setInputMessage('');
     setIsTyping(true);
+    setError(null);
 
     try {
-      const response = await chatWithDocument(document.id, document.content, inputMessage);
+      const chatDocuments = await retrievePassages(
+        selectedDocuments,
+        retrievalQuery,
+        retrievalBackend,
+        CONTEXT_PASSAGE_LIMIT
+      );
+
+      const response = await streamChatWithDocuments(chatDocuments, inputMessage, history, {
+        signal: controller.signal,
+        onResolved: ({ botResponse, citations }) => {
+          const text = stripPartialCitation(botResponse);
+          updateThread((prev) => {
+            if (!prev.some((msg) => msg.id === botMessageId)) {
+              const botMessage: Message = {
+                id: botMessageId,
+                type: 'bot',
+                content: text,
+                citations,
+                timestamp: new Date(),
+                isStreaming: true,
+              };
+              return [...prev, botMessage];
+            }
+            return prev.map((msg) => (msg.id === botMessageId ? { ...msg, content: text, citations } : msg));
+          });
+        },
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Chat failed');
       }
 
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'bot',
-        content: response.data.botResponse,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, botMessage]);
-      setError(null);
+      // A stopped response may end in the middle of a citation label
+      const { botResponse, citations } = response.data;
+      updateBotMessage((msg) => ({
+        ...msg,
+        content: controller.signal.aborted ? stripPartialCitation(botResponse) : botResponse,
+        citations,
+        isStreaming: false,
+        stopped: controller.signal.aborted,
+      }));
     } catch (err) {
+      // Keep whatever text already arrived, but mark it as finished
+      updateBotMessage((msg) => ({ ...msg, isStreaming: false }));
       const message = err instanceof Error ? err.message : 'Failed to get response';
       setError(message);
     } finally {
+      abortControllerRef.current = null;
       setIsTyping(false);
     }
   };
 
+  /**
+   * Stops the response currently being generated
+   */
+  const handleStopGeneration = (): void => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Clears the current selection's conversation
+   */
+  const handleClearThread = (): void => {
+    setThreads((prev) => ({ ...prev, [threadKey]: [] }));
+    setActiveCitation(null);
+    setError(null);
+  };
+
+  /** Whether the bot has started streaming its reply */
+  const isStreaming = messages.some((msg) => msg.isStreaming);
+
   /**
    * Handles Enter key to send message
    */
@@ -117,29 +353,88 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ documents }) => {
   }
 
   return (
-    <div className="h-[600px] flex flex-col dark:bg-dark-background dark:text-dark-text rounded-lg">
+    <div className="h-[720px] flex flex-col dark:bg-dark-background dark:text-dark-text rounded-lg">
       {/* Header */}
       <div className="p-6 border-b border-gray-200 dark:border-dark-input-border">
         <h2 className="text-2xl font-bold text-gray-900 dark:text-dark-text mb-4">
           Chat with Documents
         </h2>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-            Select Document to Chat About
-          </label>
-          <select
-            value={selectedDoc}
-            onChange={(e) => setSelectedDoc(e.target.value)}
-            className="w-full max-w-md px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
-          >
-            <option value="">Choose a document...</option>
-            {documents.map((doc) => (
-              <option key={doc.id} value={doc.id}>
-                {doc.name} ({doc.content.length} chars)
-              </option>
-            ))}
-          </select>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[16rem]">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary">
+                Documents to Chat About
+              </label>
+              <button
+                onClick={toggleAllDocuments}
+                disabled={isTyping}
+                className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {allSelected ? 'Clear selection' : 'Select all'}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2 max-h-20 overflow-y-auto">
+              {documents.map((doc) => (
+                <button
+                  key={doc.id}
+                  onClick={() => toggleDocument(doc.id)}
+                  disabled={isTyping}
+                  className={`px-3 py-1 rounded-full border text-sm transition-colors disabled:cursor-not-allowed ${selectedDocs.includes(doc.id)
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400 dark:border-dark-input-border dark:text-dark-text dark:hover:border-dark-scroll-thumb'
+                    }`}
+                >
+                  {doc.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+              Conversation Memory
+            </label>
+            <select
+              value={historyWindow}
+              onChange={(e) => setHistoryWindow(Number(e.target.value))}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+            >
+              {HISTORY_WINDOW_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count === 0 ? 'Off' : `Last ${count} messages`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+              Passage Search
+            </label>
+            <select
+              value={retrievalBackend}
+              onChange={(e) => handleRetrievalBackendChange(e.target.value as RetrievalBackendId)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+            >
+              {RETRIEVAL_BACKENDS.map((backend) => (
+                <option key={backend.id} value={backend.id}>
+                  {backend.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {messages.length > 0 && (
+            <button
+              onClick={handleClearThread}
+              disabled={isTyping}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed dark:border-dark-input-border dark:text-dark-text-secondary dark:hover:text-red-400 flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Clear Conversation</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -155,118 +450,206 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ documents }) => {
       )}
 
       {/* Chat Area */}
-      {!selectedDoc ? (
+      {selectedDocuments.length === 0 ? (
         <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-dark-text-secondary">
           <div className="text-center">
             <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
-            <p>Select a document to start chatting</p>
+            <p>Select one or more documents to start chatting</p>
           </div>
         </div>
       ) : (
-        <>
-          {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-6 space-y-4">
-            {messages.length === 0 && (
-              <div className="text-center text-gray-500 dark:text-dark-text-secondary py-8">
-                <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p>Start a conversation about your document!</p>
-                <p className="text-sm">Ask questions, request summaries, or explore concepts.</p>
-              </div>
-            )}
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col min-w-0">
+            {/* Messages */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {messages.length === 0 && (
+                <div className="text-center text-gray-500 dark:text-dark-text-secondary py-8">
+                  <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>
+                    Start a conversation about{' '}
+                    {selectedDocuments.length === 1
+                      ? 'your document'
+                      : `${selectedDocuments.length} documents`}
+                    !
+                  </p>
+                  <p className="text-sm">Ask questions, request summaries, or explore concepts.</p>
+                </div>
+              )}
 
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
+              {messages.map((message) => (
                 <div
-                  className={`max-w-3xl flex space-x-3 ${message.type === 'user' ? 'flex-row-reverse space-x-reverse' : ''
-                    }`}
+                  key={message.id}
+                  className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  {/* Avatar */}
                   <div
-                    className={`flex-shrink-0 rounded-full w-8 h-8 flex items-center justify-center ${message.type === 'user'
-                        ? 'bg-blue-600'
-                        : 'bg-gray-600 dark:bg-dark-input-bg'
+                    className={`max-w-3xl flex space-x-3 ${message.type === 'user' ? 'flex-row-reverse space-x-reverse' : ''
                       }`}
                   >
-                    {message.type === 'user' ? (
-                      <User className="h-4 w-4 text-white" />
-                    ) : (
-                      <Bot className="h-4 w-4 text-white" />
-                    )}
-                  </div>
+                    {/* Avatar */}
+                    <div
+                      className={`flex-shrink-0 rounded-full w-8 h-8 flex items-center justify-center ${message.type === 'user'
+                          ? 'bg-blue-600'
+                          : 'bg-gray-600 dark:bg-dark-input-bg'
+                        }`}
+                    >
+                      {message.type === 'user' ? (
+                        <User className="h-4 w-4 text-white" />
+                      ) : (
+                        <Bot className="h-4 w-4 text-white" />
+                      )}
+                    </div>
 
-                  {/* Message Content */}
-                  <div
-                    className={`rounded-lg px-4 py-3 ${message.type === 'user'
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-100 text-gray-900 dark:bg-dark-surface dark:text-dark-text'
-                      }`}
-                  >
-                    <LaTeXRenderer content={message.content} />
+                    {/* Message Content */}
                     <div
-                      className={`text-xs mt-2 ${message.type === 'user'
-                          ? 'text-blue-100'
-                          : 'text-gray-500 dark:text-dark-text-secondary'
+                      className={`rounded-lg px-4 py-3 ${message.type === 'user'
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-900 dark:bg-dark-surface dark:text-dark-text'
                         }`}
                     >
-                      {message.timestamp.toLocaleTimeString()}
+                      <LaTeXRenderer content={message.content} />
+
+                      {/* Citations */}
+                      {message.citations && message.citations.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {message.citations.map((citation) => (
+                            <button
+                              key={citation.marker}
+                              onClick={() => handleCitationClick(citation)}
+                              title={citation.excerpt}
+                              className="px-2 py-1 rounded border border-gray-300 bg-white text-xs text-gray-700 hover:border-blue-500 hover:text-blue-700 transition-colors dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text dark:hover:border-blue-400"
+                            >
+                              [{citation.marker}] {citation.documentName} ¶{citation.passageIndex + 1}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      <div
+                        className={`text-xs mt-2 ${message.type === 'user'
+                            ? 'text-blue-100'
+                            : 'text-gray-500 dark:text-dark-text-secondary'
+                          }`}
+                      >
+                        {message.timestamp.toLocaleTimeString()}
+                        {message.isStreaming && ' · Generating...'}
+                        {message.stopped && ' · Stopped'}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
-
-            {/* Typing Indicator */}
-            {isTyping && (
-              <div className="flex justify-start">
-                <div className="max-w-3xl flex space-x-3">
-                  <div className="flex-shrink-0 bg-gray-600 dark:bg-dark-input-bg rounded-full w-8 h-8 flex items-center justify-center">
-                    <Bot className="h-4 w-4 text-white" />
-                  </div>
-                  <div className="bg-gray-100 text-gray-900 dark:bg-dark-surface dark:text-dark-text rounded-lg px-4 py-3">
-                    <div className="flex space-x-1">
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-                      <div
-                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                        style={{ animationDelay: '0.1s' }}
-                      />
-                      <div
-                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                        style={{ animationDelay: '0.2s' }}
-                      />
+              ))}
+
+              {/* Typing Indicator */}
+              {isTyping && !isStreaming && (
+                <div className="flex justify-start">
+                  <div className="max-w-3xl flex space-x-3">
+                    <div className="flex-shrink-0 bg-gray-600 dark:bg-dark-input-bg rounded-full w-8 h-8 flex items-center justify-center">
+                      <Bot className="h-4 w-4 text-white" />
+                    </div>
+                    <div className="bg-gray-100 text-gray-900 dark:bg-dark-surface dark:text-dark-text rounded-lg px-4 py-3">
+                      <div className="flex space-x-1">
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                        <div
+                          className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                          style={{ animationDelay: '0.1s' }}
+                        />
+                        <div
+                          className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                          style={{ animationDelay: '0.2s' }}
+                        />
+                      </div>
                     </div>
                   </div>
                 </div>
+              )}
+
+              <div ref={messagesEndRef} />
+            </div>
+
+            {/* Input Area */}
+            <div className="border-t border-gray-200 dark:border-dark-input-border p-6">
+              <div className="flex space-x-4">
+                <textarea
+                  value={inputMessage}
+                  onChange={(e) => setInputMessage(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  placeholder="Ask me anything about the selected documents..."
+                  rows={2}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text dark:placeholder-dark-text-secondary"
+                  disabled={isTyping}
+                />
+                {isTyping ? (
+                  <button
+                    onClick={handleStopGeneration}
+                    className="bg-red-600 text-white p-3 rounded-lg hover:bg-red-700 transition-colors"
+                    aria-label="Stop generating"
+                    title="Stop generating"
+                  >
+                    <Square className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={!inputMessage.trim()}
+                    className="bg-blue-600 text-white p-3 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:cursor-not-allowed"
+                  >
+                    <Send className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Source Preview */}
+          <aside className="hidden lg:flex w-2/5 flex-col border-l border-gray-200 dark:border-dark-input-border">
+            <div className="px-4 pt-4 pb-2 flex items-center space-x-2">
+              <BookMarked className="h-4 w-4 text-gray-500 dark:text-dark-text-secondary" />
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-dark-text">Sources</h3>
+            </div>
+
+            {selectedDocuments.length > 1 && (
+              <div className="px-4 pb-2 flex flex-wrap gap-1">
+                {selectedDocuments.map((doc) => (
+                  <button
+                    key={doc.id}
+                    onClick={() => setPreviewDocId(doc.id)}
+                    className={`px-2 py-1 rounded text-xs truncate max-w-[10rem] ${previewDocument?.id === doc.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-dark-surface dark:text-dark-text'
+                      }`}
+                  >
+                    {doc.name}
+                  </button>
+                ))}
               </div>
             )}
 
-            <div ref={messagesEndRef} />
-          </div>
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+              {previewDocument &&
+                (passagesByDoc[previewDocument.id] ?? []).map((passage, index) => {
+                  const isActive =
+                    activeCitation?.documentId === previewDocument.id &&
+                    activeCitation.passageIndex === index;
 
-          {/* Input Area */}
-          <div className="border-t border-gray-200 dark:border-dark-input-border p-6">
-            <div className="flex space-x-4">
-              <textarea
-                value={inputMessage}
-                onChange={(e) => setInputMessage(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="Ask me anything about the document..."
-                rows={2}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text dark:placeholder-dark-text-secondary"
-                disabled={isTyping}
-              />
-              <button
-                onClick={handleSendMessage}
-                disabled={!inputMessage.trim() || isTyping}
-                className="bg-blue-600 text-white p-3 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:cursor-not-allowed"
-              >
-                <Send className="h-4 w-4" />
-              </button>
+                  return (
+                    <div
+                      key={index}
+                      ref={(el) => {
+                        passageRefs.current[getPassageKey(previewDocument.id, index)] = el;
+                      }}
+                      className={`rounded p-2 text-sm whitespace-pre-wrap transition-colors ${isActive
+                          ? 'bg-yellow-100 border border-yellow-400 dark:bg-yellow-900 dark:border-yellow-600'
+                          : 'text-gray-700 dark:text-dark-text-secondary'
+                        }`}
+                    >
+                      <span className="text-xs font-mono text-gray-400 mr-2">¶{index + 1}</span>
+                      {passage}
+                    </div>
+                  );
+                })}
             </div>
-          </div>
-        </>
+          </aside>
+        </div>
       )}
     </div>
   );
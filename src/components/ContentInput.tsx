@@ -3,14 +3,22 @@
  *
  * Handles document upload and text input for the application.
  * Supports file drag-and-drop, file selection, and direct text input with LaTeX support.
+ * Uploaded PDF, Word, PowerPoint, EPUB and HTML files are converted to text;
+ * images and scanned PDF pages are recognized with in-browser OCR. Web pages
+ * and PDFs can be imported by URL, and rich HTML pasted from the
+ * clipboard is converted to Markdown with its LaTeX source. The language of
+ * each new document is detected and can be changed on its card.
  */
 
 import React, { useState, useCallback } from 'react';
-import { Upload, FileText, X, Plus, File } from 'lucide-react';
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/node_modules/pdfjs-dist/build/pdf.worker.min.mjs';
+import { Upload, FileText, X, Plus, File, Loader, Globe } from 'lucide-react';
+import LanguagePicker from './LanguagePicker';
+import { importUrl } from '../api';
+import { extractFileText, OcrProgress, SUPPORTED_FILE_EXTENSIONS } from '../utils/documentExtraction';
+import { loadOcrLanguage, OCR_LANGUAGES, saveOcrLanguage } from '../utils/ocr';
+import { htmlToMarkdown } from '../utils/htmlText';
+import { detectLanguage, languageName } from '../utils/languages';
+import { PageSpan } from '../utils/pdfLayout';
 
 /** Document data structure */
 interface Document {
@@ -18,6 +26,10 @@ interface Document {
   name: string;
   content: string;
   type: string;
+  /** Character range of each page, for PDFs */
+  pages?: PageSpan[];
+  /** Detected or chosen language of the content, as a BCP-47 tag */
+  language?: string;
 }
 
 /** Component props */
@@ -41,6 +53,10 @@ Operators: \\sum, \\prod, \\int, \\partial, \\nabla, \\emptyset
 Arrows: \\to, \\rightarrow, \\leftarrow, \\Rightarrow, \\Leftrightarrow
 Logic: \\forall, \\exists, \\neg, \\land, \\lor, \\implies, \\iff`;
 
+/** Clipboard HTML worth converting: structure or math that plain text would lose */
+const RICH_HTML_PATTERN =
+  /<(h[1-6]|ul|ol|table|math|blockquote|pre|mjx-container)\b|class="[^"]*\b(katex|MathJax)|type="math\/tex/i;
+
 /**
  * Generates a unique document ID
  */
@@ -49,20 +65,12 @@ function generateDocumentId(): string {
 }
 
 /**
- * Extracts text content from a PDF file
+ * Describes OCR progress for display
  */
-async function extractPdfText(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-
-  let fullText = '';
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    fullText += textContent.items.map((item: unknown) => (item as { str: string }).str).join(' ') + '\n';
-  }
-
-  return fullText;
+function describeOcrProgress(progress: OcrProgress): string {
+  const percent = Math.round(progress.progress * 100);
+  if (progress.total === 1) return `Recognizing text (${percent}%)`;
+  return `Recognizing scanned page ${progress.page} (${progress.completed + 1} of ${progress.total}, ${percent}%)`;
 }
 
 /**
@@ -72,35 +80,67 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
   const [dragOver, setDragOver] = useState(false);
   const [textInput, setTextInput] = useState('');
   const [fileName, setFileName] = useState('');
+  const [processingFile, setProcessingFile] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [ocrLanguage, setOcrLanguage] = useState(loadOcrLanguage);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [urlInput, setUrlInput] = useState('');
+  const [importingUrl, setImportingUrl] = useState<string | null>(null);
+  const [editingLanguage, setEditingLanguage] = useState<string | null>(null);
 
   /**
    * Processes uploaded files and adds them as documents
+   *
+   * A file that cannot be read is reported without stopping the others.
    */
   const processFiles = useCallback(
     async (files: File[]): Promise<void> => {
-      for (const file of files) {
-        let content: string;
-        let type = file.type || 'text/plain';
+      const failures: string[] = [];
 
-        if (file.type === 'application/pdf') {
-          content = await extractPdfText(file);
-        } else {
-          content = await file.text();
+      for (const file of files) {
+        setProcessingFile(file.name);
+
+        try {
+          const { content, type, pages } = await extractFileText(file, {
+            ocrLanguage,
+            onOcrProgress: setOcrProgress,
+          });
+          if (!content.trim()) {
+            failures.push(`No text found in "${file.name}".`);
+            continue;
+          }
+
+          const newDoc: Document = {
+            id: generateDocumentId(),
+            name: file.name,
+            content,
+            type,
+            pages,
+            language: detectLanguage(content),
+          };
+
+          setDocuments((prev) => [...prev, newDoc]);
+        } catch (err) {
+          failures.push(err instanceof Error ? err.message : `Could not read "${file.name}".`);
+        } finally {
+          setOcrProgress(null);
         }
-
-        const newDoc: Document = {
-          id: generateDocumentId(),
-          name: file.name,
-          content,
-          type,
-        };
-
-        setDocuments((prev) => [...prev, newDoc]);
       }
+
+      setProcessingFile(null);
+      setErrors(failures);
     },
-    [setDocuments]
+    [setDocuments, ocrLanguage]
   );
 
+  /**
+   * Switches the OCR language and remembers it
+   */
+  const handleOcrLanguageChange = (code: string): void => {
+    setOcrLanguage(code);
+    saveOcrLanguage(code);
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent): void => {
     e.preventDefault();
     setDragOver(true);
@@ -124,11 +164,62 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>): void => {
       const files = Array.from(e.target.files || []);
+      // Allow the same file to be chosen again after an error
+      e.target.value = '';
       processFiles(files);
     },
     [processFiles]
   );
 
+  /**
+   * Imports a URL through the server and adds its text as a document
+   */
+  const importFromUrl = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    const url = urlInput.trim();
+    if (!url || importingUrl) return;
+
+    setImportingUrl(url);
+    setErrors([]);
+    const response = await importUrl(url);
+    setImportingUrl(null);
+
+    if (!response.success || !response.data) {
+      setErrors([response.error || `Could not import ${url}.`]);
+      return;
+    }
+
+    const { name, title, content, type, pages } = response.data;
+    const newDoc: Document = {
+      id: generateDocumentId(),
+      name: title || name,
+      content,
+      type,
+      pages,
+      language: detectLanguage(content),
+    };
+
+    setDocuments((prev) => [...prev, newDoc]);
+    setUrlInput('');
+  };
+
+  /**
+   * Converts pasted rich HTML to Markdown so headings, lists, tables and math source survive
+   *
+   * Plain text and simple HTML are left to the browser's default paste.
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>): void => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html || !RICH_HTML_PATTERN.test(html)) return;
+
+    const markdown = htmlToMarkdown(new DOMParser().parseFromString(html, 'text/html'));
+    if (!markdown) return;
+
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setTextInput((prev) => prev.slice(0, selectionStart) + markdown + prev.slice(selectionEnd));
+  };
+
   /**
    * Adds text input as a new document
    */
@@ -140,6 +231,7 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
       name: fileName.trim() || `Document ${documents.length + 1}`,
       content: textInput,
       type: 'text/plain',
+      language: detectLanguage(textInput),
     };
 
     setDocuments((prev) => [...prev, newDoc]);
@@ -147,6 +239,14 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
     setFileName('');
   };
 
+  /**
+   * Sets the language of a document, overriding detection
+   */
+  const setDocumentLanguage = (id: string, language: string): void => {
+    setDocuments((prev) => prev.map((doc) => (doc.id === id ? { ...doc, language } : doc)));
+    setEditingLanguage(null);
+  };
+
   /**
    * Removes a document by ID
    */
@@ -180,13 +280,13 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
             Drop files here or click to upload
           </p>
           <p className="text-gray-500 dark:text-dark-text-secondary mb-4">
-            Supports .txt, .md, .pdf, and other text formats
+            Supports .pdf, .docx, .pptx, .epub, .html, .txt, .md, other text formats and images
           </p>
 
           <input
             type="file"
             multiple
-            accept=".txt,.md,.pdf,.doc,.docx"
+            accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
             onChange={handleFileSelect}
             className="hidden"
             id="file-upload"
@@ -198,6 +298,102 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
             Choose Files
           </label>
         </div>
+
+        <div className="mt-4 flex items-center space-x-3">
+          <label
+            htmlFor="ocr-language"
+            className="text-sm font-medium text-gray-700 dark:text-dark-text-secondary"
+          >
+            OCR Language
+          </label>
+          <select
+            id="ocr-language"
+            value={ocrLanguage}
+            onChange={(e) => handleOcrLanguageChange(e.target.value)}
+            disabled={processingFile !== null}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+          >
+            {OCR_LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.label}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500 dark:text-dark-text-secondary">
+            Used for images and scanned PDF pages
+          </span>
+        </div>
+
+        {importingUrl && (
+          <div className="mt-4 flex items-center space-x-2 text-gray-600 dark:text-dark-text-secondary">
+            <Loader className="h-4 w-4 animate-spin" />
+            <span>Downloading {importingUrl}...</span>
+          </div>
+        )}
+
+        {processingFile && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center space-x-2 text-gray-600 dark:text-dark-text-secondary">
+              <Loader className="h-4 w-4 animate-spin" />
+              <span>
+                {ocrProgress
+                  ? `${processingFile}: ${describeOcrProgress(ocrProgress)}`
+                  : `Extracting text from ${processingFile}...`}
+              </span>
+            </div>
+            {ocrProgress && (
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden dark:bg-dark-input-bg">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{
+                    width: `${((ocrProgress.completed + ocrProgress.progress) / ocrProgress.total) * 100}%`,
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div
+            className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
+            role="alert"
+          >
+            <strong className="font-bold">Error: </strong>
+            {errors.map((message) => (
+              <div key={message}>{message}</div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* URL Import */}
+      <div className="mb-10 space-y-4">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          Or import from a web address:
+        </h3>
+
+        <form onSubmit={importFromUrl} className="flex space-x-3">
+          <input
+            type="url"
+            placeholder="https://example.com/article"
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            className="flex-1 px-6 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text dark:placeholder-dark-text-secondary text-lg"
+          />
+          <button
+            type="submit"
+            disabled={!urlInput.trim() || importingUrl !== null || processingFile !== null}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Globe className="h-4 w-4" />
+            <span>Import</span>
+          </button>
+        </form>
+
+        <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+          Web pages are reduced to their main content; linked PDFs and text files are read as well.
+        </p>
       </div>
 
       {/* Text Input */}
@@ -218,6 +414,7 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
           placeholder={LATEX_PLACEHOLDER}
           value={textInput}
           onChange={(e) => setTextInput(e.target.value)}
+          onPaste={handlePaste}
           rows={12}
           className="w-full px-6 py-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text dark:placeholder-dark-text-secondary text-lg leading-relaxed font-mono"
         />
@@ -266,7 +463,26 @@ const ContentInput: React.FC<ContentInputProps> = ({ documents, setDocuments })
 
                 <div className="text-xs text-gray-500 dark:text-dark-text-secondary">
                   {doc.content.length} characters
+                  {doc.pages && ` · ${doc.pages.length} ${doc.pages.length === 1 ? 'page' : 'pages'}`}
+                  {' · '}
+                  <button
+                    onClick={() => setEditingLanguage(editingLanguage === doc.id ? null : doc.id)}
+                    title="Change the language of this document"
+                    className="underline decoration-dotted hover:text-blue-600 dark:hover:text-blue-300"
+                  >
+                    {doc.language ? languageName(doc.language) : 'Unknown language'}
+                  </button>
                 </div>
+
+                {editingLanguage === doc.id && (
+                  <div className="mt-3">
+                    <LanguagePicker
+                      value={doc.language ? [doc.language] : []}
+                      onChange={([language]) => setDocumentLanguage(doc.id, language)}
+                      label={`Language of ${doc.name}`}
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
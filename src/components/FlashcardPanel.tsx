@@ -0,0 +1,508 @@
+/**
+ * Flashcard Panel Component
+ *
+ * Generates flashcards from documents and schedules their review with
+ * spaced repetition. Each document has one deck; generating again adds new
+ * cards to it. Decks and review schedules are saved in the workspace, due
+ * counts are shown per deck, and decks can be exported for Anki as CSV or TSV.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layers, Loader, Download, Trash2, Play, Eye, X, CheckCircle } from 'lucide-react';
+import LaTeXRenderer from './LaTeXRenderer';
+import { Flashcard, generateFlashcards } from '../api';
+import { DeckFormat, deckToAnki } from '../utils/ankiExport';
+import {
+  CardSchedule,
+  formatWait,
+  GRADE_OPTIONS,
+  isDue,
+  newSchedule,
+  ReviewGrade,
+  reviewCard,
+} from '../utils/spacedRepetition';
+import { deleteRecord, getAllRecords, putRecord } from '../utils/workspaceDb';
+
+/** Document data structure */
+interface Document {
+  id: string;
+  name: string;
+  content: string;
+  type: string;
+}
+
+/** Component props */
+interface FlashcardPanelProps {
+  documents: Document[];
+}
+
+/** A card of a deck with its review schedule */
+interface StudyCard extends Flashcard {
+  id: string;
+  schedule: CardSchedule;
+}
+
+/** Flashcard deck of one document as stored in the workspace */
+interface Deck {
+  id: string;
+  documentId: string;
+  name: string;
+  createdAt: number;
+  cards: StudyCard[];
+}
+
+/** Available card counts per generation */
+const CARD_COUNTS = [5, 10, 20, 30, 50];
+
+/** How often due counts are refreshed */
+const CLOCK_INTERVAL_MS = 30 * 1000;
+
+/** Styling of the grade buttons, from forgotten to easy */
+const GRADE_CLASSES: Record<number, string> = {
+  1: 'bg-red-600 hover:bg-red-700',
+  3: 'bg-amber-500 hover:bg-amber-600',
+  4: 'bg-green-600 hover:bg-green-700',
+  5: 'bg-blue-600 hover:bg-blue-700',
+};
+
+/** Secondary button styling */
+const SECONDARY_BUTTON_CLASS =
+  'flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-surface disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Creates a unique ID for a deck or card
+ */
+function createId(): string {
+  return Date.now().toString() + Math.random().toString(36).slice(2, 9);
+}
+
+/**
+ * Normalizes a card front for duplicate detection
+ */
+function frontKey(front: string): string {
+  return front.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Cards of a deck that are due, most overdue first
+ */
+function dueCards(deck: Deck, now: number): StudyCard[] {
+  return deck.cards.filter((card) => isDue(card.schedule, now)).sort((a, b) => a.schedule.due - b.schedule.due);
+}
+
+/**
+ * Flashcard Panel Component
+ */
+const FlashcardPanel: React.FC<FlashcardPanelProps> = ({ documents }) => {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [selectedDoc, setSelectedDoc] = useState<string>('');
+  const [cardCount, setCardCount] = useState<number>(10);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [studyDeckId, setStudyDeckId] = useState<string | null>(null);
+  const [showBack, setShowBack] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Restore saved decks
+  useEffect(() => {
+    getAllRecords<Deck>('flashcardDecks')
+      .then((stored) => setDecks(stored.sort((a, b) => b.createdAt - a.createdAt)))
+      .catch((err) => console.warn('Failed to restore flashcard decks:', err));
+  }, []);
+
+  // Keep due counts current, e.g. for forgotten cards coming back
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  /** Deck being studied */
+  const studyDeck = decks.find((deck) => deck.id === studyDeckId) ?? null;
+
+  /** Card shown in the study view */
+  const currentCard = useMemo(() => (studyDeck ? dueCards(studyDeck, now)[0] : undefined), [studyDeck, now]);
+
+  /** Due cards across all decks */
+  const totalDue = decks.reduce((total, deck) => total + dueCards(deck, now).length, 0);
+
+  /**
+   * Replaces a deck in state and saves it
+   */
+  const saveDeck = (deck: Deck): void => {
+    setDecks((prev) => [deck, ...prev.filter((existing) => existing.id !== deck.id)].sort((a, b) => b.createdAt - a.createdAt));
+    putRecord<Deck>('flashcardDecks', deck).catch((err) => console.warn('Failed to save flashcard deck:', err));
+  };
+
+  /**
+   * Generates cards for the selected document and adds them to its deck
+   */
+  const handleGenerate = async (): Promise<void> => {
+    const document = documents.find((doc) => doc.id === selectedDoc);
+    if (!document) return;
+
+    setIsGenerating(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await generateFlashcards(document.id, document.content, cardCount);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Flashcard generation failed');
+      }
+
+      const existing = decks.find((deck) => deck.documentId === document.id);
+      const known = new Set(existing?.cards.map((card) => frontKey(card.front)));
+      const created = Date.now();
+      const added = response.data.cards
+        .filter((card) => !known.has(frontKey(card.front)))
+        .map((card) => ({ ...card, id: createId(), schedule: newSchedule(created) }));
+
+      saveDeck(
+        existing
+          ? { ...existing, name: document.name, cards: [...existing.cards, ...added] }
+          : { id: createId(), documentId: document.id, name: document.name, createdAt: created, cards: added }
+      );
+      setNow(created);
+      setMessage(`Added ${added.length} ${added.length === 1 ? 'card' : 'cards'} to "${document.name}".`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate flashcards';
+      setError(errorMessage);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Records the review of the current card and moves to the next one
+   */
+  const handleGrade = (grade: ReviewGrade): void => {
+    if (!studyDeck || !currentCard) return;
+
+    const reviewedAt = Date.now();
+    saveDeck({
+      ...studyDeck,
+      cards: studyDeck.cards.map((card) =>
+        card.id === currentCard.id ? { ...card, schedule: reviewCard(card.schedule, grade, reviewedAt) } : card
+      ),
+    });
+    setNow(reviewedAt);
+    setShowBack(false);
+  };
+
+  /**
+   * Removes the current card from its deck
+   */
+  const handleDeleteCard = (): void => {
+    if (!studyDeck || !currentCard) return;
+    saveDeck({ ...studyDeck, cards: studyDeck.cards.filter((card) => card.id !== currentCard.id) });
+    setShowBack(false);
+  };
+
+  /**
+   * Deletes a deck and its review history
+   */
+  const handleDeleteDeck = (deck: Deck): void => {
+    if (!window.confirm(`Delete the deck "${deck.name}" and its review history?`)) return;
+
+    setDecks((prev) => prev.filter((existing) => existing.id !== deck.id));
+    if (studyDeckId === deck.id) setStudyDeckId(null);
+    deleteRecord('flashcardDecks', deck.id).catch((err) => console.warn('Failed to delete flashcard deck:', err));
+  };
+
+  /**
+   * Downloads a deck in Anki's import format
+   */
+  const handleExport = (deck: Deck, format: DeckFormat): void => {
+    const mimeType = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+    const dataUri = `data:${mimeType};charset=utf-8,${encodeURIComponent(deckToAnki(deck.cards, deck.name, format))}`;
+    const link = document.createElement('a');
+    link.href = dataUri;
+    link.download = `${deck.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-flashcards.${format}`;
+    link.click();
+  };
+
+  /**
+   * Starts studying the due cards of a deck
+   */
+  const startStudy = (deck: Deck): void => {
+    setNow(Date.now());
+    setShowBack(false);
+    setStudyDeckId(deck.id);
+  };
+
+  // Keyboard shortcuts while studying: space reveals the answer, 1-4 grade it
+  useEffect(() => {
+    if (!currentCard) return;
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      if (!showBack && (event.key === ' ' || event.key === 'Enter')) {
+        event.preventDefault();
+        setShowBack(true);
+      } else if (showBack && GRADE_OPTIONS[Number(event.key) - 1]) {
+        handleGrade(GRADE_OPTIONS[Number(event.key) - 1].grade);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Empty state
+  if (documents.length === 0 && decks.length === 0) {
+    return (
+      <div className="p-8 text-center dark:bg-dark-background dark:text-dark-text-secondary">
+        <Layers className="h-16 w-16 text-gray-300 dark:text-dark-text-secondary mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-dark-text mb-2">
+          No Documents Available
+        </h3>
+        <p className="text-gray-500 dark:text-dark-text-secondary">
+          Upload documents in the Content Input tab to create flashcards.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-10 dark:bg-dark-background dark:text-dark-text rounded-lg space-y-8">
+      {/* Header */}
+      <div className="mb-10">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-dark-text mb-3">Flashcards</h2>
+        <p className="text-gray-600 dark:text-dark-text-secondary text-lg">
+          Turn documents into flashcards and review them with spaced repetition.
+          {decks.length > 0 && ` ${totalDue} ${totalDue === 1 ? 'card is' : 'cards are'} due now.`}
+        </p>
+      </div>
+
+      {studyDeck ? (
+        /* Study View */
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
+              {studyDeck.name}
+              <span className="ml-3 text-sm font-normal text-gray-500 dark:text-dark-text-secondary">
+                {dueCards(studyDeck, now).length} due
+              </span>
+            </h3>
+            <button onClick={() => setStudyDeckId(null)} className={SECONDARY_BUTTON_CLASS}>
+              <X className="h-4 w-4" />
+              <span>End session</span>
+            </button>
+          </div>
+
+          {currentCard ? (
+            <div className="space-y-4">
+              <div className="rounded-lg border border-gray-200 dark:border-dark-input-border">
+                <div className="p-6">
+                  <div className="text-xs uppercase tracking-wide text-gray-500 dark:text-dark-text-secondary mb-2">Front</div>
+                  <LaTeXRenderer content={currentCard.front} className="max-w-none text-lg" />
+                </div>
+                {showBack && (
+                  <div className="p-6 border-t border-gray-200 dark:border-dark-input-border">
+                    <div className="text-xs uppercase tracking-wide text-gray-500 dark:text-dark-text-secondary mb-2">Back</div>
+                    <LaTeXRenderer content={currentCard.back} className="max-w-none" />
+                  </div>
+                )}
+              </div>
+
+              {showBack ? (
+                <div className="grid grid-cols-4 gap-3">
+                  {GRADE_OPTIONS.map(({ grade, label }, index) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      title={`Shortcut: ${index + 1}`}
+                      className={`px-4 py-3 rounded-lg text-white transition-colors ${GRADE_CLASSES[grade]}`}
+                    >
+                      <div className="font-medium">{label}</div>
+                      <div className="text-xs opacity-80">
+                        {formatWait(reviewCard(currentCard.schedule, grade, now).due, now)}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowBack(true)}
+                  className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Eye className="h-4 w-4" />
+                  <span>Show answer (Space)</span>
+                </button>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleDeleteCard}
+                  className="flex items-center space-x-1 text-sm text-gray-500 hover:text-red-600 dark:text-dark-text-secondary dark:hover:text-red-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Delete this card</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="p-8 text-center rounded-lg bg-green-50 border border-green-200 dark:bg-green-900/30 dark:border-green-700">
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-3" />
+              <p className="font-medium text-gray-900 dark:text-dark-text">All caught up.</p>
+              {studyDeck.cards.length > 0 && (
+                <p className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                  Next review in {formatWait(Math.min(...studyDeck.cards.map((card) => card.schedule.due)), now)}.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+          {/* Generation Controls */}
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+                Select Document
+              </label>
+              <select
+                value={selectedDoc}
+                onChange={(e) => setSelectedDoc(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+              >
+                <option value="">Choose a document...</option>
+                {documents.map((doc) => (
+                  <option key={doc.id} value={doc.id}>
+                    {doc.name} ({doc.content.length} chars)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+                Number of Cards
+              </label>
+              <select
+                value={cardCount}
+                onChange={(e) => setCardCount(Number(e.target.value))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+              >
+                {CARD_COUNTS.map((count) => (
+                  <option key={count} value={count}>
+                    {count} cards
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              onClick={handleGenerate}
+              disabled={!selectedDoc || isGenerating}
+              className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {isGenerating ? (
+                <>
+                  <Loader className="h-4 w-4 animate-spin" />
+                  <span>Generating Cards...</span>
+                </>
+              ) : (
+                <>
+                  <Layers className="h-4 w-4" />
+                  <span>
+                    {decks.some((deck) => deck.documentId === selectedDoc) ? 'Add Cards to Deck' : 'Generate Flashcards'}
+                  </span>
+                </>
+              )}
+            </button>
+
+            {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+
+            {/* Error Message */}
+            {error && (
+              <div
+                className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
+                role="alert"
+              >
+                <strong className="font-bold">Error: </strong>
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Deck List */}
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text mb-4">Decks</h3>
+            {decks.length === 0 ? (
+              <p className="text-gray-500 dark:text-dark-text-secondary">
+                Generate flashcards from a document to create its deck.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {decks.map((deck) => {
+                  const due = dueCards(deck, now).length;
+                  const unseen = deck.cards.filter((card) => card.schedule.lastReviewed === undefined).length;
+                  const nextDue = deck.cards.length ? Math.min(...deck.cards.map((card) => card.schedule.due)) : null;
+                  return (
+                    <li
+                      key={deck.id}
+                      className="p-4 rounded-lg border border-gray-200 dark:border-dark-input-border dark:bg-dark-surface"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate text-gray-900 dark:text-dark-text">{deck.name}</div>
+                          <div className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                            {deck.cards.length} cards, {unseen} new
+                            {due === 0 && nextDue !== null && `, next review in ${formatWait(nextDue, now)}`}
+                          </div>
+                        </div>
+                        <span
+                          className={`flex-shrink-0 px-2.5 py-0.5 rounded-full text-sm font-medium ${due > 0
+                            ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                            : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {due} due
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        <button
+                          onClick={() => startStudy(deck)}
+                          disabled={due === 0}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Play className="h-4 w-4" />
+                          <span>Study</span>
+                        </button>
+                        {(['csv', 'tsv'] as DeckFormat[]).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => handleExport(deck, format)}
+                            disabled={deck.cards.length === 0}
+                            title="Export for Anki"
+                            className={SECONDARY_BUTTON_CLASS}
+                          >
+                            <Download className="h-4 w-4" />
+                            <span>{format.toUpperCase()}</span>
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => handleDeleteDeck(deck)}
+                          aria-label={`Delete deck ${deck.name}`}
+                          className="ml-auto p-1.5 text-gray-500 hover:text-red-600 dark:text-dark-text-secondary dark:hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardPanel;
@@ -0,0 +1,181 @@
+/**
+ * Glossary Editor Component
+ *
+ * Manages the translation glossary of each target language: terms can be
+ * added and removed by hand, or imported from and exported to CSV files with
+ * a `source,target` row per term.
+ */
+
+import React, { useRef, useState } from 'react';
+import { BookMarked, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { GlossaryEntry } from '../api';
+import { glossaryToCsv, mergeGlossary, parseGlossaryCsv } from '../utils/glossary';
+
+/** A language the glossary can be edited for */
+interface GlossaryLanguage {
+  code: string;
+  name: string;
+}
+
+/** Component props */
+interface GlossaryEditorProps {
+  languages: GlossaryLanguage[];
+  /** Glossary entries by language code */
+  glossaries: Record<string, GlossaryEntry[]>;
+  onChange: (language: string, entries: GlossaryEntry[]) => void;
+  /** Language shown first, e.g. the first selected target language */
+  initialLanguage?: string;
+}
+
+/** Text input styling */
+const INPUT_CLASS_NAME =
+  'min-w-0 flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text';
+
+/** Small outlined button styling */
+const BUTTON_CLASS_NAME =
+  'flex items-center space-x-1 px-2 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-surface';
+
+/**
+ * Glossary Editor Component
+ */
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ languages, glossaries, onChange, initialLanguage }) => {
+  const [language, setLanguage] = useState<string>(initialLanguage ?? languages[0]?.code ?? '');
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const entries = glossaries[language] ?? [];
+  const languageName = languages.find((lang) => lang.code === language)?.name ?? language;
+
+  /**
+   * Adds the typed term, replacing an existing entry for the same source term
+   */
+  const handleAdd = (event: React.FormEvent): void => {
+    event.preventDefault();
+    if (!source.trim() || !target.trim()) return;
+
+    onChange(language, mergeGlossary(entries, [{ source: source.trim(), target: target.trim() }]));
+    setSource('');
+    setTarget('');
+    setMessage(null);
+  };
+
+  /**
+   * Merges the terms of a CSV file into the glossary
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      if (imported.length === 0) {
+        setMessage(`No terms found in ${file.name}. Expected rows of source,target.`);
+        return;
+      }
+      onChange(language, mergeGlossary(entries, imported));
+      setMessage(`Imported ${imported.length} terms from ${file.name}.`);
+    } catch (err) {
+      console.error('Glossary import failed:', err);
+      setMessage(`Could not read ${file.name}.`);
+    }
+  };
+
+  /**
+   * Downloads the glossary as a CSV file
+   */
+  const handleExport = (): void => {
+    const dataUri = `data:text/csv;charset=utf-8,${encodeURIComponent(glossaryToCsv(entries))}`;
+    const link = document.createElement('a');
+    link.href = dataUri;
+    link.download = `glossary-${language}.csv`;
+    link.click();
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 dark:border-dark-input-border">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <BookMarked className="h-5 w-5 text-blue-600 dark:text-blue-300" />
+          <h3 className="font-semibold text-gray-900 dark:text-dark-text">Glossary</h3>
+        </div>
+        <select
+          value={language}
+          onChange={(e) => {
+            setLanguage(e.target.value);
+            setMessage(null);
+          }}
+          aria-label="Glossary language"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+        >
+          {languages.map((lang) => (
+            <option key={lang.code} value={lang.code}>
+              {lang.name} ({glossaries[lang.code]?.length ?? 0})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+        Terms are always translated into {languageName} exactly as listed.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Term, e.g. eigenvalue"
+          aria-label="Source term"
+          className={INPUT_CLASS_NAME}
+        />
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={`${languageName} translation`}
+          aria-label="Required translation"
+          className={INPUT_CLASS_NAME}
+        />
+        <button type="submit" disabled={!source.trim() || !target.trim()} className={BUTTON_CLASS_NAME} title="Add term">
+          <Plus className="h-4 w-4" />
+        </button>
+      </form>
+
+      {entries.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-200 text-sm dark:divide-dark-input-border">
+          {entries.map((entry) => (
+            <li key={entry.source} className="flex items-center gap-2 py-1.5">
+              <span className="flex-1 truncate text-gray-900 dark:text-dark-text">{entry.source}</span>
+              <span className="text-gray-400">→</span>
+              <span className="flex-1 truncate text-gray-900 dark:text-dark-text">{entry.target}</span>
+              <button
+                onClick={() => onChange(language, entries.filter((e) => e !== entry))}
+                aria-label={`Remove ${entry.source}`}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className={BUTTON_CLASS_NAME}>
+          <Upload className="h-4 w-4" />
+          <span>Import CSV</span>
+        </button>
+        <button onClick={handleExport} disabled={entries.length === 0} className={BUTTON_CLASS_NAME}>
+          <Download className="h-4 w-4" />
+          <span>Export CSV</span>
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && <p className="text-sm text-gray-600 dark:text-dark-text-secondary">{message}</p>}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
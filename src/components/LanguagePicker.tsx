@@ -0,0 +1,156 @@
+/**
+ * Language Picker Component
+ *
+ * Searchable picker for BCP-47 languages. Suggested languages are listed by
+ * English and native name; any other valid tag, such as `sr-Latn` or `gsw`,
+ * can be typed. Picks one language or, with `multiple`, several shown as chips.
+ */
+
+import React, { useId, useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { languageName, searchLanguages } from '../utils/languages';
+
+/** Component props */
+interface LanguagePickerProps {
+  /** Selected BCP-47 tags */
+  value: string[];
+  onChange: (value: string[]) => void;
+  /** Allow several languages; otherwise picking replaces the selection */
+  multiple?: boolean;
+  placeholder?: string;
+  /** Accessible name of the search box */
+  label: string;
+}
+
+/** Maximum options listed at once */
+const MAX_OPTIONS = 60;
+
+/**
+ * Language Picker Component
+ */
+const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  value,
+  onChange,
+  multiple = false,
+  placeholder = 'Search languages or type a tag, e.g. pt-BR',
+  label,
+}) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+
+  const options = useMemo(() => searchLanguages(query).slice(0, MAX_OPTIONS), [query]);
+
+  /**
+   * Adds or removes a language, or replaces the selection in single mode
+   */
+  const pick = (code: string): void => {
+    if (multiple) {
+      onChange(value.includes(code) ? value.filter((selected) => selected !== code) : [...value, code]);
+    } else {
+      onChange([code]);
+      setIsOpen(false);
+    }
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setIsOpen(true);
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((prev) => (prev + step + options.length) % Math.max(options.length, 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (isOpen && options[activeIndex]) pick(options[activeIndex].code);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    } else if (event.key === 'Backspace' && !query && multiple && value.length) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 dark:bg-dark-input-bg dark:border-dark-input-border">
+        {multiple &&
+          value.map((code) => (
+            <span
+              key={code}
+              className="flex items-center space-x-1 px-2 py-0.5 text-sm rounded-full bg-blue-50 text-blue-700 border border-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:border-blue-700"
+            >
+              <span>{languageName(code)}</span>
+              <button onClick={() => pick(code)} aria-label={`Remove ${languageName(code)}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        <div className="flex flex-1 items-center min-w-[10rem]">
+          <Search className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setIsOpen(true);
+              setActiveIndex(0);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setIsOpen(false)}
+            onKeyDown={handleKeyDown}
+            placeholder={!multiple && value[0] ? languageName(value[0]) : placeholder}
+            role="combobox"
+            aria-label={label}
+            aria-expanded={isOpen}
+            aria-controls={listId}
+            aria-activedescendant={isOpen && options[activeIndex] ? `${listId}-${options[activeIndex].code}` : undefined}
+            className="flex-1 bg-transparent text-sm focus:outline-none dark:text-dark-text dark:placeholder-dark-text-secondary"
+          />
+        </div>
+      </div>
+
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-multiselectable={multiple}
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg dark:bg-dark-surface dark:border-dark-input-border"
+        >
+          {options.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-500 dark:text-dark-text-secondary">
+              No language matches "{query}"
+            </li>
+          )}
+          {options.map((option, index) => {
+            const selected = value.includes(option.code);
+            return (
+              <li
+                key={option.code}
+                id={`${listId}-${option.code}`}
+                role="option"
+                aria-selected={selected}
+                // Keep focus in the search box so the list stays open
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(option.code)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-gray-100 dark:bg-dark-input-bg' : ''
+                  } ${selected ? 'font-medium text-blue-700 dark:text-blue-300' : 'text-gray-900 dark:text-dark-text'}`}
+              >
+                <span>
+                  {option.name}
+                  {option.nativeName && (
+                    <span className="ml-2 text-gray-500 dark:text-dark-text-secondary">{option.nativeName}</span>
+                  )}
+                </span>
+                <span className="font-mono text-xs text-gray-400">{option.code}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePicker;
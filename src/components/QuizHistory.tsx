@@ -0,0 +1,258 @@
+/**
+ * Quiz History Component
+ *
+ * Lists submitted quiz attempts per quiz and per document with their scores
+ * and answer times, charts accuracy per topic, and offers a follow-up quiz on
+ * the topics of a document that were answered worst.
+ */
+
+import React, { useState } from 'react';
+import { BarChart3, ChevronDown, ChevronRight, RotateCcw, Target, Loader } from 'lucide-react';
+import LaTeXRenderer from './LaTeXRenderer';
+import {
+  formatDuration,
+  groupByQuiz,
+  QuizAttempt,
+  questionTopic,
+  topicStats,
+  weakTopics,
+  WEAK_TOPIC_ACCURACY,
+} from '../utils/quizHistory';
+
+/** Document data structure */
+interface Document {
+  id: string;
+  name: string;
+}
+
+/** Component props */
+interface QuizHistoryProps {
+  attempts: QuizAttempt[];
+  documents: Document[];
+  /** Whether a quiz is being generated */
+  isGenerating: boolean;
+  /** Starts another attempt at the quiz of an attempt */
+  onRetake: (attempt: QuizAttempt) => void;
+  /** Generates a quiz on a document that focuses on the given topics */
+  onPracticeTopics: (documentId: string, topics: string[]) => void;
+}
+
+/** Accuracy at or above which a topic counts as mastered */
+const STRONG_TOPIC_ACCURACY = 0.85;
+
+/**
+ * Returns the bar color of a topic's accuracy
+ */
+function accuracyBarClass(accuracy: number): string {
+  if (accuracy < WEAK_TOPIC_ACCURACY) return 'bg-red-500';
+  if (accuracy < STRONG_TOPIC_ACCURACY) return 'bg-amber-500';
+  return 'bg-green-500';
+}
+
+/**
+ * Quiz History Component
+ */
+const QuizHistory: React.FC<QuizHistoryProps> = ({
+  attempts,
+  documents,
+  isGenerating,
+  onRetake,
+  onPracticeTopics,
+}) => {
+  const [documentFilter, setDocumentFilter] = useState<string>('');
+  const [expandedQuiz, setExpandedQuiz] = useState<string | null>(null);
+
+  if (attempts.length === 0) return null;
+
+  /** Documents with attempts, named as when they were quizzed */
+  const attemptDocuments = [...new Map(attempts.map((attempt) => [attempt.documentId, attempt.documentName]))];
+  const filtered = documentFilter
+    ? attempts.filter((attempt) => attempt.documentId === documentFilter)
+    : attempts;
+  const quizzes = groupByQuiz(filtered);
+  const topics = topicStats(filtered);
+  const weak = documentFilter ? weakTopics(filtered) : [];
+  const documentAvailable = documents.some((doc) => doc.id === documentFilter);
+
+  const averageScore = Math.round(filtered.reduce((sum, attempt) => sum + attempt.score, 0) / filtered.length);
+  const answerTimes = filtered.flatMap((attempt) => Object.values(attempt.timings ?? {}));
+  const averageTime = answerTimes.length
+    ? answerTimes.reduce((sum, time) => sum + time, 0) / answerTimes.length
+    : null;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 pt-8 border-t border-gray-200 dark:border-dark-input-border">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text flex items-center space-x-2">
+          <BarChart3 className="h-5 w-5" />
+          <span>Quiz History</span>
+        </h3>
+        <select
+          value={documentFilter}
+          onChange={(e) => setDocumentFilter(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+        >
+          <option value="">All documents</option>
+          {attemptDocuments.map(([id, name]) => (
+            <option key={id} value={id}>
+              {name || 'Untitled document'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {[
+          { label: 'Attempts', value: String(filtered.length) },
+          { label: 'Average score', value: `${averageScore}%` },
+          { label: 'Time per question', value: averageTime === null ? '–' : formatDuration(averageTime) },
+        ].map(({ label, value }) => (
+          <div key={label} className="p-3 rounded-lg bg-gray-50 dark:bg-dark-surface">
+            <div className="text-2xl font-semibold text-gray-900 dark:text-dark-text">{value}</div>
+            <div className="text-sm text-gray-500 dark:text-dark-text-secondary">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Topic Accuracy */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-3">Accuracy by topic</h4>
+        <div className="space-y-2">
+          {topics.map(({ topic, correct, total, accuracy }) => (
+            <div key={topic} className="grid grid-cols-12 items-center gap-3 text-sm">
+              <div className="col-span-4 truncate text-gray-900 dark:text-dark-text" title={topic}>
+                {topic}
+              </div>
+              <div className="col-span-6 h-3 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${accuracyBarClass(accuracy)}`}
+                  style={{ width: `${Math.max(accuracy * 100, 2)}%` }}
+                />
+              </div>
+              <div className="col-span-2 text-right text-gray-600 dark:text-dark-text-secondary">
+                {Math.round(accuracy * 100)}% ({correct}/{total})
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Weak Topics */}
+      {documentFilter ? (
+        weak.length > 0 ? (
+          <div className="p-4 rounded-lg bg-red-50 border border-red-200 dark:bg-red-900/30 dark:border-red-700 space-y-3">
+            <div className="text-sm text-gray-700 dark:text-dark-text-secondary">
+              Topics below {Math.round(WEAK_TOPIC_ACCURACY * 100)}% accuracy:
+              <span className="font-medium text-gray-900 dark:text-dark-text"> {weak.join(', ')}</span>
+            </div>
+            <button
+              onClick={() => onPracticeTopics(documentFilter, weak)}
+              disabled={!documentAvailable || isGenerating}
+              title={documentAvailable ? undefined : 'The document is no longer in the workspace'}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text flex items-center space-x-2"
+            >
+              {isGenerating ? <Loader className="h-4 w-4 animate-spin" /> : <Target className="h-4 w-4" />}
+              <span>New Quiz on Weak Topics</span>
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+            No weak topics: every topic is at {Math.round(WEAK_TOPIC_ACCURACY * 100)}% accuracy or better.
+          </p>
+        )
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+          Select a document to generate a quiz on its weak topics.
+        </p>
+      )}
+
+      {/* Quizzes */}
+      <ul className="space-y-3">
+        {quizzes.map((quizAttempts) => {
+          const latest = quizAttempts[quizAttempts.length - 1];
+          const isExpanded = expandedQuiz === latest.quizId;
+          const Chevron = isExpanded ? ChevronDown : ChevronRight;
+          return (
+            <li
+              key={latest.quizId}
+              className="rounded-lg border border-gray-200 dark:border-dark-input-border dark:bg-dark-surface"
+            >
+              <div className="flex items-center justify-between gap-3 p-4">
+                <button
+                  onClick={() => setExpandedQuiz(isExpanded ? null : latest.quizId)}
+                  className="flex items-start space-x-2 text-left min-w-0"
+                >
+                  <Chevron className="h-5 w-5 mt-0.5 flex-shrink-0 text-gray-500" />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate text-gray-900 dark:text-dark-text">
+                      {latest.documentName || 'Untitled document'}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-dark-text-secondary capitalize">
+                      {latest.questions.length} questions, {latest.difficulty},{' '}
+                      {new Date(latest.submittedAt).toLocaleDateString()}
+                    </div>
+                    <div className="text-sm text-gray-700 dark:text-dark-text-secondary">
+                      {quizAttempts.map((attempt) => `${attempt.score}%`).join(' → ')}
+                    </div>
+                  </div>
+                </button>
+                <button
+                  onClick={() => onRetake(latest)}
+                  className="flex-shrink-0 flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-background"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Retake</span>
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="px-4 pb-4 space-y-4">
+                  {quizAttempts.map((attempt, attemptIndex) => (
+                    <div key={attempt.id}>
+                      <div className="text-sm font-medium text-gray-900 dark:text-dark-text mb-2">
+                        Attempt {attemptIndex + 1}: {attempt.score}%
+                        <span className="font-normal text-gray-500 dark:text-dark-text-secondary">
+                          {' '}
+                          on {new Date(attempt.submittedAt).toLocaleString()}
+                          {attempt.durationMs !== undefined && ` in ${formatDuration(attempt.durationMs)}`}
+                        </span>
+                      </div>
+                      <ol className="space-y-1">
+                        {attempt.questions.map((question, index) => {
+                          const correct = attempt.grades[question.id]?.correct;
+                          const time = attempt.timings?.[question.id];
+                          return (
+                            <li key={question.id} className="grid grid-cols-12 gap-2 items-start text-sm">
+                              <span
+                                className={`col-span-1 font-medium ${correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                              >
+                                {correct ? '✓' : '✗'} {index + 1}
+                              </span>
+                              <div className="col-span-7 text-gray-700 dark:text-dark-text-secondary">
+                                <LaTeXRenderer content={question.question ?? ''} className="max-w-none" />
+                              </div>
+                              <span className="col-span-3 truncate text-gray-500 dark:text-dark-text-secondary">
+                                {questionTopic(question)}
+                              </span>
+                              <span className="col-span-1 text-right text-gray-500 dark:text-dark-text-secondary">
+                                {time === undefined ? '–' : formatDuration(time)}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default QuizHistory;
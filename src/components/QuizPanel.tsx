@@ -2,13 +2,22 @@
  * Quiz Panel Component
  *
  * Generates interactive quizzes from document content.
- * Supports customizable question count and difficulty levels.
+ * Supports customizable question count and difficulty levels, and a mix of
+ * question types. Objective answers are graded locally; short free-text
+ * answers are graded by the model on submit. Each submitted attempt is saved
+ * to the workspace database with its answers and the time spent on each
+ * question, and added to the quiz's result. Quizzes can be retaken, and the
+ * history of attempts leads to follow-up quizzes on weak topics.
  */
 
-import React, { useState } from 'react';
-import { FileText, Loader, CheckCircle, Settings } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, Loader, CheckCircle, Settings, CheckSquare, Square, RotateCcw } from 'lucide-react';
 import LaTeXRenderer from './LaTeXRenderer';
-import { generateQuiz } from '../api';
+import QuizHistory from './QuizHistory';
+import { generateQuiz, gradeAnswers, NumericQuestion, QuestionType, QuizQuestion } from '../api';
+import { QuizAnswer, getQuestionType, gradeAnswer } from '../utils/quizGrading';
+import { calculateScore, Difficulty, QuestionGrade, QuizAttempt } from '../utils/quizHistory';
+import { getAllRecords, putRecord } from '../utils/workspaceDb';
 
 /** Document data structure */
 interface Document {
@@ -21,77 +30,170 @@ interface Document {
 /** Component props */
 interface QuizPanelProps {
   documents: Document[];
-  onResult: (type: string, title: string, content: unknown) => void;
+  /** Saves a result and returns its ID */
+  onResult: (type: string, title: string, content: unknown) => string;
+  /** Replaces the content of a saved result */
+  onUpdateResult: (id: string, content: unknown) => void;
 }
 
-/** Quiz question structure */
-interface QuizQuestion {
-  id: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  explanation: string;
+/** An attempt as listed in a quiz result */
+type ResultAttempt = Pick<QuizAttempt, 'answers' | 'grades' | 'score' | 'timings' | 'durationMs' | 'submittedAt'>;
+
+/** Content of a saved quiz result */
+interface QuizResultContent {
+  documentName: string;
+  quiz: { questions: QuizQuestion[] };
+  questionCount: number;
+  difficulty: Difficulty;
+  questionTypes: QuestionType[];
+  /** Weak topics the quiz focuses on, empty for a general quiz */
+  focusTopics: string[];
+  attempts: ResultAttempt[];
 }
 
-/** Quiz data structure */
+/** Quiz being taken */
 interface Quiz {
+  id: string;
+  documentId: string;
+  documentName: string;
+  difficulty: Difficulty;
   questions: QuizQuestion[];
+  /** Saved result, updated with every attempt; absent when retaken from the history */
+  result?: { id: string; content: QuizResultContent };
 }
 
-/** Difficulty level type */
-type Difficulty = 'easy' | 'medium' | 'hard';
-
 /** Available question count options */
 const QUESTION_COUNTS = [3, 5, 10, 15, 20];
 
 /** Available difficulty levels */
 const DIFFICULTY_OPTIONS: Difficulty[] = ['easy', 'medium', 'hard'];
 
+/** Question type configuration */
+interface QuestionTypeOption {
+  value: QuestionType;
+  label: string;
+  description: string;
+}
+
+/** Available question types */
+const QUESTION_TYPE_OPTIONS: QuestionTypeOption[] = [
+  { value: 'multiple-choice', label: 'Multiple Choice', description: 'One correct option of four' },
+  { value: 'true-false', label: 'True / False', description: 'Judge a statement' },
+  { value: 'multi-select', label: 'Multi-Select', description: 'Pick every correct option' },
+  { value: 'fill-blank', label: 'Fill in the Blank', description: 'Type the missing term' },
+  { value: 'numeric', label: 'Numeric', description: 'Calculate a value within tolerance' },
+  { value: 'short-answer', label: 'Short Answer', description: 'Free text graded by AI' },
+];
+
+/** Shared text input styling */
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-75 dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text';
+
+/**
+ * Formats a numeric question's answer, tolerance and unit as inline LaTeX
+ */
+function formatNumericAnswer({ numericAnswer, tolerance, unit }: NumericQuestion): string {
+  const range = tolerance ? ` \\pm ${tolerance}` : '';
+  const suffix = unit ? `\\ ${unit}` : '';
+  return `$${numericAnswer}${range}${suffix}$`;
+}
+
 /**
  * Quiz Panel Component
  */
-const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
+const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult, onUpdateResult }) => {
   const [selectedDoc, setSelectedDoc] = useState<string>('');
   const [questionCount, setQuestionCount] = useState<number>(5);
   const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(['multiple-choice']);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null);
-  const [userAnswers, setUserAnswers] = useState<Record<string, number>>({});
+  const [userAnswers, setUserAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [grades, setGrades] = useState<Record<string, QuestionGrade>>({});
   const [showResults, setShowResults] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+
+  /** When the current attempt started */
+  const startedAt = useRef(0);
+  /** Question being worked on and since when */
+  const activeQuestion = useRef<{ id: string; since: number } | null>(null);
+  /** Milliseconds spent on each question of the current attempt */
+  const timings = useRef<Record<string, number>>({});
+
+  // Restore the attempt history
+  useEffect(() => {
+    getAllRecords<QuizAttempt>('quizAttempts')
+      .then(setAttempts)
+      .catch((err) => console.warn('Failed to restore quiz attempts:', err));
+  }, []);
 
   /**
-   * Generates a quiz from the selected document
+   * Shows a quiz with blank answers and starts timing the attempt
    */
-  const handleGenerateQuiz = async (): Promise<void> => {
-    if (!selectedDoc) return;
+  const startAttempt = (quiz: Quiz): void => {
+    setCurrentQuiz(quiz);
+    setUserAnswers({});
+    setGrades({});
+    setShowResults(false);
+    setError(null);
+    startedAt.current = Date.now();
+    activeQuestion.current = null;
+    timings.current = {};
+  };
 
-    const document = documents.find((doc) => doc.id === selectedDoc);
+  /**
+   * Generates a quiz from a document
+   * @param documentId - Document to quiz, the selected one by default
+   * @param focusTopics - Weak topics to concentrate on
+   */
+  const handleGenerateQuiz = async (documentId: string = selectedDoc, focusTopics: string[] = []): Promise<void> => {
+    const document = documents.find((doc) => doc.id === documentId);
     if (!document) return;
 
     setIsGenerating(true);
+    setSelectedDoc(document.id);
     setCurrentQuiz(null);
     setUserAnswers({});
+    setGrades({});
     setShowResults(false);
 
     try {
-      const response = await generateQuiz(document.id, document.content, questionCount, difficulty);
+      const response = await generateQuiz(
+        document.id,
+        document.content,
+        questionCount,
+        difficulty,
+        questionTypes,
+        focusTopics
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Quiz generation failed');
       }
 
       const quiz = response.data.quiz;
-      setCurrentQuiz(quiz);
-
-      onResult('quiz', `${document.name} - Quiz (${questionCount} questions)`, {
+      const content: QuizResultContent = {
         documentName: document.name,
         quiz,
         questionCount,
         difficulty,
+        questionTypes,
+        focusTopics,
+        attempts: [],
+      };
+      const title = focusTopics.length ? 'Weak Topics Quiz' : 'Quiz';
+      const resultId = onResult('quiz', `${document.name} - ${title} (${questionCount} questions)`, content);
+
+      startAttempt({
+        id: Date.now().toString(),
+        documentId: document.id,
+        documentName: document.name,
+        difficulty,
+        questions: quiz.questions,
+        result: { id: resultId, content },
       });
-
-      setError(null);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to generate quiz';
       setError(message);
@@ -101,26 +203,156 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
   };
 
   /**
-   * Records user's answer selection
+   * Toggles a question type in the quiz mix, keeping at least one selected
+   */
+  const toggleQuestionType = (type: QuestionType): void => {
+    setQuestionTypes((prev) => {
+      if (!prev.includes(type)) return [...prev, type];
+      return prev.length > 1 ? prev.filter((selected) => selected !== type) : prev;
+    });
+  };
+
+  /**
+   * Adds the time since the active question was entered to its answer time
+   */
+  const stopTiming = (): void => {
+    const active = activeQuestion.current;
+    if (!active) return;
+    timings.current[active.id] = (timings.current[active.id] ?? 0) + Date.now() - active.since;
+    activeQuestion.current = null;
+  };
+
+  /**
+   * Starts timing a question when it is focused or pressed
+   *
+   * All questions are shown at once, so a question is timed from when the
+   * learner enters it until focus leaves it or another question is entered.
+   */
+  const startTiming = (questionId: string): void => {
+    if (showResults || activeQuestion.current?.id === questionId) return;
+    stopTiming();
+    activeQuestion.current = { id: questionId, since: Date.now() };
+  };
+
+  /**
+   * Records user's answer
    */
-  const handleAnswerSelect = (questionId: string, answerIndex: number): void => {
-    setUserAnswers((prev) => ({ ...prev, [questionId]: answerIndex }));
+  const handleAnswerChange = (questionId: string, answer: QuizAnswer): void => {
+    setUserAnswers((prev) => ({ ...prev, [questionId]: answer }));
   };
 
   /**
-   * Calculates the quiz score as a percentage
+   * Adds or removes an option from a multi-select answer
    */
-  const calculateScore = (): number => {
-    if (!currentQuiz) return 0;
+  const handleOptionToggle = (questionId: string, optionIndex: number): void => {
+    setUserAnswers((prev) => {
+      const selected = Array.isArray(prev[questionId]) ? (prev[questionId] as number[]) : [];
+      const next = selected.includes(optionIndex)
+        ? selected.filter((index) => index !== optionIndex)
+        : [...selected, optionIndex];
+      return { ...prev, [questionId]: next };
+    });
+  };
+
+  /**
+   * Grades every answer, asking the model to grade short free-text answers
+   */
+  const handleSubmit = async (): Promise<void> => {
+    if (!currentQuiz) return;
+
+    stopTiming();
+    const submittedAt = new Date();
+    const nextGrades: Record<string, QuestionGrade> = {};
 
-    let correct = 0;
     currentQuiz.questions.forEach((question) => {
-      if (userAnswers[question.id] === question.correctAnswer) {
-        correct++;
-      }
+      const correct = gradeAnswer(question, userAnswers[question.id]);
+      if (correct !== null) nextGrades[question.id] = { correct };
     });
 
-    return Math.round((correct / currentQuiz.questions.length) * 100);
+    const shortAnswers = currentQuiz.questions.flatMap((question) =>
+      question.type === 'short-answer'
+        ? [
+            {
+              id: question.id,
+              question: question.question,
+              sampleAnswer: question.sampleAnswer,
+              answer: String(userAnswers[question.id] ?? ''),
+            },
+          ]
+        : []
+    );
+
+    if (shortAnswers.length > 0) {
+      setIsGrading(true);
+
+      try {
+        const response = await gradeAnswers(currentQuiz.documentId, shortAnswers);
+
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Grading failed');
+        }
+
+        response.data.grades.forEach(({ id, correct, feedback }) => {
+          nextGrades[id] = { correct, feedback };
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to grade answers';
+        setError(message);
+        return;
+      } finally {
+        setIsGrading(false);
+      }
+    }
+
+    setGrades(nextGrades);
+    setShowResults(true);
+    setError(null);
+
+    const attempt: QuizAttempt = {
+      id: Date.now().toString(),
+      quizId: currentQuiz.id,
+      documentId: currentQuiz.documentId,
+      documentName: currentQuiz.documentName,
+      difficulty: currentQuiz.difficulty,
+      questions: currentQuiz.questions,
+      answers: userAnswers,
+      grades: nextGrades,
+      score: calculateScore(currentQuiz.questions, nextGrades),
+      timings: { ...timings.current },
+      durationMs: submittedAt.getTime() - startedAt.current,
+      submittedAt,
+    };
+    setAttempts((prev) => [...prev, attempt]);
+    putRecord('quizAttempts', attempt).catch((err) =>
+      console.warn('Failed to save quiz attempt:', err)
+    );
+
+    if (currentQuiz.result) {
+      const { answers, grades: attemptGrades, score, timings: attemptTimings, durationMs } = attempt;
+      const content: QuizResultContent = {
+        ...currentQuiz.result.content,
+        attempts: [
+          ...currentQuiz.result.content.attempts,
+          { answers, grades: attemptGrades, score, timings: attemptTimings, durationMs, submittedAt },
+        ],
+      };
+      onUpdateResult(currentQuiz.result.id, content);
+      setCurrentQuiz({ ...currentQuiz, result: { ...currentQuiz.result, content } });
+    }
+  };
+
+  /**
+   * Starts another attempt at a quiz from the history
+   */
+  const handleRetake = (attempt: QuizAttempt): void => {
+    setSelectedDoc(documents.some((doc) => doc.id === attempt.documentId) ? attempt.documentId : '');
+    startAttempt({
+      id: attempt.quizId,
+      documentId: attempt.documentId,
+      documentName: attempt.documentName,
+      difficulty: attempt.difficulty,
+      questions: attempt.questions,
+    });
   };
 
   /**
@@ -129,19 +361,14 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
   const resetQuiz = (): void => {
     setCurrentQuiz(null);
     setUserAnswers({});
+    setGrades({});
     setShowResults(false);
   };
 
   /**
    * Returns button styling based on answer state
    */
-  const getAnswerButtonClass = (
-    questionId: string,
-    optionIndex: number,
-    correctAnswer: number
-  ): string => {
-    const isSelected = userAnswers[questionId] === optionIndex;
-    const isCorrect = optionIndex === correctAnswer;
+  const getAnswerButtonClass = (isSelected: boolean, isCorrect: boolean): string => {
     const baseClass = 'w-full p-3 text-left rounded-lg border transition-colors ';
 
     if (showResults) {
@@ -159,6 +386,150 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
       : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-input-bg dark:text-dark-text');
   };
 
+  /**
+   * Renders the answer controls for a question
+   */
+  const renderAnswerInput = (question: QuizQuestion): React.ReactNode => {
+    const answer = userAnswers[question.id];
+
+    switch (question.type) {
+      case 'true-false':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            {[true, false].map((value) => (
+              <button
+                key={String(value)}
+                onClick={() => handleAnswerChange(question.id, value)}
+                disabled={showResults}
+                className={getAnswerButtonClass(answer === value, value === question.isTrue)}
+              >
+                {value ? 'True' : 'False'}
+              </button>
+            ))}
+          </div>
+        );
+
+      case 'multi-select': {
+        const selected = Array.isArray(answer) ? answer : [];
+        return (
+          <div className="space-y-3">
+            <div className="text-sm text-gray-500 dark:text-dark-text-secondary">
+              Select all that apply.
+            </div>
+            {question.options.map((option, optionIndex) => {
+              const isSelected = selected.includes(optionIndex);
+              const CheckIcon = isSelected ? CheckSquare : Square;
+              return (
+                <button
+                  key={optionIndex}
+                  onClick={() => handleOptionToggle(question.id, optionIndex)}
+                  disabled={showResults}
+                  className={getAnswerButtonClass(
+                    isSelected,
+                    question.correctAnswers.includes(optionIndex)
+                  )}
+                >
+                  <div className="flex items-center space-x-3">
+                    <CheckIcon className="h-4 w-4 flex-shrink-0" />
+                    <LaTeXRenderer content={option ?? ''} />
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case 'fill-blank':
+        return (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={typeof answer === 'string' ? answer : ''}
+              onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+              disabled={showResults}
+              placeholder="Type the missing term..."
+              className={INPUT_CLASS}
+            />
+            {showResults && (
+              <div className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                Accepted answers: {question.acceptedAnswers.join(', ')}
+              </div>
+            )}
+          </div>
+        );
+
+      case 'numeric':
+        return (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-3">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={typeof answer === 'string' ? answer : ''}
+                onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                disabled={showResults}
+                placeholder="Enter a number, e.g. 0.25 or 1/4"
+                className={INPUT_CLASS}
+              />
+              {question.unit && (
+                <span className="text-gray-700 dark:text-dark-text-secondary whitespace-nowrap">
+                  {question.unit}
+                </span>
+              )}
+            </div>
+            {showResults && (
+              <div className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                <LaTeXRenderer content={`Correct answer: ${formatNumericAnswer(question)}`} />
+              </div>
+            )}
+          </div>
+        );
+
+      case 'short-answer':
+        return (
+          <div className="space-y-2">
+            <textarea
+              value={typeof answer === 'string' ? answer : ''}
+              onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+              disabled={showResults}
+              rows={3}
+              placeholder="Write your answer..."
+              className={INPUT_CLASS}
+            />
+            {showResults && (
+              <div className="text-sm text-gray-600 dark:text-dark-text-secondary space-y-1">
+                {grades[question.id]?.feedback && (
+                  <LaTeXRenderer content={grades[question.id].feedback ?? ''} />
+                )}
+                <div className="font-medium">Sample answer:</div>
+                <LaTeXRenderer content={question.sampleAnswer} />
+              </div>
+            )}
+          </div>
+        );
+
+      default:
+        return (
+          <div className="space-y-3">
+            {question.options.map((option, optionIndex) => (
+              <button
+                key={optionIndex}
+                onClick={() => handleAnswerChange(question.id, optionIndex)}
+                disabled={showResults}
+                className={getAnswerButtonClass(
+                  answer === optionIndex,
+                  optionIndex === question.correctAnswer
+                )}
+              >
+                <LaTeXRenderer content={option ?? ''} />
+              </button>
+            ))}
+          </div>
+        );
+    }
+  };
+
   // Empty state
   if (documents.length === 0) {
     return (
@@ -188,92 +559,125 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
 
       {!currentQuiz ? (
         /* Configuration Panel */
-        <div className="max-w-2xl mx-auto space-y-6">
-          {/* Document Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-              Select Document
-            </label>
-            <select
-              value={selectedDoc}
-              onChange={(e) => setSelectedDoc(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
-            >
-              <option value="">Choose a document...</option>
-              {documents.map((doc) => (
-                <option key={doc.id} value={doc.id}>
-                  {doc.name} ({doc.content.length} chars)
-                </option>
-              ))}
-            </select>
-          </div>
-
-          {/* Quiz Options */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-12">
+          <div className="max-w-2xl mx-auto space-y-6">
+            {/* Document Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-                Number of Questions
+                Select Document
               </label>
               <select
-                value={questionCount}
-                onChange={(e) => setQuestionCount(Number(e.target.value))}
+                value={selectedDoc}
+                onChange={(e) => setSelectedDoc(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
               >
-                {QUESTION_COUNTS.map((count) => (
-                  <option key={count} value={count}>
-                    {count} Questions
+                <option value="">Choose a document...</option>
+                {documents.map((doc) => (
+                  <option key={doc.id} value={doc.id}>
+                    {doc.name} ({doc.content.length} chars)
                   </option>
                 ))}
               </select>
             </div>
 
+            {/* Quiz Options */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+                  Number of Questions
+                </label>
+                <select
+                  value={questionCount}
+                  onChange={(e) => setQuestionCount(Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+                >
+                  {QUESTION_COUNTS.map((count) => (
+                    <option key={count} value={count}>
+                      {count} Questions
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
+                  Difficulty Level
+                </label>
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
+                >
+                  {DIFFICULTY_OPTIONS.map((level) => (
+                    <option key={level} value={level}>
+                      {level.charAt(0).toUpperCase() + level.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Question Types */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-                Difficulty Level
+                Question Types
               </label>
-              <select
-                value={difficulty}
-                onChange={(e) => setDifficulty(e.target.value as Difficulty)}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
-              >
-                {DIFFICULTY_OPTIONS.map((level) => (
-                  <option key={level} value={level}>
-                    {level.charAt(0).toUpperCase() + level.slice(1)}
-                  </option>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {QUESTION_TYPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => toggleQuestionType(option.value)}
+                    className={`p-3 text-left rounded-lg border transition-colors ${questionTypes.includes(option.value)
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
+                        : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-surface dark:text-dark-text'
+                      }`}
+                  >
+                    <div className="font-medium">{option.label}</div>
+                    <div className="text-sm opacity-75">{option.description}</div>
+                  </button>
                 ))}
-              </select>
+              </div>
             </div>
-          </div>
 
-          {/* Generate Button */}
-          <button
-            onClick={handleGenerateQuiz}
-            disabled={!selectedDoc || isGenerating}
-            className="w-full bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text flex items-center justify-center space-x-2"
-          >
-            {isGenerating ? (
-              <>
-                <Loader className="h-4 w-4 animate-spin" />
-                <span>Generating Quiz...</span>
-              </>
-            ) : (
-              <>
-                <Settings className="h-4 w-4" />
-                <span>Generate Quiz</span>
-              </>
+            {/* Generate Button */}
+            <button
+              onClick={() => handleGenerateQuiz()}
+              disabled={!selectedDoc || isGenerating}
+              className="w-full bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text flex items-center justify-center space-x-2"
+            >
+              {isGenerating ? (
+                <>
+                  <Loader className="h-4 w-4 animate-spin" />
+                  <span>Generating Quiz...</span>
+                </>
+              ) : (
+                <>
+                  <Settings className="h-4 w-4" />
+                  <span>Generate Quiz</span>
+                </>
+              )}
+            </button>
+
+            {/* Error Message */}
+            {error && (
+              <div
+                className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
+                role="alert"
+              >
+                <strong className="font-bold">Error: </strong>
+                <span>{error}</span>
+              </div>
             )}
-          </button>
+          </div>
 
-          {/* Error Message */}
-          {error && (
-            <div
-              className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
-              role="alert"
-            >
-              <strong className="font-bold">Error: </strong>
-              <span>{error}</span>
-            </div>
-          )}
+          {/* Attempt History */}
+          <QuizHistory
+            attempts={attempts}
+            documents={documents}
+            isGenerating={isGenerating}
+            onRetake={handleRetake}
+            onPracticeTopics={(documentId, topics) => handleGenerateQuiz(documentId, topics)}
+          />
         </div>
       ) : (
         /* Quiz Display */
@@ -281,13 +685,22 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
           {/* Quiz Header */}
           <div className="flex justify-between items-center mb-6">
             <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
-              Quiz: {documents.find((doc) => doc.id === selectedDoc)?.name}
+              Quiz: {currentQuiz.documentName}
             </h3>
             <div className="flex items-center space-x-4">
               {showResults && (
-                <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-lg font-medium dark:bg-blue-900 dark:text-blue-200">
-                  Score: {calculateScore()}%
-                </div>
+                <>
+                  <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-lg font-medium dark:bg-blue-900 dark:text-blue-200">
+                    Score: {calculateScore(currentQuiz.questions, grades)}%
+                  </div>
+                  <button
+                    onClick={() => startAttempt(currentQuiz)}
+                    className="flex items-center space-x-1 text-gray-600 hover:text-gray-900 dark:text-dark-text-secondary dark:hover:text-dark-text"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Retake</span>
+                  </button>
+                </>
               )}
               <button
                 onClick={resetQuiz}
@@ -303,29 +716,45 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
             {currentQuiz.questions.map((question, index) => (
               <div
                 key={question.id}
+                onFocus={() => startTiming(question.id)}
+                onPointerDown={() => startTiming(question.id)}
+                onBlur={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) stopTiming();
+                }}
                 className="bg-white border border-gray-200 rounded-lg p-6 dark:bg-dark-surface dark:border-dark-input-border"
               >
                 <div className="mb-4">
-                  <h4 className="text-lg font-medium text-gray-900 dark:text-dark-text mb-2">
-                    Question {index + 1}
-                  </h4>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-lg font-medium text-gray-900 dark:text-dark-text">
+                      Question {index + 1}
+                    </h4>
+                    <div className="flex items-center space-x-2">
+                      {question.topic && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200">
+                          {question.topic}
+                        </span>
+                      )}
+                      <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                        {QUESTION_TYPE_OPTIONS.find((option) => option.value === getQuestionType(question))?.label}
+                      </span>
+                      {showResults && grades[question.id] && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${grades[question.id].correct
+                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                              : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                            }`}
+                        >
+                          {grades[question.id].correct ? 'Correct' : 'Incorrect'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
                   <div className="text-gray-700 dark:text-dark-text-secondary">
                     <LaTeXRenderer content={question.question ?? ''} />
                   </div>
                 </div>
 
-                <div className="space-y-3">
-                  {question.options.map((option, optionIndex) => (
-                    <button
-                      key={optionIndex}
-                      onClick={() => handleAnswerSelect(question.id, optionIndex)}
-                      disabled={showResults}
-                      className={getAnswerButtonClass(question.id, optionIndex, question.correctAnswer)}
-                    >
-                      <LaTeXRenderer content={option ?? ''} />
-                    </button>
-                  ))}
-                </div>
+                {renderAnswerInput(question)}
 
                 {showResults && (
                   <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg dark:bg-blue-900 dark:border-blue-700">
@@ -341,15 +770,36 @@ const QuizPanel: React.FC<QuizPanelProps> = ({ documents, onResult }) => {
             ))}
           </div>
 
+          {/* Error Message */}
+          {error && (
+            <div
+              className="mt-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
+              role="alert"
+            >
+              <strong className="font-bold">Error: </strong>
+              <span>{error}</span>
+            </div>
+          )}
+
           {/* Submit Button */}
           {!showResults && (
             <div className="mt-8 text-center">
               <button
-                onClick={() => setShowResults(true)}
-                className="bg-green-600 text-white px-8 py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2 mx-auto"
+                onClick={handleSubmit}
+                disabled={isGrading}
+                className="bg-green-600 text-white px-8 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text flex items-center space-x-2 mx-auto"
               >
-                <CheckCircle className="h-4 w-4" />
-                <span>Submit Quiz</span>
+                {isGrading ? (
+                  <>
+                    <Loader className="h-4 w-4 animate-spin" />
+                    <span>Grading Answers...</span>
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="h-4 w-4" />
+                    <span>Submit Quiz</span>
+                  </>
+                )}
               </button>
             </div>
           )}
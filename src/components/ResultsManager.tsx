@@ -19,6 +19,9 @@ import {
   Filter,
 } from 'lucide-react';
 import LaTeXRenderer from './LaTeXRenderer';
+import SummaryView from './SummaryView';
+import { SummaryLength, SummaryStyle } from '../api';
+import { summaryTitle } from '../utils/summaryStyles';
 
 /** Result data structure */
 interface Result {
@@ -152,12 +155,13 @@ const ResultsManager: React.FC<ResultsManagerProps> = ({ results, setResults })
           <div className="space-y-4">
             <div>
               <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
-                {String(content.summaryLength).charAt(0).toUpperCase() +
-                  String(content.summaryLength).slice(1)}{' '}
-                Summary
+                {summaryTitle(content.summaryStyle as SummaryStyle | undefined, content.summaryLength as SummaryLength | undefined)}
               </h4>
               <div className="bg-green-50 dark:bg-green-900 rounded p-3 max-h-64 overflow-y-auto">
-                <LaTeXRenderer content={String(content.summary || '')} />
+                <SummaryView
+                  summary={String(content.summary || '')}
+                  style={content.summaryStyle as SummaryStyle | undefined}
+                />
               </div>
             </div>
           </div>
@@ -165,6 +169,8 @@ const ResultsManager: React.FC<ResultsManagerProps> = ({ results, setResults })
 
       case 'quiz': {
         const quiz = content.quiz as { questions: Array<{ id: string; question: string }> };
+        // Quizzes saved before attempts were recorded have none
+        const attempts = (content.attempts ?? []) as Array<{ score: number }>;
         return (
           <div className="space-y-4">
             <div className="flex justify-between items-center">
@@ -175,6 +181,11 @@ const ResultsManager: React.FC<ResultsManagerProps> = ({ results, setResults })
                 {String(content.difficulty)} difficulty
               </span>
             </div>
+            {attempts.length > 0 && (
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'}: {attempts.map(({ score }) => `${score}%`).join(' → ')}
+              </div>
+            )}
             <div className="space-y-3">
               {quiz.questions.slice(0, 2).map((question, index) => (
                 <div key={question.id} className="bg-purple-50 dark:bg-purple-900 rounded p-3">
@@ -2,13 +2,36 @@
  * Summary Panel Component
  *
  * Generates intelligent summaries from document content.
- * Supports customizable summary lengths with LaTeX preservation.
+ * Supports customizable summary lengths with LaTeX preservation. Long documents are
+ * summarized chunk by chunk on the server, with progress streamed back per chunk.
+ * Besides prose, a summary can be an outline, key takeaways, a glossary, a
+ * formula sheet or a TL;DR, each rendered in its own shape.
+ * Formulas of the summary are checked against the document; formulas changed
+ * from the original are listed and can be restored. A formula sheet must also
+ * list every formula of the document.
  */
 
-import React, { useState } from 'react';
-import { BookOpen, Loader, CheckCircle, Sliders } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  BookOpen,
+  Loader,
+  CheckCircle,
+  Sliders,
+  Square,
+  AlertTriangle,
+  Wrench,
+  AlignLeft,
+  ListTree,
+  ListChecks,
+  BookA,
+  Sigma,
+  Zap,
+} from 'lucide-react';
 import LaTeXRenderer from './LaTeXRenderer';
-import { summarizeContent } from '../api';
+import SummaryView from './SummaryView';
+import { streamSummarizeContent, SummaryLength, SummaryProgress, SummaryStyle } from '../api';
+import { checkFormulas, FormulaIssue, restoreFormulas } from '../utils/latexCheck';
+import { SUMMARY_STYLES, summaryTitle } from '../utils/summaryStyles';
 
 /** Document data structure */
 interface Document {
@@ -21,11 +44,19 @@ interface Document {
 /** Component props */
 interface SummaryPanelProps {
   documents: Document[];
-  onResult: (type: string, title: string, content: unknown) => void;
+  /** Saves a result and returns its ID */
+  onResult: (type: string, title: string, content: unknown) => string;
+  /** Replaces the content of a saved result */
+  onUpdateResult: (id: string, content: unknown) => void;
 }
 
-/** Summary length type */
-type SummaryLength = 'short' | 'medium' | 'detailed';
+/** A generated summary */
+interface Summary {
+  summary: string;
+  chunkCount: number;
+  /** ID of the saved result, kept in step when formulas are restored */
+  resultId: string;
+}
 
 /** Summary option configuration */
 interface SummaryOption {
@@ -41,15 +72,90 @@ const SUMMARY_OPTIONS: SummaryOption[] = [
   { value: 'detailed', label: 'Detailed Summary', description: 'Comprehensive overview' },
 ];
 
+/** Icon of each summary style */
+const STYLE_ICONS: Record<SummaryStyle, React.ElementType> = {
+  prose: AlignLeft,
+  outline: ListTree,
+  takeaways: ListChecks,
+  glossary: BookA,
+  formulas: Sigma,
+  tldr: Zap,
+};
+
+/**
+ * Builds the saved result content of a summary
+ */
+function summaryResult(
+  document: Document,
+  summaryStyle: SummaryStyle,
+  summaryLength: SummaryLength | undefined,
+  summary: string,
+  chunkCount: number
+) {
+  return {
+    originalContent: document.content,
+    summary,
+    summaryStyle,
+    summaryLength,
+    chunkCount,
+    documentName: document.name,
+  };
+}
+
+/**
+ * Describes a formula difference for display
+ */
+function describeFormulaIssue(issue: FormulaIssue): string {
+  switch (issue.kind) {
+    case 'altered':
+      return `Changed: ${issue.found} (original ${issue.expected})`;
+    case 'missing':
+      return `Missing from the sheet: ${issue.expected}`;
+    default:
+      return `Not in the document: ${issue.found}`;
+  }
+}
+
+/**
+ * Describes summarization progress for display
+ */
+function describeProgress(progress: SummaryProgress): string {
+  switch (progress.stage) {
+    case 'map':
+      return `Summarized ${progress.completed} of ${progress.total} parts`;
+    case 'reduce':
+      return `Condensing partial summaries (${progress.completed} of ${progress.total})`;
+    case 'combine':
+      return 'Combining partial summaries...';
+    default:
+      return '';
+  }
+}
+
 /**
  * Summary Panel Component
  */
-const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult, onUpdateResult }) => {
   const [selectedDoc, setSelectedDoc] = useState<string>('');
   const [summaryLength, setSummaryLength] = useState<SummaryLength>('medium');
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>('prose');
   const [isSummarizing, setIsSummarizing] = useState(false);
-  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [summaries, setSummaries] = useState<Record<string, Summary>>({});
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  const [streamingSummary, setStreamingSummary] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight summarization when the panel unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  /** Length of the selected style, if it takes one */
+  const effectiveLength = SUMMARY_STYLES[summaryStyle].usesLength ? summaryLength : undefined;
+
+  /** Current summary cache key */
+  const currentSummaryKey = `${selectedDoc}-${summaryStyle}-${effectiveLength ?? ''}`;
 
   /**
    * Generates a summary for the selected document
@@ -60,39 +166,56 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
     const document = documents.find((doc) => doc.id === selectedDoc);
     if (!document) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsSummarizing(true);
+    setProgress(null);
+    setStreamingSummary('');
 
     try {
-      const response = await summarizeContent(document.id, document.content, summaryLength);
+      const response = await streamSummarizeContent(document.id, document.content, summaryLength, summaryStyle, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onDelta: (delta) => setStreamingSummary((prev) => prev + delta),
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Summarization failed');
       }
 
-      const summary = response.data.summary;
-      const cacheKey = `${selectedDoc}-${summaryLength}`;
+      // A cancelled summary is incomplete, so it is neither cached nor saved
+      if (controller.signal.aborted) return;
 
-      setSummaries((prev) => ({ ...prev, [cacheKey]: summary }));
+      const { summary, chunkCount } = response.data;
+      const cacheKey = currentSummaryKey;
 
-      const lengthLabel = summaryLength.charAt(0).toUpperCase() + summaryLength.slice(1);
-      onResult('summary', `${document.name} - ${lengthLabel} Summary`, {
-        originalContent: document.content,
-        summary,
-        summaryLength,
-        documentName: document.name,
-      });
+      const resultId = onResult(
+        'summary',
+        `${document.name} - ${summaryTitle(summaryStyle, effectiveLength)}`,
+        summaryResult(document, summaryStyle, effectiveLength, summary, chunkCount)
+      );
+
+      setSummaries((prev) => ({ ...prev, [cacheKey]: { summary, chunkCount, resultId } }));
 
       setError(null);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to generate summary';
       setError(message);
     } finally {
+      abortControllerRef.current = null;
       setIsSummarizing(false);
+      setProgress(null);
+      setStreamingSummary('');
     }
   };
 
-  /** Current summary cache key */
-  const currentSummaryKey = `${selectedDoc}-${summaryLength}`;
+  /**
+   * Cancels the summarization in progress
+   */
+  const handleCancel = (): void => {
+    abortControllerRef.current?.abort();
+  };
 
   /** Current cached summary */
   const currentSummary = summaries[currentSummaryKey];
@@ -100,6 +223,30 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
   /** Selected document object */
   const selectedDocument = documents.find((doc) => doc.id === selectedDoc);
 
+  /** Formulas of the current summary that differ from the document */
+  const formulaIssues = useMemo(
+    () =>
+      selectedDocument && currentSummary
+        ? checkFormulas(selectedDocument.content, currentSummary.summary, { requireAll: summaryStyle === 'formulas' })
+        : [],
+    [selectedDocument, currentSummary, summaryStyle]
+  );
+  const alteredCount = formulaIssues.filter((issue) => issue.kind === 'altered').length;
+
+  /**
+   * Restores formulas the current summary changed from the document
+   */
+  const handleRestoreFormulas = (): void => {
+    if (!selectedDocument || !currentSummary) return;
+
+    const summary = restoreFormulas(currentSummary.summary, formulaIssues);
+    setSummaries((prev) => ({ ...prev, [currentSummaryKey]: { ...currentSummary, summary } }));
+    onUpdateResult(
+      currentSummary.resultId,
+      summaryResult(selectedDocument, summaryStyle, effectiveLength, summary, currentSummary.chunkCount)
+    );
+  };
+
   // Empty state
   if (documents.length === 0) {
     return (
@@ -123,7 +270,7 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
           Content Summarization
         </h2>
         <p className="text-gray-600 dark:text-dark-text-secondary text-lg">
-          Generate intelligent summaries with customizable detail levels, preserving LaTeX formatting.
+          Generate summaries, outlines, glossaries and formula sheets with customizable detail levels, preserving LaTeX formatting.
         </p>
       </div>
 
@@ -149,51 +296,111 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
             </select>
           </div>
 
-          {/* Summary Length Options */}
+          {/* Summary Style Options */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-3">
-              Summary Length
+              Summary Style
             </label>
-            <div className="space-y-3">
-              {SUMMARY_OPTIONS.map((option) => (
-                <button
-                  key={option.value}
-                  onClick={() => setSummaryLength(option.value)}
-                  className={`w-full p-4 text-left rounded-lg border transition-colors ${summaryLength === option.value
-                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
-                      : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-surface dark:text-dark-text'
-                    }`}
-                >
-                  <div className="flex items-center space-x-3">
-                    <Sliders className="h-5 w-5" />
-                    <div>
-                      <div className="font-medium">{option.label}</div>
-                      <div className="text-sm opacity-75">{option.description}</div>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(SUMMARY_STYLES) as SummaryStyle[]).map((style) => {
+                const Icon = STYLE_ICONS[style];
+                return (
+                  <button
+                    key={style}
+                    onClick={() => setSummaryStyle(style)}
+                    className={`p-3 text-left rounded-lg border transition-colors ${summaryStyle === style
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
+                        : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-surface dark:text-dark-text'
+                      }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Icon className="h-5 w-5 flex-shrink-0" />
+                      <div>
+                        <div className="font-medium">{SUMMARY_STYLES[style].label}</div>
+                        <div className="text-xs opacity-75">{SUMMARY_STYLES[style].description}</div>
+                      </div>
                     </div>
-                  </div>
-                </button>
-              ))}
+                  </button>
+                );
+              })}
             </div>
           </div>
 
+          {/* Summary Length Options */}
+          {SUMMARY_STYLES[summaryStyle].usesLength && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-3">
+                Summary Length
+              </label>
+              <div className="space-y-3">
+                {SUMMARY_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSummaryLength(option.value)}
+                    className={`w-full p-4 text-left rounded-lg border transition-colors ${summaryLength === option.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
+                        : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-surface dark:text-dark-text'
+                      }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Sliders className="h-5 w-5" />
+                      <div>
+                        <div className="font-medium">{option.label}</div>
+                        <div className="text-sm opacity-75">{option.description}</div>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Generate Button */}
-          <button
-            onClick={handleSummarize}
-            disabled={!selectedDoc || isSummarizing}
-            className="w-full bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-          >
-            {isSummarizing ? (
-              <>
-                <Loader className="h-4 w-4 animate-spin" />
-                <span>Generating Summary...</span>
-              </>
-            ) : (
-              <>
-                <BookOpen className="h-4 w-4" />
-                <span>Generate Summary</span>
-              </>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleSummarize}
+              disabled={!selectedDoc || isSummarizing}
+              className="flex-1 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:text-dark-button-inactive-text disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {isSummarizing ? (
+                <>
+                  <Loader className="h-4 w-4 animate-spin" />
+                  <span>Generating Summary...</span>
+                </>
+              ) : (
+                <>
+                  <BookOpen className="h-4 w-4" />
+                  <span>Generate Summary</span>
+                </>
+              )}
+            </button>
+            {isSummarizing && (
+              <button
+                onClick={handleCancel}
+                className="bg-red-600 text-white px-4 py-3 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+              >
+                <Square className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
             )}
-          </button>
+          </div>
+
+          {/* Chunk Progress */}
+          {isSummarizing && progress && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                {describeProgress(progress)}
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden dark:bg-dark-input-bg">
+                <div
+                  className="h-full bg-green-600 transition-all"
+                  style={{
+                    width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
 
           {/* Error Message */}
           {error && (
@@ -221,18 +428,59 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ documents, onResult }) => {
             </div>
           )}
 
+          {/* Streaming Summary */}
+          {isSummarizing && streamingSummary && (
+            <div>
+              <div className="flex items-center space-x-2 mb-4">
+                <Loader className="h-6 w-6 text-green-600 animate-spin" />
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
+                  Writing Summary...
+                </h3>
+              </div>
+              <div className="bg-green-50 border border-green-200 rounded-lg p-6 max-h-96 overflow-y-auto dark:bg-green-900 dark:border-green-700 dark:text-green-100">
+                <LaTeXRenderer content={streamingSummary} />
+              </div>
+            </div>
+          )}
+
           {/* Summary Result */}
-          {currentSummary && (
+          {currentSummary && !isSummarizing && (
             <div>
               <div className="flex items-center space-x-2 mb-4">
                 <CheckCircle className="h-6 w-6 text-green-600" />
                 <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
-                  {summaryLength.charAt(0).toUpperCase() + summaryLength.slice(1)} Summary
+                  {summaryTitle(summaryStyle, effectiveLength)}
                 </h3>
               </div>
               <div className="bg-green-50 border border-green-200 rounded-lg p-6 max-h-96 overflow-y-auto dark:bg-green-900 dark:border-green-700 dark:text-green-100">
-                <LaTeXRenderer content={currentSummary} />
+                <SummaryView summary={currentSummary.summary} style={summaryStyle} />
               </div>
+
+              {/* Formula Check */}
+              {formulaIssues.length > 0 && (
+                <div className="mt-4 px-4 py-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:border-amber-700 dark:text-amber-200">
+                  <div className="flex flex-wrap items-center gap-3 mb-2">
+                    <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+                    <span className="flex-1 text-sm font-medium">
+                      {formulaIssues.length} {formulaIssues.length === 1 ? 'formula differs' : 'formulas differ'} from the document
+                    </span>
+                    {alteredCount > 0 && (
+                      <button
+                        onClick={handleRestoreFormulas}
+                        className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-lg border border-amber-400 hover:bg-amber-100 dark:border-amber-600 dark:hover:bg-amber-900/50"
+                      >
+                        <Wrench className="h-4 w-4" />
+                        <span>Restore {alteredCount} changed {alteredCount === 1 ? 'formula' : 'formulas'}</span>
+                      </button>
+                    )}
+                  </div>
+                  <ul className="space-y-1 text-xs font-mono break-all">
+                    {formulaIssues.map((issue, index) => (
+                      <li key={index}>{describeFormulaIssue(issue)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
         </div>
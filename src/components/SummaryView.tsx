@@ -0,0 +1,103 @@
+/**
+ * Summary View Component
+ *
+ * Renders a summary in the shape of its style: takeaways as a numbered list,
+ * glossaries as a term table, formula sheets as equation cards and TL;DRs as a
+ * single highlighted line. Prose, outlines and any summary whose layout cannot
+ * be parsed are rendered as Markdown.
+ */
+
+import React from 'react';
+import { Quote } from 'lucide-react';
+import LaTeXRenderer from './LaTeXRenderer';
+import { SummaryStyle } from '../api';
+import { parseFormulaSheet, parseGlossarySummary, parseTakeaways } from '../utils/summaryStyles';
+
+/** Component props */
+interface SummaryViewProps {
+  summary: string;
+  /** Summary style; results saved before styles existed have none */
+  style?: SummaryStyle;
+}
+
+/**
+ * Summary View Component
+ */
+const SummaryView: React.FC<SummaryViewProps> = ({ summary, style = 'prose' }) => {
+  switch (style) {
+    case 'takeaways': {
+      const takeaways = parseTakeaways(summary);
+      if (takeaways.length === 0) break;
+      return (
+        <ol className="space-y-3">
+          {takeaways.map((takeaway, index) => (
+            <li key={index} className="flex items-start space-x-3">
+              <span className="flex-shrink-0 flex items-center justify-center h-6 w-6 rounded-full bg-green-600 text-white text-xs font-semibold">
+                {index + 1}
+              </span>
+              <LaTeXRenderer content={takeaway} className="flex-1 max-w-none" />
+            </li>
+          ))}
+        </ol>
+      );
+    }
+
+    case 'glossary': {
+      const terms = parseGlossarySummary(summary);
+      if (terms.length === 0) break;
+      return (
+        <dl className="divide-y divide-green-200 dark:divide-green-700">
+          {terms.map(({ term, definition }, index) => (
+            <div key={index} className="grid grid-cols-3 gap-4 py-2">
+              <dt className="font-semibold">
+                <LaTeXRenderer content={term} className="max-w-none" />
+              </dt>
+              <dd className="col-span-2">
+                <LaTeXRenderer content={definition} className="max-w-none" />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      );
+    }
+
+    case 'formulas': {
+      const entries = parseFormulaSheet(summary);
+      if (entries.length === 0) break;
+      return (
+        <div className="grid grid-cols-1 gap-3">
+          {entries.map(({ title, formula, explanation }, index) => (
+            <div
+              key={index}
+              className="p-3 rounded-lg bg-white border border-green-200 dark:bg-dark-surface dark:border-green-700"
+            >
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-dark-text">{title}</h4>
+              <LaTeXRenderer content={formula} className="max-w-none overflow-x-auto" />
+              {explanation && (
+                <LaTeXRenderer
+                  content={explanation}
+                  className="max-w-none text-sm text-gray-600 dark:text-dark-text-secondary"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'tldr':
+      return (
+        <div className="flex items-start space-x-3">
+          <Quote className="h-6 w-6 flex-shrink-0 text-green-600" />
+          <LaTeXRenderer content={summary.trim()} className="flex-1 max-w-none text-lg font-medium" />
+        </div>
+      );
+
+    default:
+      break;
+  }
+
+  return <LaTeXRenderer content={summary} />;
+};
+
+export default SummaryView;
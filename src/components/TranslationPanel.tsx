@@ -2,13 +2,42 @@
  * Translation Panel Component
  *
  * Translates document content to multiple languages.
- * Preserves LaTeX formatting during translation.
+ * Preserves LaTeX formatting during translation. Several documents can be
+ * translated into several languages at once; the pairs are queued with a
+ * concurrency limit and retries, and their progress is shown in a matrix.
+ * Translations are shown paragraph by paragraph beside the original, and
+ * single paragraphs can be translated again. A per-language glossary fixes
+ * the translation of technical terms. Paragraphs that miss a glossary term or
+ * change a formula are flagged, and changed formulas can be restored.
+ * Optionally each translation is translated back and compared with the
+ * original, so paragraphs whose meaning may have drifted stand out even in
+ * languages the reviewer cannot read.
  */
 
-import React, { useState } from 'react';
-import { Languages, Loader, CheckCircle, Globe } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Languages,
+  Loader,
+  CheckCircle,
+  Globe,
+  Clock,
+  XCircle,
+  MinusCircle,
+  RotateCcw,
+  Square,
+  AlertTriangle,
+  Wrench,
+} from 'lucide-react';
+import AlignedTranslationView from './AlignedTranslationView';
+import GlossaryEditor from './GlossaryEditor';
+import LanguagePicker from './LanguagePicker';
 import LaTeXRenderer from './LaTeXRenderer';
-import { translateContent } from '../api';
+import { GlossaryEntry, SegmentQuality, TranslatedSegment, translateContent, translateSegment } from '../api';
+import { findGlossaryViolations, GlossaryViolation } from '../utils/glossary';
+import { checkFormulas, FormulaIssue, restoreFormulas } from '../utils/latexCheck';
+import { JobStatus, runJobQueue } from '../utils/jobQueue';
+import { INDIAN_LANGUAGES, languageName } from '../utils/languages';
+import { getAllRecords, putRecord } from '../utils/workspaceDb';
 
 /** Document data structure */
 interface Document {
@@ -16,102 +45,378 @@ interface Document {
   name: string;
   content: string;
   type: string;
+  /** Language of the content as a BCP-47 tag, when detected */
+  language?: string;
 }
 
 /** Component props */
 interface TranslationPanelProps {
   documents: Document[];
-  onResult: (type: string, title: string, content: unknown) => void;
+  /** Saves a result and returns its ID */
+  onResult: (type: string, title: string, content: unknown) => string;
+  /** Replaces the content of a saved result */
+  onUpdateResult: (id: string, content: unknown) => void;
 }
 
-/** Language configuration */
-interface Language {
-  code: string;
-  name: string;
-  flag: string;
+/** A translation shown in the panel */
+interface Translation {
+  segments: TranslatedSegment[];
+  /** ID of the saved result, kept in step when segments are translated again */
+  resultId: string;
+}
+
+/** A document and a target language */
+interface Pair {
+  documentId: string;
+  language: string;
+}
+
+/** Glossary of one target language as stored in the workspace */
+interface StoredGlossary {
+  language: string;
+  entries: GlossaryEntry[];
+}
+
+/** Documents and languages of the last batch, the axes of the progress matrix */
+interface Batch {
+  documentIds: string[];
+  languages: string[];
+}
+
+/** Problems found in a finished translation */
+interface TranslationReview {
+  violations: GlossaryViolation[];
+  /** Formula differences of each paragraph */
+  formulaIssues: FormulaIssue[][];
+  /** Indices of paragraphs whose back-translation scored low */
+  lowQuality: number[];
+  /** Total number of glossary violations, formula differences and low-scoring paragraphs */
+  warningCount: number;
+}
+
+/** Translations running at once; each is itself split into parallel batches by the server */
+const QUEUE_CONCURRENCY = 2;
+
+/** Extra attempts for a failed translation */
+const QUEUE_RETRIES = 2;
+
+/** Delay before the first retry, doubled for each further retry */
+const RETRY_DELAY_MS = 2000;
+
+/** Back-translation scores below which a paragraph is flagged; shared wording scores lower than meaning */
+const LOW_QUALITY_SCORE: Record<SegmentQuality['method'], number> = { embeddings: 0.85, lexical: 0.4 };
+
+/**
+ * Key of a document and language pair in translation and status maps
+ */
+function pairKey({ documentId, language }: Pair): string {
+  return `${documentId}|${language}`;
 }
 
-/** Available translation languages */
-const LANGUAGES: Language[] = [
-  { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
-  { code: 'bn', name: 'Bengali', flag: '🇮🇳' },
-  { code: 'te', name: 'Telugu', flag: '🇮🇳' },
-  { code: 'mr', name: 'Marathi', flag: '🇮🇳' },
-  { code: 'ta', name: 'Tamil', flag: '🇮🇳' },
-  { code: 'gu', name: 'Gujarati', flag: '🇮🇳' },
-  { code: 'kn', name: 'Kannada', flag: '🇮🇳' },
-  { code: 'ml', name: 'Malayalam', flag: '🇮🇳' },
-  { code: 'pa', name: 'Punjabi', flag: '🇮🇳' },
-  { code: 'or', name: 'Odia', flag: '🇮🇳' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'de', name: 'German', flag: '🇩🇪' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-  { code: 'ar', name: 'Arabic', flag: '🇸🇦' },
-];
+/**
+ * Adds or removes a value from a selection
+ */
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Builds the saved result content of a translation
+ */
+function translationResult(document: Document, targetLanguage: string, segments: TranslatedSegment[]) {
+  return {
+    originalContent: document.content,
+    translatedContent: segments.map((segment) => segment.translation).join('\n\n'),
+    segments,
+    sourceLanguage: document.language,
+    targetLanguage,
+    languageName: languageName(targetLanguage),
+    documentName: document.name,
+  };
+}
+
+/**
+ * Checks a translation against the glossary, the formulas of its source and its back-translation scores
+ */
+function reviewTranslation(segments: TranslatedSegment[], glossary: GlossaryEntry[]): TranslationReview {
+  const violations = findGlossaryViolations(segments, glossary);
+  const formulaIssues = segments.map((segment) =>
+    checkFormulas(segment.source, segment.translation, { requireAll: true })
+  );
+  const formulaCount = formulaIssues.reduce((total, issues) => total + issues.length, 0);
+  const lowQuality = segments.flatMap(({ quality }, index) =>
+    quality && quality.score < LOW_QUALITY_SCORE[quality.method] ? [index] : []
+  );
+  return { violations, formulaIssues, lowQuality, warningCount: violations.length + formulaCount + lowQuality.length };
+}
+
+/**
+ * Icon and description of a job status in the progress matrix
+ * @param status - Job status
+ * @param warningCount - Glossary violations, formula differences and low-scoring paragraphs of the finished translation
+ */
+function statusDisplay(status: JobStatus | undefined, warningCount: number): { icon: React.ReactNode; label: string } {
+  switch (status?.state) {
+    case 'running':
+      return {
+        icon: <Loader className="h-4 w-4 animate-spin text-blue-600 dark:text-blue-300" />,
+        label: status.attempt > 1 ? `Translating (attempt ${status.attempt})` : 'Translating',
+      };
+    case 'done':
+      return warningCount > 0
+        ? {
+          icon: <AlertTriangle className="h-4 w-4 text-amber-500" />,
+          label: `Done with ${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}, click to view`,
+        }
+        : { icon: <CheckCircle className="h-4 w-4 text-green-600" />, label: 'Done, click to view' };
+    case 'failed':
+      return { icon: <XCircle className="h-4 w-4 text-red-600" />, label: `Failed: ${status.error}` };
+    case 'cancelled':
+      return { icon: <MinusCircle className="h-4 w-4 text-gray-400" />, label: 'Cancelled' };
+    default:
+      return { icon: <Clock className="h-4 w-4 text-gray-400" />, label: 'Queued' };
+  }
+}
 
 /**
  * Translation Panel Component
  */
-const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult }) => {
-  const [selectedDoc, setSelectedDoc] = useState<string>('');
-  const [selectedLanguage, setSelectedLanguage] = useState<string>('');
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult, onUpdateResult }) => {
+  const [selectedDocs, setSelectedDocs] = useState<string[]>([]);
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
   const [isTranslating, setIsTranslating] = useState(false);
-  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [translations, setTranslations] = useState<Record<string, Translation>>({});
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, JobStatus>>({});
+  const [viewing, setViewing] = useState<Pair | null>(null);
+  const [retranslatingIndex, setRetranslatingIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [glossaries, setGlossaries] = useState<Record<string, GlossaryEntry[]>>({});
+  const [backTranslate, setBackTranslate] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop queued translations when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Restore saved glossaries
+  useEffect(() => {
+    getAllRecords<StoredGlossary>('glossaries')
+      .then((stored) => setGlossaries(Object.fromEntries(stored.map((glossary) => [glossary.language, glossary.entries]))))
+      .catch((err) => console.warn('Failed to restore glossaries:', err));
+  }, []);
+
+  /** Glossary, formula and back-translation review of each finished translation, by pair key */
+  const reviews = useMemo(() => {
+    const reviewed: Record<string, TranslationReview> = {};
+    for (const [key, translation] of Object.entries(translations)) {
+      const language = key.slice(key.indexOf('|') + 1);
+      reviewed[key] = reviewTranslation(translation.segments, glossaries[language] ?? []);
+    }
+    return reviewed;
+  }, [translations, glossaries]);
 
   /**
-   * Translates the selected document
+   * Replaces the glossary of a language and saves it
    */
-  const handleTranslate = async (): Promise<void> => {
-    if (!selectedDoc || !selectedLanguage) return;
+  const handleGlossaryChange = (language: string, entries: GlossaryEntry[]): void => {
+    setGlossaries((prev) => ({ ...prev, [language]: entries }));
+    putRecord<StoredGlossary>('glossaries', { language, entries }).catch((err) =>
+      console.warn('Failed to save glossary:', err)
+    );
+  };
 
-    const document = documents.find((doc) => doc.id === selectedDoc);
-    if (!document) return;
+  /**
+   * Translates one document into one language and saves the result
+   * @throws When the translation fails, so the queue can retry it
+   */
+  const translatePair = async ({ documentId, language }: Pair): Promise<void> => {
+    const document = documents.find((doc) => doc.id === documentId);
+    if (!document) throw new Error('Document was removed');
 
+    // Back-translation needs to know which language to translate back into
+    const response = await translateContent(
+      document.id,
+      document.content,
+      language,
+      glossaries[language],
+      document.language,
+      backTranslate && document.language !== undefined
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Translation failed');
+    }
+
+    const { segments } = response.data;
+    const resultId = onResult(
+      'translation',
+      `${document.name} - ${languageName(language)}`,
+      translationResult(document, language, segments)
+    );
+    setTranslations((prev) => ({ ...prev, [pairKey({ documentId, language })]: { segments, resultId } }));
+    setViewing((prev) => prev ?? { documentId, language });
+  };
+
+  /**
+   * Queues translations of document and language pairs
+   * @param pairs - Pairs to translate
+   * @param axes - Documents and languages shown in the progress matrix
+   */
+  const runTranslations = async (pairs: Pair[], axes: Batch): Promise<void> => {
+    if (pairs.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const byKey = new Map(pairs.map((pair) => [pairKey(pair), pair]));
+
+    setBatch(axes);
     setIsTranslating(true);
+    setError(null);
 
     try {
-      const response = await translateContent(document.id, document.content, selectedLanguage);
-
-      if (!response.success || !response.data) {
-        throw new Error(response.error || 'Translation failed');
-      }
+      await runJobQueue(
+        Array.from(byKey.keys()),
+        (key) => translatePair(byKey.get(key)!),
+        (key, status) => {
+          setStatuses((prev) => ({ ...prev, [key]: status }));
+          if (status.state === 'failed' && pairs.length === 1) {
+            setError(status.error ?? 'Translation failed');
+          }
+        },
+        { concurrency: QUEUE_CONCURRENCY, retries: QUEUE_RETRIES, retryDelayMs: RETRY_DELAY_MS, signal: controller.signal }
+      );
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsTranslating(false);
+    }
+  };
 
-      const translatedContent = response.data.translatedContent;
-      const cacheKey = `${selectedDoc}-${selectedLanguage}`;
-      const languageName = LANGUAGES.find((lang) => lang.code === selectedLanguage)?.name || selectedLanguage;
+  /**
+   * Translates every selected document into every selected language
+   */
+  const handleTranslate = (): void => {
+    const documentIds = documents.filter((doc) => selectedDocs.includes(doc.id)).map((doc) => doc.id);
+    const languages = selectedLanguages;
+    const pairs = documentIds.flatMap((documentId) => languages.map((language) => ({ documentId, language })));
 
-      setTranslations((prev) => ({ ...prev, [cacheKey]: translatedContent }));
+    setStatuses({});
+    setViewing(null);
+    runTranslations(pairs, { documentIds, languages });
+  };
 
-      onResult('translation', `${document.name} - ${languageName}`, {
-        originalContent: document.content,
-        translatedContent,
-        targetLanguage: selectedLanguage,
-        languageName,
-        documentName: document.name,
+  /**
+   * Queues the failed and cancelled pairs of the last batch again
+   */
+  const handleRetryFailed = (): void => {
+    if (!batch) return;
+    const pairs = batch.documentIds
+      .flatMap((documentId) => batch.languages.map((language) => ({ documentId, language })))
+      .filter((pair) => {
+        const state = statuses[pairKey(pair)]?.state;
+        return state === 'failed' || state === 'cancelled';
       });
+    runTranslations(pairs, batch);
+  };
+
+  /**
+   * Translates one paragraph of the viewed translation again
+   * @param index - Segment index
+   */
+  const handleRetranslate = async (index: number): Promise<void> => {
+    if (!viewing) return;
+    const document = documents.find((doc) => doc.id === viewing.documentId);
+    const key = pairKey(viewing);
+    const translation = translations[key];
+    if (!document || !translation) return;
+
+    const targetLanguage = viewing.language;
+    setRetranslatingIndex(index);
+
+    try {
+      // Check the new paragraph the same way as the rest of its translation
+      const response = await translateSegment(
+        document.id,
+        translation.segments[index].source,
+        targetLanguage,
+        glossaries[targetLanguage],
+        document.language,
+        translation.segments.some((segment) => segment.quality) && document.language !== undefined
+      );
+      const retranslated = response.data?.segments[0];
+
+      if (!response.success || !retranslated?.translation) {
+        throw new Error(response.error || 'Translation failed');
+      }
+
+      const segments = translation.segments.map((segment, i) =>
+        i === index ? { ...segment, translation: retranslated.translation, quality: retranslated.quality } : segment
+      );
+      setTranslations((prev) => ({ ...prev, [key]: { ...translation, segments } }));
+      onUpdateResult(translation.resultId, translationResult(document, targetLanguage, segments));
 
       setError(null);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to translate content';
+      const message = err instanceof Error ? err.message : 'Failed to translate paragraph';
       setError(message);
     } finally {
-      setIsTranslating(false);
+      setRetranslatingIndex(null);
     }
   };
 
-  /** Current translation cache key */
-  const currentCacheKey = `${selectedDoc}-${selectedLanguage}`;
+  /**
+   * Restores formulas the viewed translation changed from the source
+   */
+  const handleRestoreFormulas = (): void => {
+    if (!viewing) return;
+    const document = documents.find((doc) => doc.id === viewing.documentId);
+    const key = pairKey(viewing);
+    const translation = translations[key];
+    const review = reviews[key];
+    if (!document || !translation || !review) return;
 
-  /** Current cached translation */
-  const currentTranslation = translations[currentCacheKey];
+    const segments = translation.segments.map((segment, index) => ({
+      ...segment,
+      translation: restoreFormulas(segment.translation, review.formulaIssues[index]),
+    }));
+    setTranslations((prev) => ({ ...prev, [key]: { ...translation, segments } }));
+    onUpdateResult(translation.resultId, translationResult(document, viewing.language, segments));
+  };
 
-  /** Selected document object */
-  const selectedDocument = documents.find((doc) => doc.id === selectedDoc);
+  /** Translation shown in the aligned view */
+  const currentTranslation = viewing ? translations[pairKey(viewing)] : undefined;
 
-  /** Selected language object */
-  const selectedLang = LANGUAGES.find((lang) => lang.code === selectedLanguage);
+  /** Glossary, formula and back-translation review of the viewed translation */
+  const currentReview = viewing ? reviews[pairKey(viewing)] : undefined;
+  const currentViolations = currentReview?.violations ?? [];
+  const lowQualityCount = currentReview?.lowQuality.length ?? 0;
+  const formulaIssueCount = (currentReview?.formulaIssues ?? []).flat().length;
+  const alteredFormulaCount = (currentReview?.formulaIssues ?? []).flat().filter((issue) => issue.kind === 'altered').length;
+
+  /** Back-translation scores of the viewed translation */
+  const currentScores = (currentTranslation?.segments ?? []).flatMap(({ quality }) => (quality ? [quality.score] : []));
+
+  /** Document previewed when exactly one is selected */
+  const selectedDocument = selectedDocs.length === 1 ? documents.find((doc) => doc.id === selectedDocs[0]) : undefined;
+
+  /** Languages offered in the glossary editor */
+  const glossaryLanguages = Array.from(
+    new Set([...selectedLanguages, ...Object.keys(glossaries), ...INDIAN_LANGUAGES])
+  ).map((code) => ({ code, name: languageName(code) }));
+
+  /** Number of pairs the translate button queues */
+  const pairCount = selectedDocs.length * selectedLanguages.length;
+
+  /** Job statuses of the last batch, in matrix order */
+  const batchStatuses = batch
+    ? batch.documentIds.flatMap((documentId) =>
+      batch.languages.map((language) => statuses[pairKey({ documentId, language })])
+    )
+    : [];
+  const doneCount = batchStatuses.filter((status) => status?.state === 'done').length;
+  const failedCount = batchStatuses.filter((status) => status?.state === 'failed').length;
+  const retryableCount = batchStatuses.filter(
+    (status) => status?.state === 'failed' || status?.state === 'cancelled'
+  ).length;
 
   // Empty state
   if (documents.length === 0) {
@@ -145,51 +450,92 @@ const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult
         <div className="space-y-6">
           {/* Document Selection */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-              Select Document
-            </label>
-            <select
-              value={selectedDoc}
-              onChange={(e) => setSelectedDoc(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-input-bg dark:border-dark-input-border dark:text-dark-text"
-            >
-              <option value="">Choose a document...</option>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary">
+                Select Documents
+              </label>
+              <button
+                onClick={() =>
+                  setSelectedDocs(selectedDocs.length === documents.length ? [] : documents.map((doc) => doc.id))
+                }
+                className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-300 dark:hover:text-blue-200"
+              >
+                {selectedDocs.length === documents.length ? 'Clear' : 'Select all'}
+              </button>
+            </div>
+            <div className="max-h-48 overflow-y-auto border border-gray-300 rounded-lg divide-y divide-gray-200 dark:border-dark-input-border dark:divide-dark-input-border">
               {documents.map((doc) => (
-                <option key={doc.id} value={doc.id}>
-                  {doc.name} ({doc.content.length} chars)
-                </option>
+                <label
+                  key={doc.id}
+                  className="flex items-center space-x-3 px-4 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-dark-surface"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedDocs.includes(doc.id)}
+                    onChange={() => setSelectedDocs(toggle(selectedDocs, doc.id))}
+                    className="h-4 w-4 text-blue-600 rounded"
+                  />
+                  <span className="truncate">
+                    {doc.name} ({doc.content.length} chars
+                    {doc.language ? `, ${languageName(doc.language)}` : ''})
+                  </span>
+                </label>
               ))}
-            </select>
+            </div>
           </div>
 
           {/* Language Selection */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-2">
-              Target Language
-            </label>
-            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
-              {LANGUAGES.map((lang) => (
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary">
+                Target Languages
+              </label>
+              <div className="space-x-3 text-sm">
                 <button
-                  key={lang.code}
-                  onClick={() => setSelectedLanguage(lang.code)}
-                  className={`p-3 text-left rounded-lg border transition-colors ${selectedLanguage === lang.code
-                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900 dark:border-blue-400 dark:text-blue-200'
-                      : 'border-gray-200 hover:border-gray-300 dark:border-dark-input-border dark:hover:border-dark-scroll-thumb dark:bg-dark-surface dark:text-dark-text'
-                    }`}
+                  onClick={() => setSelectedLanguages(Array.from(new Set([...selectedLanguages, ...INDIAN_LANGUAGES])))}
+                  className="text-blue-600 hover:text-blue-700 dark:text-blue-300 dark:hover:text-blue-200"
                 >
-                  <div className="flex items-center space-x-2">
-                    <span className="text-lg">{lang.flag}</span>
-                    <span className="font-medium">{lang.name}</span>
-                  </div>
+                  All Indian languages
                 </button>
-              ))}
+                <button
+                  onClick={() => setSelectedLanguages([])}
+                  className="text-blue-600 hover:text-blue-700 dark:text-blue-300 dark:hover:text-blue-200"
+                >
+                  Clear
+                </button>
+              </div>
             </div>
+            <LanguagePicker
+              value={selectedLanguages}
+              onChange={setSelectedLanguages}
+              multiple
+              label="Target languages"
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-dark-text-secondary">
+              Any language can be searched by name or entered as a BCP-47 tag. The source language of each document is detected on upload.
+            </p>
           </div>
 
+          {/* Back-translation */}
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={backTranslate}
+              onChange={(e) => setBackTranslate(e.target.checked)}
+              className="h-4 w-4 mt-0.5 text-blue-600 rounded"
+            />
+            <span className="text-sm">
+              <span className="font-medium text-gray-700 dark:text-dark-text-secondary">Check by back-translation</span>
+              <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">
+                Translates each result back into the original language and flags paragraphs that drift from it. Takes about twice as long; documents without a detected language are not checked.
+              </span>
+            </span>
+          </label>
+
           {/* Translate Button */}
           <button
             onClick={handleTranslate}
-            disabled={!selectedDoc || !selectedLanguage || isTranslating}
+            disabled={pairCount === 0 || isTranslating}
             className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-dark-button-inactive-bg disabled:cursor-not-allowed flex items-center justify-center space-x-2"
           >
             {isTranslating ? (
@@ -200,7 +546,11 @@ const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult
             ) : (
               <>
                 <Languages className="h-4 w-4" />
-                <span>Translate Content</span>
+                <span>
+                  {pairCount > 1
+                    ? `Translate ${selectedDocs.length} × ${selectedLanguages.length} (${pairCount} translations)`
+                    : 'Translate Content'}
+                </span>
               </>
             )}
           </button>
@@ -219,6 +569,13 @@ const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult
 
         {/* Preview */}
         <div className="space-y-8">
+          <GlossaryEditor
+            languages={glossaryLanguages}
+            glossaries={glossaries}
+            onChange={handleGlossaryChange}
+            initialLanguage={selectedLanguages[0]}
+          />
+
           {/* Original Content */}
           {selectedDocument && (
             <div>
@@ -231,22 +588,143 @@ const TranslationPanel: React.FC<TranslationPanelProps> = ({ documents, onResult
             </div>
           )}
 
-          {/* Translation Result */}
-          {currentTranslation && (
-            <div>
-              <div className="flex items-center space-x-2 mb-4">
-                <CheckCircle className="h-6 w-6 text-green-600" />
-                <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
-                  Translated Content ({selectedLang?.name})
-                </h3>
-              </div>
-              <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 max-h-80 overflow-y-auto dark:bg-dark-surface dark:border-dark-input-border dark:text-dark-text">
-                <LaTeXRenderer content={currentTranslation} />
+        </div>
+      </div>
+
+      {/* Batch Progress */}
+      {batch && batchStatuses.length > 1 && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
+              Batch Progress
+              <span className="ml-3 text-sm font-normal text-gray-500 dark:text-dark-text-secondary">
+                {doneCount} of {batchStatuses.length} done{failedCount > 0 && `, ${failedCount} failed`}
+              </span>
+            </h3>
+            {isTranslating ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-surface"
+              >
+                <Square className="h-4 w-4" />
+                <span>Stop queued</span>
+              </button>
+            ) : (
+              retryableCount > 0 && (
+                <button
+                  onClick={handleRetryFailed}
+                  className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-surface"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Retry {retryableCount} unfinished</span>
+                </button>
+              )
+            )}
+          </div>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg dark:border-dark-input-border">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-dark-surface">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700 dark:text-dark-text-secondary">Document</th>
+                  {batch.languages.map((language) => (
+                    <th key={language} className="px-3 py-2 font-medium text-gray-700 dark:text-dark-text-secondary">
+                      {languageName(language)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-dark-input-border">
+                {batch.documentIds.map((documentId) => (
+                  <tr key={documentId}>
+                    <td className="px-4 py-2 max-w-xs truncate text-gray-900 dark:text-dark-text">
+                      {documents.find((doc) => doc.id === documentId)?.name ?? 'Removed document'}
+                    </td>
+                    {batch.languages.map((language) => {
+                      const pair = { documentId, language };
+                      const { icon, label } = statusDisplay(statuses[pairKey(pair)], reviews[pairKey(pair)]?.warningCount ?? 0);
+                      const isViewed = viewing !== null && pairKey(viewing) === pairKey(pair);
+                      return (
+                        <td key={language} className="px-3 py-2 text-center">
+                          <button
+                            onClick={() => setViewing(pair)}
+                            disabled={!translations[pairKey(pair)]}
+                            title={label}
+                            aria-label={`${languageName(language)}: ${label}`}
+                            className={`inline-flex p-1.5 rounded disabled:cursor-default ${isViewed ? 'ring-2 ring-blue-500' : 'hover:bg-gray-100 dark:hover:bg-dark-surface'
+                              }`}
+                          >
+                            {icon}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Translation Result */}
+      {viewing && currentTranslation && (
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <CheckCircle className="h-6 w-6 text-green-600" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-dark-text">
+              Translated Content ({languageName(viewing.language)}
+              {batchStatuses.length > 1 && `, ${documents.find((doc) => doc.id === viewing.documentId)?.name}`})
+            </h3>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-dark-text-secondary mb-4">
+            Paragraphs are aligned with the original. Hover a paragraph to find its counterpart, or translate it again with the button in its corner.
+            {currentScores.length > 0 &&
+              ` Back-translation similarity averages ${Math.round((currentScores.reduce((sum, score) => sum + score, 0) / currentScores.length) * 100)}%, lowest ${Math.round(Math.min(...currentScores) * 100)}%.`}
+          </p>
+          {(currentViolations.length > 0 || formulaIssueCount > 0 || lowQualityCount > 0) && (
+            <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:border-amber-700 dark:text-amber-200">
+              <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+              <div className="flex-1 text-sm">
+                {currentViolations.length > 0 && (
+                  <p>
+                    {currentViolations.length} glossary {currentViolations.length === 1 ? 'term is' : 'terms are'} not translated as required.
+                  </p>
+                )}
+                {formulaIssueCount > 0 && (
+                  <p>
+                    {formulaIssueCount} {formulaIssueCount === 1 ? 'formula differs' : 'formulas differ'} from the original.
+                  </p>
+                )}
+                {lowQualityCount > 0 && (
+                  <p>
+                    {lowQualityCount} {lowQualityCount === 1 ? 'paragraph reads' : 'paragraphs read'} differently from the original when translated back; check {lowQualityCount === 1 ? 'it' : 'them'} first.
+                  </p>
+                )}
+                <p>Flagged paragraphs can be translated again.</p>
               </div>
+              {alteredFormulaCount > 0 && (
+                <button
+                  onClick={handleRestoreFormulas}
+                  className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-lg border border-amber-400 hover:bg-amber-100 dark:border-amber-600 dark:hover:bg-amber-900/50"
+                >
+                  <Wrench className="h-4 w-4" />
+                  <span>Restore {alteredFormulaCount} changed {alteredFormulaCount === 1 ? 'formula' : 'formulas'}</span>
+                </button>
+              )}
             </div>
           )}
+          <AlignedTranslationView
+            key={pairKey(viewing)}
+            segments={currentTranslation.segments}
+            languageName={languageName(viewing.language)}
+            retranslatingIndex={retranslatingIndex}
+            onRetranslate={handleRetranslate}
+            violations={currentViolations}
+            formulaIssues={currentReview?.formulaIssues}
+            lowQuality={currentReview?.lowQuality}
+          />
         </div>
-      </div>
+      )}
     </div>
   );
 };
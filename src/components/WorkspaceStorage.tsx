@@ -0,0 +1,203 @@
+/**
+ * Workspace Storage Component
+ *
+ * Shows how much browser storage the saved workspace uses and lets the user
+ * clear it. Rendered as a dialog from the application header.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { HardDrive, Loader, Trash2, X } from 'lucide-react';
+import { getWorkspaceUsage, StoreName, WorkspaceUsage } from '../utils/workspaceDb';
+
+/** Component props */
+interface WorkspaceStorageProps {
+  onClose: () => void;
+  onClear: () => Promise<void>;
+}
+
+/** Display names of the object stores */
+const STORE_LABELS: Record<StoreName, string> = {
+  documents: 'Documents',
+  results: 'Results',
+  chatThreads: 'Chat Threads',
+  quizAttempts: 'Quiz Attempts',
+  glossaries: 'Glossaries',
+  flashcardDecks: 'Flashcard Decks',
+};
+
+/**
+ * Formats a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Workspace Storage Component
+ */
+const WorkspaceStorage: React.FC<WorkspaceStorageProps> = ({ onClose, onClear }) => {
+  const [usage, setUsage] = useState<WorkspaceUsage | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Measure storage when the dialog opens
+  useEffect(() => {
+    getWorkspaceUsage()
+      .then(setUsage)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to read storage'));
+  }, []);
+
+  /**
+   * Clears the workspace and closes the dialog
+   */
+  const handleClear = async (): Promise<void> => {
+    setIsClearing(true);
+
+    try {
+      await onClear();
+      onClose();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to clear workspace';
+      setError(message);
+      setIsClearing(false);
+      setIsConfirming(false);
+    }
+  };
+
+  /** Total size of the workspace records */
+  const workspaceBytes = usage?.stores.reduce((total, store) => total + store.bytes, 0) ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-white rounded-xl shadow-xl p-6 space-y-6 dark:bg-dark-surface dark:text-dark-text"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="workspace-storage-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <HardDrive className="h-5 w-5 text-blue-600" />
+            <h3 id="workspace-storage-title" className="text-lg font-semibold">
+              Workspace Storage
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-500 hover:text-gray-900 dark:text-dark-text-secondary dark:hover:text-dark-text"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-dark-text-secondary">
+          Your workspace is saved in this browser and restored when you reload the page.
+        </p>
+
+        {/* Usage */}
+        {!usage && !error && (
+          <div className="flex items-center space-x-2 text-gray-500 dark:text-dark-text-secondary">
+            <Loader className="h-4 w-4 animate-spin" />
+            <span>Measuring storage...</span>
+          </div>
+        )}
+
+        {usage && (
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <tbody>
+                {usage.stores.map((store) => (
+                  <tr key={store.store} className="border-b border-gray-100 dark:border-dark-input-border">
+                    <td className="py-2">{STORE_LABELS[store.store]}</td>
+                    <td className="py-2 text-right text-gray-600 dark:text-dark-text-secondary">
+                      {store.count}
+                    </td>
+                    <td className="py-2 text-right text-gray-600 dark:text-dark-text-secondary">
+                      {formatBytes(store.bytes)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="py-2">Total</td>
+                  <td />
+                  <td className="py-2 text-right">{formatBytes(workspaceBytes)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            {usage.usage !== undefined && usage.quota ? (
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500 dark:text-dark-text-secondary">
+                  Browser storage for this site: {formatBytes(usage.usage)} of{' '}
+                  {formatBytes(usage.quota)}
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden dark:bg-dark-input-bg">
+                  <div
+                    className="h-full bg-blue-600"
+                    style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            ) : null}
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div
+            className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative dark:bg-red-900 dark:border-red-700 dark:text-red-300"
+            role="alert"
+          >
+            <strong className="font-bold">Error: </strong>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Clear Workspace */}
+        {isConfirming ? (
+          <div className="space-y-3">
+            <p className="text-sm text-red-600 dark:text-red-400">
+              This permanently deletes every document, result, chat and quiz attempt in this
+              browser.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setIsConfirming(false)}
+                disabled={isClearing}
+                className="flex-1 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-dark-input-border dark:text-dark-text dark:hover:bg-dark-input-bg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleClear}
+                disabled={isClearing}
+                className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
+              >
+                {isClearing ? <Loader className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                <span>Delete Everything</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsConfirming(true)}
+            className="w-full px-4 py-2 rounded-lg border border-red-300 text-red-600 hover:bg-red-50 transition-colors flex items-center justify-center space-x-2 dark:border-red-700 dark:text-red-400 dark:hover:bg-red-900"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Clear Workspace</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceStorage;
@@ -0,0 +1,77 @@
+/**
+ * Anki Export
+ *
+ * Writes flashcard decks as CSV or TSV files that Anki imports directly.
+ * Header lines tell Anki the separator, deck name and column layout; fields
+ * are HTML, with line breaks as `<br>` and formulas rewritten to the
+ * `\(...\)` and `\[...\]` delimiters Anki's MathJax renders.
+ */
+
+import { Flashcard } from '../api';
+import { escapeHtml, splitMath } from './math';
+
+/** Export file format */
+export type DeckFormat = 'csv' | 'tsv';
+
+/** Field separator and Anki header name of each format */
+const SEPARATORS: Record<DeckFormat, { char: string; name: string }> = {
+  csv: { char: ',', name: 'comma' },
+  tsv: { char: '\t', name: 'tab' },
+};
+
+/**
+ * Converts Markdown with LaTeX to an Anki field
+ *
+ * Text is HTML-escaped with bold and italics kept; formulas get MathJax delimiters.
+ */
+function toAnkiField(markdown: string): string {
+  return splitMath(markdown.trim())
+    .map((segment) => {
+      if (segment.type === 'math') {
+        const tex = escapeHtml(segment.tex);
+        return segment.display ? `\\[${tex}\\]` : `\\(${tex}\\)`;
+      }
+      return escapeHtml(segment.text)
+        .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+        .replace(/(^|[^*])\*([^*\s][^*]*?)\*/g, '$1<i>$2</i>')
+        .replace(/\r?\n/g, '<br>');
+    })
+    .join('');
+}
+
+/**
+ * Quotes a field when it contains the separator, quotes or line breaks
+ */
+function quoteField(value: string, separator: string): string {
+  return value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Turns a deck name into an Anki tag, which cannot contain spaces
+ */
+function deckTag(name: string): string {
+  return name.trim().replace(/\s+/g, '_') || 'polyform';
+}
+
+/**
+ * Writes a deck in Anki's text import format
+ * @param cards - Cards to export
+ * @param deckName - Deck the cards are imported into, also added as a tag
+ * @param format - CSV or TSV
+ * @returns File content with Front, Back and Tags columns
+ */
+export function deckToAnki(cards: Flashcard[], deckName: string, format: DeckFormat): string {
+  const { char, name } = SEPARATORS[format];
+  const tag = deckTag(deckName);
+  const header = [
+    `#separator:${name}`,
+    '#html:true',
+    `#deck:${deckName.replace(/[\r\n]+/g, ' ')}`,
+    `#columns:${['Front', 'Back', 'Tags'].join(char)}`,
+    '#tags column:3',
+  ];
+  const rows = cards.map((card) =>
+    [toAnkiField(card.front), toAnkiField(card.back), tag].map((field) => quoteField(field, char)).join(char)
+  );
+  return [...header, ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { stripPartialCitation } from './citations';
+
+describe('stripPartialCitation', () => {
+  it('hides a label cut off at the end of a partial response', () => {
+    expect(stripPartialCitation('Claim [1] and more [D2:')).toBe('Claim [1] and more ');
+    expect(stripPartialCitation('Claim [1] and more [D2:P1, D1')).toBe('Claim [1] and more ');
+  });
+
+  it('keeps complete text and brackets that are not labels', () => {
+    expect(stripPartialCitation('Claim [1].')).toBe('Claim [1].');
+    expect(stripPartialCitation('An interval [0, 1]')).toBe('An interval [0, 1]');
+    expect(stripPartialCitation('See [Docs')).toBe('See [Docs');
+  });
+});
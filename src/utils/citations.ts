@@ -0,0 +1,19 @@
+/**
+ * Chat Citations
+ *
+ * The server resolves the [D1:P3] passage labels of a chat response into
+ * numbered markers while it streams. A label the model is still writing is
+ * left as raw text until it closes, so partial responses hide it here.
+ */
+
+/** Matches a citation group cut off at the end of a partial response */
+const TRAILING_GROUP_PATTERN = /\[D[\dDP:,;\s]*$/;
+
+/**
+ * Removes a citation label cut off at the end of a partial response
+ * @param text - Partial response text with resolved markers such as [1]
+ * @returns Text without the unfinished label
+ */
+export function stripPartialCitation(text: string): string {
+  return text.replace(TRAILING_GROUP_PATTERN, '');
+}
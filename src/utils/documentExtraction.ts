@@ -0,0 +1,738 @@
+/**
+ * Document Extraction
+ *
+ * Extracts text from uploaded files. PDFs are read with PDF.js; Word,
+ * PowerPoint and EPUB files are ZIP packages of XML parts read with JSZip;
+ * web pages are reduced to their main content; images and PDF pages without
+ * a text layer are recognized with OCR. Every extractor produces
+ * Markdown-style text with headings preserved so the downstream panels get
+ * structured input.
+ */
+
+import JSZip from 'jszip';
+import * as pdfjsLib from 'pdfjs-dist';
+import { extractReadableContent, htmlToMarkdown } from './htmlText';
+import { createOcrEngine, OcrEngine } from './ocr';
+import { layoutPdfText, PageSpan, PdfLayoutResult, PdfPageLayout, PdfTextItem } from './pdfLayout';
+
+// Configure PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/node_modules/pdfjs-dist/build/pdf.worker.min.mjs';
+
+/** File formats with a dedicated extractor */
+type FileFormat = 'pdf' | 'docx' | 'pptx' | 'epub' | 'html' | 'image' | 'text';
+
+/** Extracted file content */
+export interface ExtractedFile {
+  content: string;
+  /** MIME type of the source file */
+  type: string;
+  /** Character range of each page, for paginated formats */
+  pages?: PageSpan[];
+}
+
+/** OCR progress while extracting a file */
+export interface OcrProgress {
+  /** 1-based page being recognized */
+  page: number;
+  /** Pages recognized so far */
+  completed: number;
+  /** Pages that need recognition */
+  total: number;
+  /** Progress within the current page, from 0 to 1 */
+  progress: number;
+}
+
+/** File extraction settings */
+export interface ExtractionOptions {
+  /** Tesseract language code for pages without a text layer and images */
+  ocrLanguage: string;
+  onOcrProgress?: (progress: OcrProgress) => void;
+}
+
+/** Formats recognized by file extension */
+const FORMATS_BY_EXTENSION: Record<string, FileFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  epub: 'epub',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  webp: 'image',
+  bmp: 'image',
+};
+
+/** MIME types reported for each format when the browser gives none */
+const MIME_TYPES: Record<FileFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+  html: 'text/html',
+  image: 'image/png',
+  text: 'text/plain',
+};
+
+/** Image types that can be recognized with OCR */
+const OCR_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/bmp']);
+
+/** Render scale of PDF pages for OCR; 2 renders at 144 DPI */
+const OCR_RENDER_SCALE = 2;
+
+/** File extensions accepted by the upload input */
+export const SUPPORTED_FILE_EXTENSIONS = [
+  '.txt',
+  '.md',
+  '.tex',
+  ...Object.keys(FORMATS_BY_EXTENSION).map((extension) => `.${extension}`),
+];
+
+/** XML namespaces of the Office Open XML parts */
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const M_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+
+/** Word outline levels 0-8 are headings; level 9 is body text */
+const MAX_OUTLINE_LEVEL = 8;
+
+/** XML namespaces of the EPUB package files */
+const CONTAINER_NS = 'urn:oasis:names:tc:opendocument:xmlns:container';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const NCX_NS = 'http://www.daisy.org/z3986/2005/ncx/';
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+
+/**
+ * Determines a file's format from its extension and MIME type
+ */
+function detectFormat(file: File): FileFormat {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const byExtension = FORMATS_BY_EXTENSION[extension];
+  if (byExtension) return byExtension;
+
+  if (extension === 'doc' || extension === 'ppt' || file.type === 'application/msword') {
+    throw new Error(
+      'Legacy .doc and .ppt files are not supported. Save the file as .docx or .pptx and upload it again.'
+    );
+  }
+
+  if (OCR_IMAGE_TYPES.has(file.type)) return 'image';
+
+  const byType = (Object.keys(MIME_TYPES) as FileFormat[]).find(
+    (format) => format !== 'text' && MIME_TYPES[format] === file.type
+  );
+  return byType ?? 'text';
+}
+
+/**
+ * Joins text blocks into a document, dropping empty blocks
+ */
+function joinBlocks(blocks: string[]): string {
+  return blocks
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Returns the child elements of an element with a namespaced local name
+ */
+function childrenNamed(parent: Element, namespace: string, localName: string): Element[] {
+  return Array.from(parent.children).filter(
+    (child) => child.namespaceURI === namespace && child.localName === localName
+  );
+}
+
+/**
+ * Returns the descendants of a node with a namespaced local name
+ */
+function descendantsNamed(parent: Element | Document, namespace: string, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS(namespace, localName));
+}
+
+/**
+ * Opens a ZIP package
+ * @throws When the data is not a ZIP archive
+ */
+async function openPackage(data: ArrayBuffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('The file is damaged or is not a valid package');
+  }
+}
+
+/**
+ * Reads and parses an XML part of a ZIP package
+ * @throws When the part is missing or is not well-formed XML
+ */
+async function readXml(zip: JSZip, path: string): Promise<Document> {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Missing ${path}`);
+
+  const xml = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length) {
+    throw new Error(`Malformed ${path}`);
+  }
+  return xml;
+}
+
+/**
+ * Resolves a relative reference against the directory of a package part
+ * @param base - Path of the referring part
+ * @param href - Reference, relative to the referring part or absolute
+ */
+function resolvePartPath(base: string, href: string): string {
+  const path = decodeURIComponent(href.split('#')[0]);
+  const segments = path.startsWith('/') ? [] : base.split('/').slice(0, -1);
+
+  for (const segment of path.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Reads the relationships of an Office part
+ * @param zip - Office package
+ * @param part - Path of the part whose relationships are read
+ * @returns Relationships keyed by id, with resolved targets
+ */
+async function readRelationships(
+  zip: JSZip,
+  part: string
+): Promise<Map<string, { type: string; target: string }>> {
+  const slash = part.lastIndexOf('/');
+  const relsPath = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (!zip.file(relsPath)) return relationships;
+
+  const rels = await readXml(zip, relsPath);
+  for (const rel of Array.from(rels.getElementsByTagName('Relationship'))) {
+    if (rel.getAttribute('TargetMode') === 'External') continue;
+    relationships.set(rel.getAttribute('Id') ?? '', {
+      type: rel.getAttribute('Type') ?? '',
+      target: resolvePartPath(part, rel.getAttribute('Target') ?? ''),
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Renders a PDF page and recognizes its text
+ */
+async function recognizePdfPage(engine: OcrEngine, page: pdfjsLib.PDFPageProxy): Promise<PdfTextItem[]> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  await page.render({ canvas, viewport }).promise;
+  const items = await engine.recognize(canvas, OCR_RENDER_SCALE);
+  page.cleanup();
+  return items;
+}
+
+/**
+ * Extracts structured text from a PDF file
+ *
+ * Reads the position and font size of every horizontal text item and
+ * rebuilds headings, paragraphs and reading order from the page layout.
+ * Pages without a text layer, such as scans, are rendered and recognized
+ * with OCR.
+ */
+async function extractPdfText(data: ArrayBuffer, options: ExtractionOptions): Promise<PdfLayoutResult> {
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  const layouts: PdfPageLayout[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const [left, bottom, right, top] = page.view;
+    const textContent = await page.getTextContent();
+
+    const items: PdfTextItem[] = [];
+    for (const item of textContent.items) {
+      if (!('str' in item) || !item.str.trim()) continue;
+
+      // Skip rotated text such as margin stamps
+      const [a, b, c, d, x, y] = item.transform as number[];
+      if (Math.abs(b) > Math.abs(a) * 0.01 || Math.abs(c) > Math.abs(d) * 0.01) continue;
+
+      items.push({
+        text: item.str,
+        x: x - left,
+        y: y - bottom,
+        width: item.width,
+        fontSize: Math.abs(d) || item.height,
+      });
+    }
+
+    layouts.push({ width: right - left, height: top - bottom, items });
+  }
+
+  const scannedPages = layouts
+    .map((layout, index) => (layout.items.length ? 0 : index + 1))
+    .filter(Boolean);
+
+  if (scannedPages.length) {
+    let completed = 0;
+    let current = scannedPages[0];
+    const report = (progress: number): void =>
+      options.onOcrProgress?.({ page: current, completed, total: scannedPages.length, progress });
+
+    report(0);
+    const engine = await createOcrEngine(options.ocrLanguage, report);
+    try {
+      for (const pageNumber of scannedPages) {
+        current = pageNumber;
+        report(0);
+        layouts[pageNumber - 1].items = await recognizePdfPage(engine, await pdf.getPage(pageNumber));
+        completed++;
+      }
+    } finally {
+      await engine.terminate();
+    }
+  }
+
+  return layoutPdfText(layouts);
+}
+
+/**
+ * Recognizes the text of an image with OCR
+ */
+async function extractImageText(file: File, options: ExtractionOptions): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const report = (progress: number): void =>
+    options.onOcrProgress?.({ page: 1, completed: 0, total: 1, progress });
+
+  report(0);
+  const engine = await createOcrEngine(options.ocrLanguage, report);
+  try {
+    const items = await engine.recognize(canvas, 1);
+    return layoutPdfText([{ width: canvas.width, height: canvas.height, items }]).content;
+  } finally {
+    await engine.terminate();
+  }
+}
+
+/**
+ * Reads the heading level of each Word paragraph style
+ *
+ * Styles are matched by name ("Title", "heading 1"...) or outline level, so
+ * headings are found in documents written in any locale.
+ */
+async function readDocxHeadingStyles(zip: JSZip): Promise<Map<string, number>> {
+  const levels = new Map<string, number>();
+  if (!zip.file('word/styles.xml')) return levels;
+
+  const styles = await readXml(zip, 'word/styles.xml');
+  for (const style of descendantsNamed(styles, W_NS, 'style')) {
+    const id = style.getAttributeNS(W_NS, 'styleId');
+    const name = childrenNamed(style, W_NS, 'name')[0]?.getAttributeNS(W_NS, 'val')?.toLowerCase() ?? '';
+    const outline = descendantsNamed(style, W_NS, 'outlineLvl')[0]?.getAttributeNS(W_NS, 'val');
+    const heading = name.match(/^heading (\d)$/);
+
+    if (!id) continue;
+    if (name === 'title') levels.set(id, 1);
+    else if (heading) levels.set(id, Math.min(Number(heading[1]), 6));
+    else if (outline && Number(outline) <= MAX_OUTLINE_LEVEL) levels.set(id, Math.min(Number(outline) + 1, 6));
+  }
+  return levels;
+}
+
+/**
+ * Renders the runs of a Word paragraph, skipping deleted text and field codes
+ */
+function docxRunText(node: Element): string {
+  if (node.namespaceURI === W_NS) {
+    switch (node.localName) {
+      case 't':
+        return node.textContent ?? '';
+      case 'tab':
+        return '\t';
+      case 'br':
+      case 'cr':
+        return '\n';
+      case 'del':
+      case 'instrText':
+      case 'pPr':
+      case 'rPr':
+        return '';
+    }
+  }
+  if (node.namespaceURI === M_NS && node.localName === 't') {
+    return node.textContent ?? '';
+  }
+  // Alternate content repeats its text in a fallback for older readers
+  if (node.namespaceURI === MC_NS && node.localName === 'Fallback') {
+    return '';
+  }
+  return Array.from(node.children).map(docxRunText).join('');
+}
+
+/**
+ * Renders a Word paragraph as a heading, list item or plain paragraph
+ */
+function renderDocxParagraph(paragraph: Element, headingStyles: Map<string, number>): string {
+  const text = docxRunText(paragraph).trim();
+  if (!text) return '';
+
+  const properties = childrenNamed(paragraph, W_NS, 'pPr')[0];
+  const styleId = properties && childrenNamed(properties, W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val');
+  const outline = properties && childrenNamed(properties, W_NS, 'outlineLvl')[0]?.getAttributeNS(W_NS, 'val');
+  const outlineLevel = outline && Number(outline) <= MAX_OUTLINE_LEVEL ? Number(outline) + 1 : 0;
+  const level = (styleId && headingStyles.get(styleId)) || outlineLevel;
+
+  if (level) return `${'#'.repeat(Math.min(level, 6))} ${text.replace(/\s+/g, ' ')}`;
+
+  const numbering = properties && childrenNamed(properties, W_NS, 'numPr')[0];
+  if (numbering) {
+    const depth = Number(childrenNamed(numbering, W_NS, 'ilvl')[0]?.getAttributeNS(W_NS, 'val') ?? 0);
+    return `${'  '.repeat(depth)}- ${text}`;
+  }
+
+  return text;
+}
+
+/**
+ * Renders a Word table as a GitHub-flavored Markdown table
+ */
+function renderDocxTable(table: Element, headingStyles: Map<string, number>): string {
+  const rows = childrenNamed(table, W_NS, 'tr').map((row) =>
+    childrenNamed(row, W_NS, 'tc').map((cell) =>
+      descendantsNamed(cell, W_NS, 'p')
+        .map((paragraph) => renderDocxParagraph(paragraph, headingStyles).replace(/^#+ /, ''))
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const lines = rows.map((cells) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`);
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+  return lines.join('\n');
+}
+
+/**
+ * Renders the block content of a Word body, table cell or content control
+ */
+function renderDocxBlocks(parent: Element, headingStyles: Map<string, number>): string[] {
+  const blocks: string[] = [];
+  let list: string[] = [];
+
+  // Consecutive list items form one block
+  const flushList = (): void => {
+    if (list.length) blocks.push(list.join('\n'));
+    list = [];
+  };
+
+  for (const child of Array.from(parent.children)) {
+    if (child.namespaceURI !== W_NS) continue;
+
+    if (child.localName === 'p') {
+      const paragraph = renderDocxParagraph(child, headingStyles);
+      if (/^\s*- /.test(paragraph)) {
+        list.push(paragraph);
+        continue;
+      }
+      flushList();
+      blocks.push(paragraph);
+    } else if (child.localName === 'tbl') {
+      flushList();
+      blocks.push(renderDocxTable(child, headingStyles));
+    } else if (child.localName === 'sdt') {
+      const content = childrenNamed(child, W_NS, 'sdtContent')[0];
+      if (content) {
+        flushList();
+        blocks.push(...renderDocxBlocks(content, headingStyles));
+      }
+    }
+  }
+
+  flushList();
+  return blocks;
+}
+
+/**
+ * Extracts text from a Word document, keeping headings, lists and tables
+ */
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const zip = await openPackage(data);
+  const document = await readXml(zip, 'word/document.xml');
+  const body = descendantsNamed(document, W_NS, 'body')[0];
+  if (!body) throw new Error('The document has no body');
+
+  const headingStyles = await readDocxHeadingStyles(zip);
+  return joinBlocks(renderDocxBlocks(body, headingStyles));
+}
+
+/**
+ * Renders the paragraphs of a DrawingML text body, indenting by outline level
+ */
+function renderDrawingParagraphs(shape: Element, bullets: boolean): string[] {
+  return descendantsNamed(shape, A_NS, 'p')
+    .map((paragraph) => {
+      const text = Array.from(paragraph.children)
+        .map((run) => {
+          if (run.localName === 'br') return '\n';
+          if (run.localName === 'r' || run.localName === 'fld') {
+            return descendantsNamed(run, A_NS, 't').map((t) => t.textContent ?? '').join('');
+          }
+          return '';
+        })
+        .join('')
+        .trim();
+      if (!text || !bullets) return text;
+
+      const properties = childrenNamed(paragraph, A_NS, 'pPr')[0];
+      const level = Number(properties?.getAttribute('lvl') ?? 0);
+      return `${'  '.repeat(level)}- ${text}`;
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Returns the placeholder type of a slide shape, if it is a placeholder
+ */
+function placeholderType(shape: Element): string | null {
+  const placeholder = descendantsNamed(shape, P_NS, 'ph')[0];
+  if (!placeholder) return null;
+  return placeholder.getAttribute('type') ?? 'body';
+}
+
+/**
+ * Renders the tables on a slide as GitHub-flavored Markdown tables
+ */
+function renderSlideTables(slide: Document): string[] {
+  return descendantsNamed(slide, A_NS, 'tbl').map((table) => {
+    const rows = childrenNamed(table, A_NS, 'tr').map((row) =>
+      childrenNamed(row, A_NS, 'tc').map((cell) =>
+        renderDrawingParagraphs(cell, false).join(' ').replace(/\|/g, '\\|')
+      )
+    );
+    const width = Math.max(0, ...rows.map((cells) => cells.length));
+    const lines = rows.map((cells) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`);
+    if (lines.length) lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+    return lines.join('\n');
+  });
+}
+
+/**
+ * Renders one slide with its title, body text, tables and speaker notes
+ */
+async function renderSlide(zip: JSZip, path: string, number: number): Promise<string> {
+  const slide = await readXml(zip, path);
+  let title = '';
+  const body: string[] = [];
+
+  for (const shape of descendantsNamed(slide, P_NS, 'sp')) {
+    const type = placeholderType(shape);
+    if (type === 'title' || type === 'ctrTitle') {
+      title = renderDrawingParagraphs(shape, false).join(' ').replace(/\s+/g, ' ');
+    } else if (!['sldNum', 'dt', 'ftr', 'hdr'].includes(type ?? '')) {
+      body.push(...renderDrawingParagraphs(shape, type !== 'subTitle'));
+    }
+  }
+
+  const blocks = [
+    title ? `## Slide ${number}: ${title}` : `## Slide ${number}`,
+    body.join('\n'),
+    ...renderSlideTables(slide),
+  ];
+
+  const relationships = await readRelationships(zip, path);
+  const notesPart = Array.from(relationships.values()).find((rel) => rel.type.endsWith('/notesSlide'));
+  if (notesPart && zip.file(notesPart.target)) {
+    const notes = await readXml(zip, notesPart.target);
+    const text = descendantsNamed(notes, P_NS, 'sp')
+      .filter((shape) => placeholderType(shape) === 'body')
+      .flatMap((shape) => renderDrawingParagraphs(shape, false))
+      .join('\n');
+    if (text) blocks.push(`### Speaker Notes\n\n${text}`);
+  }
+
+  return joinBlocks(blocks);
+}
+
+/**
+ * Extracts text from a PowerPoint presentation, slide by slide with speaker notes
+ */
+async function extractPptxText(data: ArrayBuffer): Promise<string> {
+  const zip = await openPackage(data);
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXml(zip, presentationPath);
+  const relationships = await readRelationships(zip, presentationPath);
+
+  // Slide order comes from the slide list, not the part names
+  const slidePaths = descendantsNamed(presentation, P_NS, 'sldId')
+    .map((slideId) => relationships.get(slideId.getAttributeNS(R_NS, 'id') ?? '')?.target)
+    .filter((path): path is string => Boolean(path && zip.file(path)));
+
+  const slides = [];
+  for (const [index, path] of slidePaths.entries()) {
+    slides.push(await renderSlide(zip, path, index + 1));
+  }
+  return joinBlocks(slides);
+}
+
+/**
+ * Parses an EPUB content document, falling back to the HTML parser for invalid XHTML
+ */
+function parseXhtml(markup: string): Document {
+  const xhtml = new DOMParser().parseFromString(markup, 'application/xhtml+xml');
+  if (xhtml.getElementsByTagName('parsererror').length === 0) return xhtml;
+  return new DOMParser().parseFromString(markup, 'text/html');
+}
+
+/**
+ * Reads chapter titles from an EPUB's table of contents
+ *
+ * Uses the EPUB 3 navigation document when present and the EPUB 2 NCX
+ * otherwise. Titles are keyed by content document path; the first entry
+ * pointing into a document wins.
+ */
+async function readEpubToc(
+  zip: JSZip,
+  opfPath: string,
+  manifest: Map<string, { href: string; mediaType: string; properties: string }>,
+  tocId: string | null
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const addTitle = (base: string, href: string | null, label: string | null | undefined): void => {
+    const path = href && resolvePartPath(base, href);
+    const title = label?.replace(/\s+/g, ' ').trim();
+    if (path && title && !titles.has(path)) titles.set(path, title);
+  };
+
+  const nav = Array.from(manifest.values()).find((item) => item.properties.split(/\s+/).includes('nav'));
+  if (nav) {
+    const navPath = resolvePartPath(opfPath, nav.href);
+    const entry = zip.file(navPath);
+    if (entry) {
+      const doc = parseXhtml(await entry.async('string'));
+      const toc =
+        Array.from(doc.getElementsByTagName('nav')).find(
+          (element) => (element.getAttributeNS(OPS_NS, 'type') ?? element.getAttribute('epub:type')) === 'toc'
+        ) ?? doc.getElementsByTagName('nav')[0];
+      Array.from(toc?.getElementsByTagName('a') ?? []).forEach((link) =>
+        addTitle(navPath, link.getAttribute('href'), link.textContent)
+      );
+      if (titles.size) return titles;
+    }
+  }
+
+  const ncx = tocId ? manifest.get(tocId) : undefined;
+  if (ncx) {
+    const ncxPath = resolvePartPath(opfPath, ncx.href);
+    if (zip.file(ncxPath)) {
+      const doc = await readXml(zip, ncxPath);
+      descendantsNamed(doc, NCX_NS, 'navPoint').forEach((point) =>
+        addTitle(
+          ncxPath,
+          descendantsNamed(point, NCX_NS, 'content')[0]?.getAttribute('src') ?? null,
+          descendantsNamed(point, NCX_NS, 'text')[0]?.textContent
+        )
+      );
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Extracts text from an EPUB book, chapter by chapter in reading order
+ */
+async function extractEpubText(data: ArrayBuffer): Promise<string> {
+  const zip = await openPackage(data);
+  const container = await readXml(zip, 'META-INF/container.xml');
+  const rootfile = container.getElementsByTagNameNS(CONTAINER_NS, 'rootfile')[0];
+  const opfPath = rootfile?.getAttribute('full-path');
+  if (!opfPath) throw new Error('The book has no package document');
+
+  const opf = await readXml(zip, opfPath);
+  const manifest = new Map(
+    descendantsNamed(opf, OPF_NS, 'item').map((item) => [
+      item.getAttribute('id') ?? '',
+      {
+        href: item.getAttribute('href') ?? '',
+        mediaType: item.getAttribute('media-type') ?? '',
+        properties: item.getAttribute('properties') ?? '',
+      },
+    ])
+  );
+  const spine = descendantsNamed(opf, OPF_NS, 'spine')[0];
+  const titles = await readEpubToc(zip, opfPath, manifest, spine?.getAttribute('toc') ?? null);
+  const bookTitle = descendantsNamed(opf, DC_NS, 'title')[0]?.textContent?.trim();
+
+  const chapters = bookTitle ? [`# ${bookTitle}`] : [];
+  for (const itemref of spine ? descendantsNamed(spine, OPF_NS, 'itemref') : []) {
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+    if (!item || !/html/.test(item.mediaType)) continue;
+
+    const path = resolvePartPath(opfPath, item.href);
+    const entry = zip.file(path);
+    if (!entry) continue;
+
+    let chapter = htmlToMarkdown(parseXhtml(await entry.async('string')));
+    if (!chapter.trim()) continue;
+
+    // Chapters that open without a heading get their table of contents title
+    const title = titles.get(path);
+    if (title && !/^#{1,6} /.test(chapter)) {
+      chapter = `## ${title}\n\n${chapter}`;
+    }
+    chapters.push(chapter);
+  }
+
+  return joinBlocks(chapters);
+}
+
+/**
+ * Extracts the text content of an uploaded file
+ * @param file - Uploaded file
+ * @param options - OCR language and progress callback
+ * @returns Markdown-style text and the file's MIME type
+ * @throws When the file format is unsupported or the file cannot be read
+ */
+export async function extractFileText(file: File, options: ExtractionOptions): Promise<ExtractedFile> {
+  const format = detectFormat(file);
+  const type = file.type || MIME_TYPES[format];
+
+  try {
+    switch (format) {
+      case 'pdf':
+        return { ...(await extractPdfText(await file.arrayBuffer(), options)), type };
+      case 'docx':
+        return { content: await extractDocxText(await file.arrayBuffer()), type };
+      case 'pptx':
+        return { content: await extractPptxText(await file.arrayBuffer()), type };
+      case 'epub':
+        return { content: await extractEpubText(await file.arrayBuffer()), type };
+      case 'html':
+        return { content: extractReadableContent(await file.text()).content, type };
+      case 'image':
+        return { content: await extractImageText(file, options), type };
+      default:
+        return { content: await file.text(), type };
+    }
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : 'Unknown error';
+    throw new Error(`Could not read "${file.name}": ${reason}`);
+  }
+}
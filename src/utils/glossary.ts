@@ -0,0 +1,117 @@
+/**
+ * Glossary Utilities
+ *
+ * Reads and writes translation glossaries as CSV files (one `source,target`
+ * row per term, for one target language) and checks translations against
+ * them. The check mirrors the server: a term applies to a paragraph when it
+ * occurs there as a whole word, ignoring case, and is violated when its
+ * required translation is missing from the translated paragraph.
+ */
+
+import { GlossaryEntry, TranslatedSegment } from '../api';
+
+/** A glossary term a translated paragraph fails to apply */
+export interface GlossaryViolation {
+  /** Index of the paragraph in the translation */
+  segmentIndex: number;
+  entry: GlossaryEntry;
+}
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+}
+
+/**
+ * Parses a glossary CSV file
+ * @param text - CSV with a source and a target column; a `source,target` header row is optional
+ * @returns Entries with both terms present, later duplicates replacing earlier ones
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows[0]?.[0]?.trim().toLowerCase() === 'source' && rows[0]?.[1]?.trim().toLowerCase() === 'target') {
+    rows.shift();
+  }
+
+  const entries = rows
+    .map(([source = '', target = '']) => ({ source: source.trim(), target: target.trim() }))
+    .filter((entry) => entry.source && entry.target);
+  return mergeGlossary([], entries);
+}
+
+/**
+ * Writes a glossary as CSV with a header row
+ */
+export function glossaryToCsv(entries: GlossaryEntry[]): string {
+  const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return ['source,target', ...entries.map((entry) => `${quote(entry.source)},${quote(entry.target)}`)].join('\r\n') + '\r\n';
+}
+
+/**
+ * Adds entries to a glossary; an added term replaces an existing one with the same source, ignoring case
+ */
+export function mergeGlossary(entries: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] {
+  const merged = new Map(entries.map((entry) => [entry.source.toLowerCase(), entry]));
+  added.forEach((entry) => merged.set(entry.source.toLowerCase(), entry));
+  return Array.from(merged.values());
+}
+
+/**
+ * Tests whether a term occurs in a text as a whole word, ignoring case
+ */
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+/**
+ * Finds glossary terms that translated paragraphs fail to apply
+ * @param segments - Source and translation of each paragraph
+ * @param entries - Glossary of the target language
+ * @returns Violations in paragraph order
+ */
+export function findGlossaryViolations(segments: TranslatedSegment[], entries: GlossaryEntry[]): GlossaryViolation[] {
+  if (entries.length === 0) return [];
+
+  return segments.flatMap((segment, segmentIndex) => {
+    const translated = segment.translation.toLowerCase();
+    return entries
+      .filter((entry) => containsTerm(segment.source, entry.source) && !translated.includes(entry.target.toLowerCase()))
+      .map((entry) => ({ segmentIndex, entry }));
+  });
+}
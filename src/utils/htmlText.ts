@@ -0,0 +1,489 @@
+/**
+ * HTML Text Utilities
+ *
+ * Converts HTML into Markdown-style plain text that keeps the document
+ * structure (headings, lists, tables, code and math) for the downstream
+ * panels, and picks out the main content of web pages.
+ */
+
+/** Elements whose content is never text */
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas',
+  'button', 'input', 'select', 'textarea', 'head',
+]);
+
+/** Elements that start a new block of text */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'div', 'dl',
+  'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'ul',
+]);
+
+/** Class and id fragments of page furniture rather than content */
+const NOISE_PATTERN =
+  /comment|sidebar|share|social|related|promo|advert|sponsor|cookie|banner|breadcrumb|menu|popup|modal|newsletter|subscribe|footer|masthead|pagination|skip-link/i;
+
+/** Class and id fragments that suggest the main content */
+const CONTENT_PATTERN = /article|content|main|post|entry|body|text|story|chapter/i;
+
+/** Elements removed from web pages before looking for the main content */
+const PAGE_FURNITURE_SELECTOR =
+  'nav, aside, footer, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [aria-hidden="true"], [hidden]';
+
+/**
+ * Returns an element's lower-case tag name
+ */
+function tagOf(node: Node): string {
+  return node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '';
+}
+
+/**
+ * Reports whether a node starts a new block of text
+ */
+function isBlock(node: Node): boolean {
+  const tag = tagOf(node);
+  if (tag === 'math') return (node as Element).getAttribute('display') === 'block';
+  if (isTexScript(node)) return /mode\s*=\s*display/i.test((node as Element).getAttribute('type') ?? '');
+  return BLOCK_TAGS.has(tag);
+}
+
+/** LaTeX for MathML operator and identifier characters */
+const MATHML_SYMBOLS: Record<string, string> = {
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ϵ': '\\epsilon',
+  'ζ': '\\zeta', 'η': '\\eta', 'θ': '\\theta', 'κ': '\\kappa', 'λ': '\\lambda', 'μ': '\\mu',
+  'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho', 'σ': '\\sigma', 'τ': '\\tau', 'φ': '\\phi',
+  'ϕ': '\\phi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega', 'Γ': '\\Gamma', 'Δ': '\\Delta',
+  'Θ': '\\Theta', 'Λ': '\\Lambda', 'Π': '\\Pi', 'Σ': '\\Sigma', 'Φ': '\\Phi', 'Ψ': '\\Psi',
+  'Ω': '\\Omega', '∞': '\\infty', '∂': '\\partial', '∇': '\\nabla', '∑': '\\sum', '∏': '\\prod',
+  '∫': '\\int', '∮': '\\oint', '≤': '\\leq', '≥': '\\geq', '≠': '\\neq', '≈': '\\approx',
+  '≡': '\\equiv', '±': '\\pm', '∓': '\\mp', '×': '\\times', '·': '\\cdot', '⋅': '\\cdot',
+  '÷': '\\div', '→': '\\to', '←': '\\leftarrow', '⇒': '\\Rightarrow', '⇔': '\\Leftrightarrow',
+  '↦': '\\mapsto', '∈': '\\in', '∉': '\\notin', '⊂': '\\subset', '⊆': '\\subseteq', '∪': '\\cup',
+  '∩': '\\cap', '∅': '\\emptyset', '∀': '\\forall', '∃': '\\exists', '¬': '\\neg', '∧': '\\land',
+  '∨': '\\lor', '−': '-', '…': '\\ldots', '⋯': '\\cdots', 'ℝ': '\\mathbb{R}', 'ℕ': '\\mathbb{N}',
+  'ℤ': '\\mathbb{Z}', 'ℚ': '\\mathbb{Q}', 'ℂ': '\\mathbb{C}', '\u2061': '', '\u2062': '', '\u2063': '',
+};
+
+/** Accents drawn by <mover>, keyed by the accent character */
+const MATHML_ACCENTS: Record<string, string> = {
+  '¯': '\\overline', '‾': '\\overline', '^': '\\hat', 'ˆ': '\\hat', '~': '\\tilde', '˜': '\\tilde',
+  '→': '\\vec', '⃗': '\\vec', '˙': '\\dot', '¨': '\\ddot',
+};
+
+/** Multi-letter identifiers written as LaTeX operators */
+const MATHML_FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'ker', 'arg', 'deg', 'gcd',
+]);
+
+/**
+ * Converts MathML token text to LaTeX
+ */
+function mathmlToken(text: string): string {
+  const trimmed = text.trim();
+  if (MATHML_FUNCTIONS.has(trimmed)) return `\\${trimmed} `;
+  return Array.from(trimmed)
+    .map((char) => {
+      const latex = MATHML_SYMBOLS[char] ?? char;
+      // Separate command names from the letters that follow them
+      return /^\\[a-zA-Z]+$/.test(latex) ? `${latex} ` : latex;
+    })
+    .join('');
+}
+
+/**
+ * Wraps a LaTeX fragment in braces unless it is a single character or command
+ */
+function group(latex: string): string {
+  const trimmed = latex.trim();
+  return trimmed.length === 1 || /^\\[a-zA-Z]+$/.test(trimmed) ? trimmed : `{${trimmed}}`;
+}
+
+/**
+ * Converts presentation MathML to LaTeX
+ *
+ * Used when a formula carries no TeX annotation or alttext, as with
+ * MathJax 3 assistive MathML.
+ */
+function mathmlToLatex(node: Element): string {
+  const tag = tagOf(node);
+  const children = Array.from(node.children);
+  const convert = (child: Element | undefined): string => (child ? mathmlToLatex(child) : '');
+  const all = (): string => children.map(mathmlToLatex).join('');
+
+  switch (tag) {
+    case 'mi':
+    case 'mn':
+    case 'mo':
+      return mathmlToken(node.textContent ?? '');
+    case 'mtext':
+      return (node.textContent ?? '').trim() ? `\\text{${node.textContent}}` : ' ';
+    case 'mspace':
+      return ' ';
+    case 'semantics':
+      return convert(children[0]);
+    case 'annotation':
+    case 'annotation-xml':
+    case 'mphantom':
+      return '';
+    case 'msup':
+      return `${group(convert(children[0]))}^${group(convert(children[1]))}`;
+    case 'msub':
+      return `${group(convert(children[0]))}_${group(convert(children[1]))}`;
+    case 'msubsup':
+    case 'munderover':
+      return `${group(convert(children[0]))}_${group(convert(children[1]))}^${group(convert(children[2]))}`;
+    case 'mfrac':
+      return `\\frac{${convert(children[0]).trim()}}{${convert(children[1]).trim()}}`;
+    case 'msqrt':
+      return `\\sqrt{${all().trim()}}`;
+    case 'mroot':
+      return `\\sqrt[${convert(children[1]).trim()}]{${convert(children[0]).trim()}}`;
+    case 'mover': {
+      const accent = MATHML_ACCENTS[(children[1]?.textContent ?? '').trim()];
+      const base = convert(children[0]).trim();
+      return accent ? `${accent}{${base}}` : `\\overset{${convert(children[1]).trim()}}{${base}}`;
+    }
+    case 'munder': {
+      const base = convert(children[0]).trim();
+      // Limits of large operators are subscripts; anything else is set underneath
+      return /^\\(sum|prod|lim|max|min|int|bigcup|bigcap)\b/.test(base)
+        ? `${base}_${group(convert(children[1]))}`
+        : `\\underset{${convert(children[1]).trim()}}{${base}}`;
+    }
+    case 'mfenced': {
+      const delimiter = (char: string): string => (char === '{' || char === '}' ? `\\${char}` : char || '.');
+      const open = delimiter(node.getAttribute('open') ?? '(');
+      const close = delimiter(node.getAttribute('close') ?? ')');
+      return `\\left${open}${children.map(mathmlToLatex).join(',')}\\right${close}`;
+    }
+    case 'mtable':
+      return `\\begin{matrix}${children
+        .map((row) => Array.from(row.children).map(mathmlToLatex).join(' & '))
+        .join(' \\\\ ')}\\end{matrix}`;
+    default:
+      return all();
+  }
+}
+
+/**
+ * Reads the LaTeX source of a MathML element
+ *
+ * Prefers a TeX annotation (as written by KaTeX and MathJax), then the
+ * alttext attribute, then a conversion of the MathML markup.
+ */
+function mathToLatex(math: Element): string {
+  const annotation = Array.from(math.getElementsByTagName('annotation')).find((node) =>
+    /tex/i.test(node.getAttribute('encoding') ?? '')
+  );
+  const latex = (
+    annotation?.textContent ??
+    math.getAttribute('alttext') ??
+    mathmlToLatex(math).replace(/\s+/g, ' ')
+  ).trim();
+  if (!latex) return '';
+
+  return math.getAttribute('display') === 'block' ? `$$${latex}$$` : `$${latex}$`;
+}
+
+/**
+ * Reads the LaTeX source of a MathJax 2 `<script type="math/tex">` element
+ */
+function scriptToLatex(script: Element): string {
+  const latex = (script.textContent ?? '').trim();
+  if (!latex) return '';
+  return /mode\s*=\s*display/i.test(script.getAttribute('type') ?? '') ? `$$${latex}$$` : `$${latex}$`;
+}
+
+/**
+ * Reports whether an element is a MathJax 2 TeX source script
+ */
+function isTexScript(node: Node | null): boolean {
+  return !!node && tagOf(node) === 'script' && /^math\/tex/i.test((node as Element).getAttribute('type') ?? '');
+}
+
+/**
+ * Reports whether an element is only a visual rendering of math or other hidden content
+ *
+ * KaTeX and MathJax 3 mark their rendered glyphs aria-hidden next to the
+ * MathML source; MathJax 2 puts its preview and rendering before the TeX
+ * script that holds the source.
+ */
+function isHiddenRendering(element: Element): boolean {
+  if (element.getAttribute('aria-hidden') === 'true') return true;
+
+  const className = element.getAttribute('class') ?? '';
+  if (/\bMathJax_Preview\b/.test(className)) return true;
+  return /\bMathJax(_Display|_SVG|_CHTML)?\b/.test(className) && isTexScript(element.nextElementSibling);
+}
+
+/**
+ * Renders inline content, collapsing whitespace as a browser would
+ */
+function renderInline(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent ?? '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = tagOf(element);
+
+  if (isTexScript(element)) return scriptToLatex(element);
+  if (SKIPPED_TAGS.has(tag) || isHiddenRendering(element)) return '';
+  if (tag === 'br') return '\n';
+  if (tag === 'math') return mathToLatex(element);
+  if (tag === 'img') return element.getAttribute('alt')?.trim() ?? '';
+  if (tag === 'code') {
+    const code = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    return code ? `\`${code}\`` : '';
+  }
+
+  return Array.from(element.childNodes).map(renderInline).join('');
+}
+
+/**
+ * Tidies rendered inline text into a paragraph
+ */
+function cleanParagraph(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Renders a table as a GitHub-flavored Markdown table
+ */
+function renderTable(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter((row) => row.closest('table') === table)
+    .map((row) =>
+      Array.from(row.children)
+        .filter((cell) => ['td', 'th'].includes(tagOf(cell)))
+        .map((cell) => cleanParagraph(renderInline(cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.some(Boolean));
+
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const lines = rows.map(
+    (cells) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`
+  );
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a list, nesting sub-lists by indentation
+ */
+function renderList(list: Element, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const ordered = tagOf(list) === 'ol';
+  const lines: string[] = [];
+  let number = Number(list.getAttribute('start')) || 1;
+
+  for (const item of Array.from(list.children)) {
+    if (tagOf(item) !== 'li') continue;
+
+    const blocks: string[] = [];
+    renderBlocks(item, blocks, depth + 1);
+
+    const marker = ordered ? `${number++}. ` : '- ';
+    const [first = '', ...rest] = blocks;
+    // Nested lists are already indented; other blocks continue the item
+    lines.push(`${indent}${marker}${first.replace(/\n/g, `\n${indent}  `)}`);
+    rest.forEach((block) =>
+      lines.push(/^\s*(?:-|\d+\.) /.test(block) ? block : `${indent}  ${block.replace(/\n/g, `\n${indent}  `)}`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders the children of an element as Markdown blocks
+ * @param parent - Element whose children are rendered
+ * @param blocks - Output blocks, appended in document order
+ * @param depth - Current list nesting depth
+ */
+function renderBlocks(parent: Element, blocks: string[], depth = 0): void {
+  let inline = '';
+
+  const flush = (): void => {
+    const paragraph = cleanParagraph(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = '';
+  };
+
+  for (const node of Array.from(parent.childNodes)) {
+    const tag = tagOf(node);
+    const element = node as Element;
+
+    if (!isBlock(node)) {
+      inline += renderInline(node);
+      continue;
+    }
+    if (isHiddenRendering(element)) continue;
+
+    flush();
+
+    if (/^h[1-6]$/.test(tag)) {
+      const heading = cleanParagraph(renderInline(element)).replace(/\n/g, ' ');
+      if (heading) blocks.push(`${'#'.repeat(Number(tag[1]))} ${heading}`);
+    } else if (tag === 'p') {
+      const paragraph = cleanParagraph(renderInline(element));
+      if (paragraph) blocks.push(paragraph);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const list = renderList(element, depth);
+      if (list) blocks.push(list);
+    } else if (tag === 'pre') {
+      const code = (element.textContent ?? '').replace(/\n+$/, '');
+      if (code.trim()) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+    } else if (tag === 'blockquote') {
+      const quoted: string[] = [];
+      renderBlocks(element, quoted, depth);
+      if (quoted.length) blocks.push(quoted.join('\n\n').replace(/^/gm, '> '));
+    } else if (tag === 'table') {
+      const table = renderTable(element);
+      if (table) blocks.push(table);
+    } else if (tag === 'hr') {
+      blocks.push('---');
+    } else if (tag === 'math') {
+      const math = mathToLatex(element);
+      if (math) blocks.push(math);
+    } else if (tag === 'script') {
+      const math = scriptToLatex(element);
+      if (math) blocks.push(math);
+    } else {
+      renderBlocks(element, blocks, depth);
+    }
+  }
+
+  flush();
+}
+
+/**
+ * Converts HTML content to Markdown-style text
+ * @param root - Element or document to convert
+ * @returns Text with headings, lists, tables, code blocks and LaTeX math preserved
+ */
+export function htmlToMarkdown(root: Element | Document): string {
+  const element = root instanceof Document ? root.body ?? root.documentElement : root;
+  if (!element) return '';
+
+  const blocks: string[] = [];
+  renderBlocks(element, blocks);
+  return blocks.join('\n\n');
+}
+
+/**
+ * Reports whether an element's class or id marks it as page furniture
+ */
+function isNoise(element: Element): boolean {
+  const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+  return NOISE_PATTERN.test(names) && !CONTENT_PATTERN.test(names);
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function linkDensity(element: Element): number {
+  const textLength = (element.textContent ?? '').trim().length;
+  if (!textLength) return 0;
+
+  const linkLength = Array.from(element.getElementsByTagName('a')).reduce(
+    (total, link) => total + (link.textContent ?? '').trim().length,
+    0
+  );
+  return linkLength / textLength;
+}
+
+/**
+ * Base score of a content candidate from its tag and class names
+ */
+function initialScore(element: Element): number {
+  const tag = tagOf(element);
+  const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+  let score = 0;
+
+  if (tag === 'article' || tag === 'main') score += 10;
+  else if (tag === 'div' || tag === 'section') score += 5;
+  else if (['pre', 'td', 'blockquote'].includes(tag)) score += 3;
+  else if (['ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(tag)) score -= 3;
+
+  if (CONTENT_PATTERN.test(names)) score += 25;
+  if (NOISE_PATTERN.test(names)) score -= 25;
+
+  return score;
+}
+
+/**
+ * Finds the element holding a page's main content
+ *
+ * Scores paragraphs by length and comma count and credits their ancestors,
+ * in the manner of Readability; the best-scoring ancestor, discounted by
+ * link density, is the content.
+ */
+function findMainContent(body: Element): Element {
+  const scores = new Map<Element, number>();
+
+  for (const paragraph of Array.from(body.querySelectorAll('p, pre, td'))) {
+    const text = (paragraph.textContent ?? '').trim();
+    if (text.length < 25) continue;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const ancestors = [paragraph.parentElement, paragraph.parentElement?.parentElement];
+
+    ancestors.forEach((ancestor, level) => {
+      if (!ancestor) return;
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      scores.set(ancestor, (scores.get(ancestor) ?? 0) + score / (level + 1));
+    });
+  }
+
+  let best: Element = body;
+  let bestScore = 0;
+
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Extracts the readable main content of a web page
+ * @param html - Page HTML
+ * @returns Page title and Markdown-style main content
+ */
+export function extractReadableContent(html: string): { title: string; content: string } {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title =
+    doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim() ||
+    doc.title.trim() ||
+    doc.querySelector('h1')?.textContent?.trim() ||
+    '';
+
+  doc.querySelectorAll(PAGE_FURNITURE_SELECTOR).forEach((element) => element.remove());
+  Array.from(doc.body.querySelectorAll('div, section, ul, ol, p, span, header'))
+    .filter(isNoise)
+    .forEach((element) => element.remove());
+
+  let content = htmlToMarkdown(findMainContent(doc.body));
+
+  // Keep the page title when the content has no heading of its own
+  if (title && !/^#{1,6} /.test(content)) {
+    content = `# ${title}\n\n${content}`;
+  }
+
+  return { title, content };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JobStatus, runJobQueue } from './jobQueue';
+
+describe('runJobQueue', () => {
+  it('retries failed jobs', async () => {
+    let calls = 0;
+    const statuses: JobStatus[] = [];
+    await runJobQueue(
+      ['a'],
+      async () => {
+        if (++calls < 2) throw new Error('flaky');
+      },
+      (_, status) => statuses.push(status),
+      { concurrency: 1, retries: 2, retryDelayMs: 1 }
+    );
+
+    expect(statuses[statuses.length - 1]).toEqual({ state: 'done', attempt: 2 });
+  });
+
+  it('skips the retry backoff when cancelled during an attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    const statuses: JobStatus[] = [];
+    const started = Date.now();
+
+    await runJobQueue(
+      ['a'],
+      async () => {
+        controller.abort();
+        throw new Error('cancelled mid-request');
+      },
+      (_, status) => statuses.push(status),
+      { concurrency: 1, retries: 2, retryDelayMs: 60000, signal: controller.signal }
+    );
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(statuses[statuses.length - 1]).toEqual({ state: 'cancelled', attempt: 1 });
+  });
+});
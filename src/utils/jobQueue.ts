@@ -0,0 +1,97 @@
+/**
+ * Job Queue
+ *
+ * Runs many independent API jobs, such as batch translations, a few at a time
+ * and retries failed attempts with exponential backoff, reporting each job's
+ * state as it changes.
+ */
+
+/** State of a queued job */
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** Progress of a queued job */
+export interface JobStatus {
+  state: JobState;
+  /** Current or last attempt, starting at 1 */
+  attempt: number;
+  /** Message of the last failure */
+  error?: string;
+}
+
+/** Queue settings */
+export interface JobQueueOptions {
+  /** Maximum jobs running at once */
+  concurrency: number;
+  /** Extra attempts after a failed one */
+  retries: number;
+  /** Delay before the first retry; doubled for each further retry */
+  retryDelayMs: number;
+  /** Stops starting new jobs and attempts; running attempts finish */
+  signal?: AbortSignal;
+}
+
+/**
+ * Waits for a delay, ending early when aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // An aborted signal never fires another abort event
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Runs jobs with bounded concurrency and retries
+ * @param jobs - Job keys in queue order
+ * @param run - Performs one attempt of a job; throws to fail the attempt
+ * @param onStatus - Called whenever a job's status changes
+ * @param options - Queue settings
+ */
+export async function runJobQueue(
+  jobs: string[],
+  run: (job: string) => Promise<void>,
+  onStatus: (job: string, status: JobStatus) => void,
+  { concurrency, retries, retryDelayMs, signal }: JobQueueOptions
+): Promise<void> {
+  let next = 0;
+
+  const runJob = async (job: string): Promise<void> => {
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      if (signal?.aborted) {
+        onStatus(job, { state: 'cancelled', attempt: attempt - 1 });
+        return;
+      }
+
+      onStatus(job, { state: 'running', attempt });
+      try {
+        await run(job);
+        onStatus(job, { state: 'done', attempt });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Job failed';
+        if (attempt > retries) {
+          onStatus(job, { state: 'failed', attempt, error: message });
+          return;
+        }
+        console.warn(`Job ${job} failed on attempt ${attempt}, retrying:`, message);
+        await delay(retryDelayMs * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < jobs.length) {
+      await runJob(jobs[next++]);
+    }
+  };
+
+  jobs.forEach((job) => onStatus(job, { state: 'queued', attempt: 0 }));
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, worker));
+}
@@ -0,0 +1,172 @@
+/**
+ * Language Utilities
+ *
+ * Languages are identified by BCP-47 tags such as `hi`, `pt-BR` or `sr-Latn`.
+ * Names come from the browser's Intl data, so any language it knows can be
+ * picked, not only the suggested ones. Document languages are detected from
+ * character trigrams with franc, falling back to the writing system for
+ * languages franc does not cover.
+ */
+
+import { franc } from 'franc-min';
+import { splitMath } from './math';
+
+/** A language offered by the picker */
+export interface LanguageOption {
+  /** Canonical BCP-47 tag */
+  code: string;
+  /** English name */
+  name: string;
+  /** Name in the language itself, when the browser knows it */
+  nativeName?: string;
+}
+
+/** Regional Indian languages, in the order they are suggested */
+export const INDIAN_LANGUAGES = ['hi', 'bn', 'te', 'mr', 'ta', 'gu', 'kn', 'ml', 'pa', 'or'];
+
+/** Languages suggested before searching; any other valid tag can be typed */
+const SUGGESTED_LANGUAGES = [
+  ...INDIAN_LANGUAGES,
+  'en', 'as', 'ur', 'ne', 'sa', 'sd', 'kok', 'mai', 'mni', 'sat', 'doi', 'ks',
+  'es', 'fr', 'de', 'pt', 'pt-BR', 'it', 'nl', 'ru', 'uk', 'pl', 'cs', 'sk', 'ro', 'hu', 'bg', 'sr', 'hr', 'sl',
+  'el', 'tr', 'sv', 'no', 'da', 'fi', 'et', 'lv', 'lt', 'ga', 'cy',
+  'ar', 'fa', 'he', 'ps', 'ku', 'ka', 'hy', 'az', 'kk', 'uz', 'mn',
+  'zh-Hans', 'zh-Hant', 'ja', 'ko', 'vi', 'th', 'id', 'ms', 'tl', 'my', 'km', 'lo', 'si',
+  'sw', 'am', 'yo', 'ig', 'ha', 'zu', 'xh', 'af', 'so',
+];
+
+/** Shortest text, after removing formulas, worth running detection on */
+const MIN_DETECTION_LENGTH = 20;
+
+/** Text sampled for detection; the start of a document is representative enough */
+const DETECTION_SAMPLE_LENGTH = 5000;
+
+/** Writing systems used by a single language, for languages franc does not cover */
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/\p{Script=Oriya}/gu, 'or'],
+  [/\p{Script=Gurmukhi}/gu, 'pa'],
+  [/\p{Script=Gujarati}/gu, 'gu'],
+  [/\p{Script=Telugu}/gu, 'te'],
+  [/\p{Script=Kannada}/gu, 'kn'],
+  [/\p{Script=Malayalam}/gu, 'ml'],
+  [/\p{Script=Tamil}/gu, 'ta'],
+  [/\p{Script=Sinhala}/gu, 'si'],
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Thai}/gu, 'th'],
+  [/\p{Script=Lao}/gu, 'lo'],
+  [/\p{Script=Khmer}/gu, 'km'],
+  [/\p{Script=Myanmar}/gu, 'my'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Georgian}/gu, 'ka'],
+  [/\p{Script=Armenian}/gu, 'hy'],
+  [/\p{Script=Ethiopic}/gu, 'am'],
+];
+
+/** English language names */
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+/**
+ * Canonicalizes a BCP-47 tag
+ * @param tag - Tag in any case, e.g. `PT-br`
+ * @returns The canonical tag, e.g. `pt-BR`, or null when the tag is invalid or the language unknown
+ */
+export function canonicalLanguageTag(tag: string): string | null {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag.trim());
+    return canonical && displayNames.of(canonical) ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the English name of a language
+ * @param code - BCP-47 tag
+ * @returns Name such as "Brazilian Portuguese", or the tag itself when unknown
+ */
+export function languageName(code: string): string {
+  try {
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Describes a language for the picker
+ */
+export function languageOption(code: string): LanguageOption {
+  let nativeName: string | undefined;
+  try {
+    nativeName = new Intl.DisplayNames([code], { type: 'language', fallback: 'none' }).of(code);
+  } catch {
+    nativeName = undefined;
+  }
+
+  const name = languageName(code);
+  return { code, name, nativeName: nativeName && nativeName !== name ? nativeName : undefined };
+}
+
+/** Suggested languages, described once */
+let suggestions: LanguageOption[] | null = null;
+
+/**
+ * Finds languages matching a search
+ *
+ * Matches tags, English names and native names; names starting with the query
+ * come first. A valid tag that is not suggested, such as `gsw` or `sr-Latn`,
+ * is offered as well.
+ * @param query - Search text
+ * @returns Matching languages
+ */
+export function searchLanguages(query: string): LanguageOption[] {
+  suggestions ??= SUGGESTED_LANGUAGES.map(languageOption);
+  const needle = query.trim().toLowerCase();
+  if (!needle) return suggestions;
+
+  const rank = (option: LanguageOption): number => {
+    const fields = [option.code, option.name, option.nativeName ?? ''].map((field) => field.toLowerCase());
+    if (fields.some((field) => field === needle)) return 0;
+    if (fields.some((field) => field.startsWith(needle))) return 1;
+    return fields.some((field) => field.includes(needle)) ? 2 : -1;
+  };
+
+  const matches = suggestions
+    .map((option) => ({ option, score: rank(option) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score)
+    .map(({ option }) => option);
+
+  const typed = canonicalLanguageTag(query);
+  if (typed && !matches.some((option) => option.code === typed)) {
+    matches.unshift(languageOption(typed));
+  }
+  return matches;
+}
+
+/**
+ * Detects the language of a text
+ *
+ * Formulas are ignored, so a math-heavy document is judged by its prose.
+ * @param text - Document text
+ * @returns BCP-47 tag, or undefined when the text is too short or unclear
+ */
+export function detectLanguage(text: string): string | undefined {
+  const prose = splitMath(text.slice(0, DETECTION_SAMPLE_LENGTH))
+    .map((segment) => (segment.type === 'text' ? segment.text : ' '))
+    .join('');
+  if (prose.replace(/\s+/g, '').length < MIN_DETECTION_LENGTH) return undefined;
+
+  const detected = franc(prose, { minLength: MIN_DETECTION_LENGTH });
+  if (detected !== 'und') {
+    return canonicalLanguageTag(detected) ?? undefined;
+  }
+
+  // franc only knows widely spoken languages; a dominant single-language script settles the rest
+  const letters = prose.match(/\p{L}/gu)?.length ?? 0;
+  for (const [script, code] of SCRIPT_LANGUAGES) {
+    if ((prose.match(script)?.length ?? 0) > letters / 2) return code;
+  }
+  return undefined;
+}
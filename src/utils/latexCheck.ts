@@ -0,0 +1,153 @@
+/**
+ * LaTeX Preservation Check
+ *
+ * Verifies that model output kept the formulas of its source. Formulas
+ * (`$...$`, `$$...$$`, `\(...\)`, `\[...\]` and display environments) are
+ * extracted from both texts and compared after normalizing whitespace and
+ * redundant braces. An output formula that is close to an unmatched source
+ * formula is reported as altered and can be restored; other differences are
+ * reported as missing or added formulas.
+ */
+
+import { MathSegment, splitMath } from './math';
+
+/** A difference between the formulas of a source and its output */
+export interface FormulaIssue {
+  /** missing: source formula absent from the output; altered: output formula changed from a source formula; added: output formula not in the source */
+  kind: 'missing' | 'altered' | 'added';
+  /** Source formula including delimiters, for missing and altered formulas */
+  expected?: string;
+  /** Output formula including delimiters, for altered and added formulas */
+  found?: string;
+  /** Position of the output formula, for altered and added formulas */
+  index?: number;
+}
+
+/** Options for {@link checkFormulas} */
+export interface FormulaCheckOptions {
+  /** Report source formulas absent from the output, e.g. for translations; summaries may leave formulas out */
+  requireAll: boolean;
+}
+
+/** Minimum similarity for an output formula to count as an altered source formula */
+const ALTERED_SIMILARITY = 0.5;
+
+/** A formula and where it occurs */
+interface LocatedFormula {
+  segment: MathSegment;
+  index: number;
+  key: string;
+}
+
+/**
+ * Normalizes TeX for comparison: whitespace and braces around single-character scripts are ignored
+ */
+function normalizeTex(tex: string): string {
+  return tex.replace(/\s+/g, '').replace(/([_^])\{(\\?[a-zA-Z0-9])\}/g, '$1$2');
+}
+
+/**
+ * Extracts the delimited formulas of a text; bare commands outside delimiters are skipped
+ */
+function extractFormulas(text: string): LocatedFormula[] {
+  const formulas: LocatedFormula[] = [];
+  let index = 0;
+
+  for (const segment of splitMath(text)) {
+    if (segment.type === 'math') {
+      // splitMath turns \$ into $, so locate formulas by search rather than by length
+      index = text.indexOf(segment.source, index);
+      if (!segment.implicit) {
+        formulas.push({ segment, index, key: `${segment.display ? 'D' : 'I'}${normalizeTex(segment.tex)}` });
+      }
+      index += segment.source.length;
+    }
+  }
+
+  return formulas;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on Levenshtein distance
+ */
+function similarity(a: string, b: string): number {
+  if (!a.length || !b.length) return a === b ? 1 : 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Compares the formulas of a source text and its output
+ * @param source - Text the output was generated from
+ * @param output - Translation, summary or other output
+ * @param options - Whether every source formula must appear in the output
+ * @returns Differences, altered and added formulas in output order
+ */
+export function checkFormulas(source: string, output: string, { requireAll }: FormulaCheckOptions): FormulaIssue[] {
+  const expected = extractFormulas(source);
+  const found = extractFormulas(output);
+
+  // Match identical formulas first; each source formula matches one output formula
+  const unmatched = new Map<string, LocatedFormula[]>();
+  expected.forEach((formula) => unmatched.set(formula.key, [...(unmatched.get(formula.key) ?? []), formula]));
+  const extra = found.filter((formula) => {
+    const candidates = unmatched.get(formula.key);
+    if (!candidates?.length) return true;
+    candidates.shift();
+    return false;
+  });
+
+  let remaining = Array.from(unmatched.values()).flat().sort((a, b) => a.index - b.index);
+  const issues: FormulaIssue[] = [];
+
+  for (const formula of extra) {
+    const tex = normalizeTex(formula.segment.tex);
+    let best: LocatedFormula | undefined;
+    let bestScore = ALTERED_SIMILARITY;
+    for (const candidate of remaining) {
+      const score = similarity(tex, normalizeTex(candidate.segment.tex));
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      remaining = remaining.filter((candidate) => candidate !== best);
+      issues.push({ kind: 'altered', expected: best.segment.source, found: formula.segment.source, index: formula.index });
+    } else {
+      issues.push({ kind: 'added', found: formula.segment.source, index: formula.index });
+    }
+  }
+
+  if (requireAll) {
+    remaining.forEach((formula) => issues.push({ kind: 'missing', expected: formula.segment.source }));
+  }
+
+  return issues;
+}
+
+/**
+ * Replaces altered formulas in the output with their source version
+ * @param output - Output text the issues were found in
+ * @param issues - Issues from {@link checkFormulas} for this output
+ * @returns Output with altered formulas restored
+ */
+export function restoreFormulas(output: string, issues: FormulaIssue[]): string {
+  return issues
+    .filter((issue) => issue.kind === 'altered' && issue.index !== undefined)
+    .sort((a, b) => b.index! - a.index!)
+    .reduce(
+      (text, issue) => text.slice(0, issue.index) + issue.expected + text.slice(issue.index! + issue.found!.length),
+      output
+    );
+}
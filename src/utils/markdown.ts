@@ -0,0 +1,135 @@
+/**
+ * Markdown Rendering
+ *
+ * Renders document text and model output as HTML: CommonMark with GitHub
+ * tables, task lists and strikethrough, plus LaTeX math typeset by KaTeX.
+ * The Markdown HTML is sanitized against an allowlist before display, so raw
+ * HTML in a document or response (scripts, event handlers, styles) never
+ * reaches the page. Formulas are typeset after sanitizing; KaTeX runs with
+ * `trust` off and emits only its own markup.
+ */
+
+import DOMPurify from 'dompurify';
+import { Marked, TokenizerAndRendererExtension, Tokens } from 'marked';
+import { MathSegment, matchMath, typesetMath } from './math';
+
+/** Markdown token holding a formula */
+interface MathToken extends Tokens.Generic {
+  type: 'blockMath' | 'inlineMath';
+  raw: string;
+  segment: MathSegment;
+}
+
+/** Elements the sanitizer keeps */
+const ALLOWED_TAGS = [
+  'a', 'blockquote', 'br', 'code', 'del', 'details', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+  'img', 'input', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'strong', 'sub', 'summary', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+];
+
+/** Attributes the sanitizer keeps; `class` is further limited to code languages */
+const ALLOWED_ATTR = [
+  'align', 'alt', 'checked', 'class', 'colspan', 'disabled', 'href', 'rowspan', 'src', 'start', 'title', 'type',
+];
+
+/**
+ * Placeholder standing in for a formula until the HTML is sanitized; its
+ * private-use characters pass through Markdown and the sanitizer unchanged
+ */
+const MATH_PLACEHOLDER = /\uE000(\d+)\uE001/g;
+
+/** Formulas found during the current render, indexed by placeholder */
+let formulas: MathSegment[] = [];
+
+/**
+ * Records a formula and returns its placeholder
+ */
+function mathPlaceholder(segment: MathSegment): string {
+  formulas.push(segment);
+  return `\uE000${formulas.length - 1}\uE001`;
+}
+
+/**
+ * Display math on lines of its own: `$$...$$`, `\[...\]` or `\begin{align}...`
+ */
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: (src) => src.match(/^ {0,3}(\$\$|\\\[|\\begin\{)/m)?.index,
+  tokenizer(src): MathToken | undefined {
+    const indent = src.match(/^ {0,3}/)?.[0].length ?? 0;
+    const segment = matchMath(src, indent);
+    if (!segment?.display) return undefined;
+
+    // The formula must end its line to be a block of its own
+    const trailing = src.slice(indent + segment.source.length).match(/^[ \t]*(?:\n|$)/);
+    if (!trailing) return undefined;
+
+    return { type: 'blockMath', raw: src.slice(0, indent + segment.source.length) + trailing[0], segment };
+  },
+  renderer: (token) => `${mathPlaceholder((token as MathToken).segment)}\n`,
+};
+
+/**
+ * Math within a paragraph: `$...$`, `\(...\)`, display delimiters and bare commands
+ */
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src) => src.match(/\$|\\[([a-zA-Z]/)?.index,
+  tokenizer(src): MathToken | undefined {
+    const segment = matchMath(src, 0);
+    return segment ? { type: 'inlineMath', raw: segment.source, segment } : undefined;
+  },
+  renderer: (token) => mathPlaceholder((token as MathToken).segment),
+};
+
+/** Markdown parser with GitHub extensions and math */
+const markdown = new Marked({ gfm: true, breaks: false, async: false }, { extensions: [blockMath, inlineMath] });
+
+/** Sanitizer instance with this module's hooks */
+const purifier = DOMPurify();
+
+purifier.addHook('uponSanitizeAttribute', (_node, data) => {
+  // Formulas in attributes such as image alt text stay as TeX source, restored before the value is checked
+  if (data.attrValue.includes('\uE000')) {
+    data.attrValue = data.attrValue.replace(MATH_PLACEHOLDER, (_, index) => formulas[Number(index)]?.source ?? '');
+  }
+
+  // Code languages only; other classes could restyle the page
+  if (data.attrName === 'class' && !/^language-[\w+-]+$/.test(data.attrValue)) {
+    data.keepAttr = false;
+  }
+});
+
+purifier.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+  // Task list checkboxes only, and read-only
+  if (node.tagName === 'INPUT') {
+    if (node.getAttribute('type') === 'checkbox') node.setAttribute('disabled', '');
+    else node.remove();
+  }
+});
+
+/**
+ * Renders Markdown with LaTeX math as sanitized HTML
+ * @param text - Markdown source
+ * @returns HTML safe to insert into the page
+ */
+export function renderMarkdown(text: string): string {
+  formulas = [];
+  try {
+    const html = markdown.parse(text) as string;
+    const clean = purifier.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR });
+    // Attributes got their TeX source back while sanitizing, so placeholders remain only in text
+    return clean.replace(MATH_PLACEHOLDER, (placeholder, index) => {
+      const segment = formulas[Number(index)];
+      return segment ? typesetMath(segment) : placeholder;
+    });
+  } finally {
+    formulas = [];
+  }
+}
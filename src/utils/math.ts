@@ -0,0 +1,245 @@
+/**
+ * Math Typesetting
+ *
+ * Finds LaTeX math in text and typesets it with KaTeX. Formulas that fail to
+ * parse are shown as an error box with their source and the parser message,
+ * so one bad formula never hides the text around it.
+ */
+
+import katex from 'katex';
+
+/** Plain text between formulas */
+export interface TextSegment {
+  type: 'text';
+  text: string;
+}
+
+/** A formula found in text */
+export interface MathSegment {
+  type: 'math';
+  /** TeX passed to the typesetter, without delimiters */
+  tex: string;
+  /** Display (block) rather than inline math */
+  display: boolean;
+  /** Original text including delimiters */
+  source: string;
+  /**
+   * A bare command such as `\alpha` written outside math delimiters; shown as
+   * plain text when it does not typeset
+   */
+  implicit?: boolean;
+}
+
+export type ContentSegment = TextSegment | MathSegment;
+
+/** Environments typeset as display math even without `$$` delimiters */
+const DISPLAY_ENVIRONMENTS = new Set([
+  'equation', 'equation*', 'align', 'align*', 'aligned', 'gather', 'gather*', 'gathered',
+  'multline', 'multline*', 'eqnarray', 'eqnarray*', 'displaymath', 'cases', 'matrix', 'pmatrix',
+  'bmatrix', 'Bmatrix', 'vmatrix', 'Vmatrix', 'array', 'split',
+]);
+
+/** `\begin{name}` at the current position */
+const ENVIRONMENT_PATTERN = /\\begin\{([a-zA-Z]+\*?)\}/y;
+
+/** `$...$` at the current position */
+const INLINE_MATH_PATTERN = /\$((?:\\.|[^$\\])+?)\$/y;
+
+/** KaTeX settings shared by every formula */
+const KATEX_OPTIONS: katex.KatexOptions = {
+  throwOnError: true,
+  strict: 'ignore',
+  trust: false,
+  maxExpand: 1000,
+  maxSize: 20,
+};
+
+/**
+ * Escapes text for insertion into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Finds the index just past a balanced group
+ * @param text - Text to scan
+ * @param start - Index of the opening bracket
+ * @param open - Opening bracket
+ * @param close - Closing bracket
+ * @returns Index after the matching closing bracket, or -1 when unbalanced
+ */
+function skipGroup(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the end of a bare command with its arguments, sub- and superscripts
+ * @param text - Text to scan
+ * @param start - Index of the backslash
+ * @returns Index after the command
+ */
+function skipBareCommand(text: string, start: number): number {
+  let end = start + 1;
+  while (end < text.length && /[a-zA-Z]/.test(text[end])) end++;
+
+  for (;;) {
+    if (text[end] === '{' || text[end] === '[') {
+      const next = skipGroup(text, end, text[end], text[end] === '{' ? '}' : ']');
+      if (next === -1) return end;
+      end = next;
+    } else if ((text[end] === '^' || text[end] === '_') && end + 1 < text.length) {
+      if (text[end + 1] === '{') {
+        const next = skipGroup(text, end + 1, '{', '}');
+        if (next === -1) return end;
+        end = next;
+      } else if (/[a-zA-Z0-9]/.test(text[end + 1])) {
+        end += 2;
+      } else {
+        return end;
+      }
+    } else {
+      return end;
+    }
+  }
+}
+
+/**
+ * Reads the formula starting at a position, if any
+ *
+ * Recognizes `$...$`, `$$...$$`, `\(...\)`, `\[...\]`, display environments
+ * such as `\begin{align}`, and bare commands such as `\mathbb{R}`. An inline
+ * `$` must hug its formula (`$x$`, not `$ 5 and $`) and is not followed by a
+ * digit, so prices stay text.
+ * @param text - Text to scan
+ * @param start - Position to read from
+ * @returns The formula, or null when none starts there
+ */
+export function matchMath(text: string, start: number): MathSegment | null {
+  const math = (tex: string, display: boolean, end: number, implicit = false): MathSegment => ({
+    type: 'math',
+    tex: tex.trim(),
+    display,
+    source: text.slice(start, end),
+    implicit: implicit || undefined,
+  });
+
+  if (text.startsWith('$$', start)) {
+    const close = text.indexOf('$$', start + 2);
+    return close > start + 2 ? math(text.slice(start + 2, close), true, close + 2) : null;
+  }
+
+  if (text.startsWith('\\[', start) || text.startsWith('\\(', start)) {
+    const display = text[start + 1] === '[';
+    const close = text.indexOf(display ? '\\]' : '\\)', start + 2);
+    return close > start + 2 ? math(text.slice(start + 2, close), display, close + 2) : null;
+  }
+
+  if (text.startsWith('\\begin{', start)) {
+    ENVIRONMENT_PATTERN.lastIndex = start;
+    const name = ENVIRONMENT_PATTERN.exec(text)?.[1];
+    if (!name || !DISPLAY_ENVIRONMENTS.has(name)) return null;
+    const endTag = `\\end{${name}}`;
+    const close = text.indexOf(endTag, start);
+    return close === -1 ? null : math(text.slice(start, close + endTag.length), true, close + endTag.length);
+  }
+
+  if (text[start] === '$') {
+    INLINE_MATH_PATTERN.lastIndex = start;
+    const tex = INLINE_MATH_PATTERN.exec(text)?.[1];
+    const end = INLINE_MATH_PATTERN.lastIndex;
+    const hugs = tex && !/^\s|\s$/.test(tex) && !/\n\s*\n/.test(tex);
+    return hugs && !/\d/.test(text[end] ?? '') ? math(tex, false, end) : null;
+  }
+
+  if (text[start] === '\\' && /[a-zA-Z]/.test(text[start + 1] ?? '')) {
+    const end = skipBareCommand(text, start);
+    return math(text.slice(start, end), false, end, true);
+  }
+
+  return null;
+}
+
+/**
+ * Splits text into plain text and formulas
+ *
+ * Formulas are recognized as by {@link matchMath}; `\$` is a literal dollar sign.
+ * @param text - Text with embedded LaTeX
+ * @returns Segments in document order
+ */
+export function splitMath(text: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let plain = '';
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith('\\$', i)) {
+      plain += '$';
+      i += 2;
+      continue;
+    }
+
+    const segment = matchMath(text, i);
+    if (segment) {
+      if (plain) segments.push({ type: 'text', text: plain });
+      plain = '';
+      segments.push(segment);
+      i += segment.source.length;
+      continue;
+    }
+
+    plain += text[i];
+    i++;
+  }
+
+  if (plain) segments.push({ type: 'text', text: plain });
+  return segments;
+}
+
+/**
+ * Renders an error box for a formula that failed to typeset
+ */
+function renderMathError(segment: MathSegment, message: string): string {
+  // Always a span: display formulas may sit inside a paragraph
+  const layout = segment.display ? 'block my-4' : 'inline-block align-middle';
+
+  return (
+    `<span class="math-error ${layout} px-2 py-1 rounded border border-red-400 bg-red-50 text-red-700 dark:bg-red-900 dark:border-red-700 dark:text-red-300" title="${escapeHtml(message)}">` +
+    `<code class="font-mono text-sm">${escapeHtml(segment.source)}</code>` +
+    `<span class="block text-xs">${escapeHtml(message)}</span>` +
+    '</span>'
+  );
+}
+
+/**
+ * Typesets a formula as HTML
+ *
+ * Never throws: invalid TeX becomes an error box, and a bare command that
+ * does not typeset is returned as escaped text.
+ * @param segment - Formula to typeset
+ * @returns HTML markup
+ */
+export function typesetMath(segment: MathSegment): string {
+  try {
+    return katex.renderToString(segment.tex, { ...KATEX_OPTIONS, displayMode: segment.display });
+  } catch (error) {
+    if (segment.implicit) return escapeHtml(segment.source);
+
+    const message =
+      error instanceof katex.ParseError
+        ? error.message.replace(/^KaTeX parse error: /, '').replace(/\u0332/g, '')
+        : 'This formula could not be rendered';
+    return renderMathError(segment, message);
+  }
+}
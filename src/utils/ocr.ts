@@ -0,0 +1,143 @@
+/**
+ * OCR
+ *
+ * Recognizes text in scanned pages and images in the browser with a WASM
+ * Tesseract worker. The worker, the engine and the language data are served
+ * by the app itself, so images never leave the browser. Recognized lines are
+ * returned as positioned text items, so scanned pages go through the same
+ * layout analysis as PDF text layers.
+ */
+
+import { createWorker, OEM } from 'tesseract.js';
+import { PdfTextItem } from './pdfLayout';
+
+/** A language the OCR model can recognize */
+export interface OcrLanguage {
+  /** Tesseract language code */
+  code: string;
+  label: string;
+}
+
+/** Recognition progress of one image, from 0 to 1 */
+export type OcrProgressHandler = (progress: number) => void;
+
+/** A running OCR worker */
+export interface OcrEngine {
+  /**
+   * Recognizes the text lines of a rendered page
+   * @param canvas - Rendered page or image
+   * @param scale - Pixels per page unit, used to convert positions back to page units
+   */
+  recognize: (canvas: HTMLCanvasElement, scale: number) => Promise<PdfTextItem[]>;
+  terminate: () => Promise<void>;
+}
+
+/** Languages offered for OCR */
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'rus', label: 'Russian' },
+  { code: 'ukr', label: 'Ukrainian' },
+  { code: 'tur', label: 'Turkish' },
+  { code: 'ara', label: 'Arabic' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)' },
+  { code: 'chi_tra', label: 'Chinese (Traditional)' },
+  { code: 'jpn', label: 'Japanese' },
+  { code: 'kor', label: 'Korean' },
+];
+
+/** Language used until the user picks another */
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+
+/** localStorage key of the selected OCR language */
+const STORAGE_KEY = 'ocrLanguage';
+
+/** Locally served Tesseract worker script */
+const WORKER_PATH = '/node_modules/tesseract.js/dist/worker.min.js';
+
+/** Locally served directory of Tesseract WASM engine builds */
+const CORE_PATH = '/node_modules/tesseract.js-core';
+
+/** Locally served directory of `<code>.traineddata.gz` language files */
+const LANG_PATH = '/tessdata';
+
+/**
+ * Reads the saved OCR language
+ */
+export function loadOcrLanguage(): string {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return OCR_LANGUAGES.some((language) => language.code === saved) ? (saved as string) : DEFAULT_OCR_LANGUAGE;
+}
+
+/**
+ * Saves the OCR language selection
+ */
+export function saveOcrLanguage(code: string): void {
+  localStorage.setItem(STORAGE_KEY, code);
+}
+
+/**
+ * Starts an OCR worker for a language
+ * @param language - Tesseract language code
+ * @param onProgress - Called with recognition progress of the current image
+ * @throws When the engine or the language data cannot be loaded
+ */
+export async function createOcrEngine(language: string, onProgress?: OcrProgressHandler): Promise<OcrEngine> {
+  const label = OCR_LANGUAGES.find((entry) => entry.code === language)?.label ?? language;
+
+  let worker: Awaited<ReturnType<typeof createWorker>>;
+  try {
+    worker = await createWorker(language, OEM.LSTM_ONLY, {
+      workerPath: WORKER_PATH,
+      corePath: CORE_PATH,
+      langPath: LANG_PATH,
+      logger: (message) => {
+        if (message.status === 'recognizing text') onProgress?.(message.progress);
+      },
+    });
+  } catch {
+    throw new Error(`OCR data for ${label} is not available`);
+  }
+
+  return {
+    async recognize(canvas, scale) {
+      const { data } = await worker.recognize(canvas, {}, { text: false, blocks: true });
+      const items: PdfTextItem[] = [];
+
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            const text = line.text.trim();
+            if (!text) continue;
+
+            const { bbox, baseline } = line;
+            // Image rows run top to bottom; page baselines are measured from the bottom
+            const baselineY = baseline ? (baseline.y0 + baseline.y1) / 2 : bbox.y1;
+            const rowHeight = line.rowAttributes?.rowHeight || bbox.y1 - bbox.y0;
+
+            items.push({
+              text,
+              x: bbox.x0 / scale,
+              y: (canvas.height - baselineY) / scale,
+              width: (bbox.x1 - bbox.x0) / scale,
+              fontSize: rowHeight / scale,
+            });
+          }
+        }
+      }
+
+      return items;
+    },
+
+    async terminate() {
+      await worker.terminate();
+    },
+  };
+}
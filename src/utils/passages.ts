@@ -0,0 +1,44 @@
+/**
+ * Passage Utilities
+ *
+ * Splits document content into citable passages. Chat sends these passages to the
+ * backend and the source preview renders the same list, so citation indices line up.
+ */
+
+/** Passages longer than this are split at sentence boundaries */
+const MAX_PASSAGE_LENGTH = 1200;
+
+/**
+ * Splits an oversized paragraph at sentence boundaries
+ */
+function splitLongParagraph(paragraph: string): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > MAX_PASSAGE_LENGTH) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Splits document content into passages on blank lines
+ * @param content - Document text
+ * @returns Non-empty passages in document order
+ */
+export function splitPassages(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      paragraph.length > MAX_PASSAGE_LENGTH ? splitLongParagraph(paragraph) : [paragraph]
+    );
+}
@@ -0,0 +1,404 @@
+/**
+ * PDF Layout Analysis
+ *
+ * Rebuilds reading order and structure from the positioned text items that
+ * PDF.js reports: items are grouped into lines, lines are ordered column by
+ * column on two-column pages, running headers, footers and page numbers are
+ * dropped, and lines are joined into headings and paragraphs using font
+ * sizes and line spacing. The output records where each page starts so
+ * features can refer to page numbers.
+ */
+
+/** A positioned run of text on a PDF page */
+export interface PdfTextItem {
+  text: string;
+  /** Left edge, in points from the left of the page */
+  x: number;
+  /** Baseline, in points from the bottom of the page */
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/** The text items of one PDF page */
+export interface PdfPageLayout {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+/** Character range of a page in extracted document text */
+export interface PageSpan {
+  /** 1-based page number */
+  page: number;
+  /** Offset of the page's first character */
+  start: number;
+  /** Offset just past the page's last character */
+  end: number;
+}
+
+/** Structured text of a PDF with its page map */
+export interface PdfLayoutResult {
+  content: string;
+  pages: PageSpan[];
+}
+
+/** A horizontal run of text on one baseline within one column */
+interface Line {
+  page: number;
+  x0: number;
+  x1: number;
+  y: number;
+  fontSize: number;
+  text: string;
+}
+
+/** Gap between items, in ems, that splits a line into separate fragments */
+const FRAGMENT_GAP_EMS = 1.5;
+
+/** Gap between items, in ems, that is read as a space */
+const WORD_GAP_EMS = 0.15;
+
+/** Share of the page height at the top and bottom searched for headers and footers */
+const MARGIN_ZONE = 0.12;
+
+/** Lines this much larger than body text are headings */
+const HEADING_SCALE = 1.15;
+
+/** Maximum length of a heading line */
+const MAX_HEADING_LENGTH = 150;
+
+/** Number of heading levels distinguished by font size */
+const MAX_HEADING_LEVELS = 4;
+
+/** Matches a lone page number such as "7", "- 7 -", "Page 7" or "7 of 20" */
+const PAGE_NUMBER_PATTERN = /^[\W_]*(?:page\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?[\W_]*$/i;
+
+/** Matches a bullet at the start of a line */
+const BULLET_PATTERN = /^[•◦▪▫●○■□‣⁃–]\s*/;
+
+/**
+ * Rounds a font size so that sizes differing by rendering noise compare equal
+ */
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+/**
+ * Joins the items of a fragment, inserting spaces where the gap between items is word-sized
+ */
+function joinItems(items: PdfTextItem[]): string {
+  let text = '';
+  let previous: PdfTextItem | null = null;
+
+  for (const item of items) {
+    if (previous) {
+      const gap = item.x - (previous.x + previous.width);
+      const spaced = /\s$/.test(text) || /^\s/.test(item.text);
+      if (!spaced && gap > Math.min(item.fontSize, previous.fontSize) * WORD_GAP_EMS) text += ' ';
+    }
+    text += item.text;
+    previous = item;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Builds a line from items sharing a baseline, using the dominant font for its size and baseline
+ */
+function makeLine(page: number, items: PdfTextItem[]): Line {
+  const dominant = items.reduce((best, item) => (item.text.length > best.text.length ? item : best));
+
+  return {
+    page,
+    x0: Math.min(...items.map((item) => item.x)),
+    x1: Math.max(...items.map((item) => item.x + item.width)),
+    y: dominant.y,
+    fontSize: dominant.fontSize,
+    text: joinItems(items),
+  };
+}
+
+/**
+ * Groups a page's items into lines, top to bottom, splitting lines at wide gaps
+ */
+function buildLines(layout: PdfPageLayout, page: number): Line[] {
+  const items = layout.items
+    .filter((item) => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: PdfTextItem[][] = [];
+  for (const item of items) {
+    const row = rows[rows.length - 1];
+    const anchor = row?.[0];
+    if (anchor && Math.abs(anchor.y - item.y) <= Math.max(anchor.fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const lines: Line[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+
+    let fragment: PdfTextItem[] = [];
+    for (const item of row) {
+      const previous = fragment[fragment.length - 1];
+      if (previous && item.x - (previous.x + previous.width) > item.fontSize * FRAGMENT_GAP_EMS) {
+        lines.push(makeLine(page, fragment));
+        fragment = [];
+      }
+      fragment.push(item);
+    }
+    if (fragment.length) lines.push(makeLine(page, fragment));
+  }
+
+  return lines.filter((line) => line.text);
+}
+
+/**
+ * Normalizes a header or footer line so that running text matches across pages
+ */
+function marginKey(line: Line): string {
+  return line.text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reports whether a line sits in the top or bottom margin zone of its page
+ */
+function inMarginZone(line: Line, layout: PdfPageLayout): boolean {
+  return line.y > layout.height * (1 - MARGIN_ZONE) || line.y < layout.height * MARGIN_ZONE;
+}
+
+/**
+ * Removes page numbers and running headers and footers
+ *
+ * A margin line is a running header or footer when the same text, with
+ * digits ignored, appears in the margin of at least 40% of pages (and at
+ * least three), which also catches headers that alternate between odd and
+ * even pages.
+ */
+function stripRunningText(pages: Line[][], layouts: PdfPageLayout[]): Line[][] {
+  const pageCounts = new Map<string, number>();
+
+  pages.forEach((lines, index) => {
+    const keys = new Set(lines.filter((line) => inMarginZone(line, layouts[index])).map(marginKey));
+    keys.forEach((key) => pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1));
+  });
+
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.4));
+
+  return pages.map((lines, index) =>
+    lines.filter((line) => {
+      if (!inMarginZone(line, layouts[index])) return true;
+      if (PAGE_NUMBER_PATTERN.test(line.text)) return false;
+      return (pageCounts.get(marginKey(line)) ?? 0) < threshold;
+    })
+  );
+}
+
+/**
+ * Finds the gutter of a two-column page
+ *
+ * Tries positions across the middle of the page and picks the one crossed
+ * by the fewest lines. The page is two-column when few lines cross it and
+ * both sides hold a fair share of the text.
+ * @returns The gutter position, or null for a single-column page
+ */
+function findGutter(lines: Line[], width: number): number | null {
+  if (lines.length < 8) return null;
+
+  const candidates: Array<{ x: number; crossing: number }> = [];
+  for (let x = width * 0.35; x <= width * 0.65; x += width * 0.01) {
+    candidates.push({ x, crossing: lines.filter((line) => line.x0 < x && line.x1 > x).length });
+  }
+
+  // Take the middle of the least-crossed positions so the gutter sits between the columns
+  const fewest = Math.min(...candidates.map((candidate) => candidate.crossing));
+  const clear = candidates.filter((candidate) => candidate.crossing === fewest);
+  const gutter = clear[Math.floor(clear.length / 2)].x;
+  const left = lines.filter((line) => line.x1 <= gutter).length;
+  const right = lines.filter((line) => line.x0 >= gutter).length;
+  const minimumSide = Math.max(3, lines.length * 0.2);
+
+  return fewest <= lines.length * 0.15 && left >= minimumSide && right >= minimumSide
+    ? gutter
+    : null;
+}
+
+/**
+ * Orders a page's lines for reading
+ *
+ * On two-column pages, lines between full-width lines (titles, wide figures)
+ * are read down the left column and then down the right column.
+ */
+function orderLines(lines: Line[], width: number): Line[] {
+  const gutter = findGutter(lines, width);
+  if (gutter === null) return lines;
+
+  const ordered: Line[] = [];
+  let left: Line[] = [];
+  let right: Line[] = [];
+
+  const flush = (): void => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const line of lines) {
+    if (line.x1 <= gutter) left.push(line);
+    else if (line.x0 >= gutter) right.push(line);
+    else {
+      flush();
+      ordered.push(line);
+    }
+  }
+  flush();
+
+  return ordered;
+}
+
+/**
+ * Finds the most common font size, weighted by the amount of text set in it
+ */
+function findBodySize(lines: Line[]): number {
+  const weights = new Map<number, number>();
+  lines.forEach((line) => {
+    const size = roundSize(line.fontSize);
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  });
+
+  let body = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      body = size;
+      bestWeight = weight;
+    }
+  });
+  return body;
+}
+
+/**
+ * Reports whether a line is set as a heading
+ */
+function isHeadingLine(line: Line, bodySize: number): boolean {
+  return (
+    roundSize(line.fontSize) >= bodySize * HEADING_SCALE &&
+    line.text.length <= MAX_HEADING_LENGTH &&
+    /\p{L}.*\p{L}/u.test(line.text)
+  );
+}
+
+/**
+ * Maps heading font sizes to heading levels, largest first
+ */
+function assignHeadingLevels(lines: Line[], bodySize: number): Map<number, number> {
+  const sizes = Array.from(
+    new Set(lines.filter((line) => isHeadingLine(line, bodySize)).map((line) => roundSize(line.fontSize)))
+  ).sort((a, b) => b - a);
+
+  return new Map(sizes.map((size, index) => [size, Math.min(index + 1, MAX_HEADING_LEVELS)]));
+}
+
+/**
+ * Finds the usual distance between consecutive body lines
+ */
+function findLineSpacing(lines: Line[], bodySize: number): number {
+  const gaps: number[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const previous = lines[i - 1];
+    const line = lines[i];
+    const gap = previous.y - line.y;
+    if (
+      previous.page === line.page &&
+      roundSize(previous.fontSize) === bodySize &&
+      roundSize(line.fontSize) === bodySize &&
+      gap > bodySize * 0.5 &&
+      gap < bodySize * 3
+    ) {
+      gaps.push(gap);
+    }
+  }
+
+  if (gaps.length === 0) return bodySize * 1.2;
+  // Lower median, so that a few paragraph gaps do not count as line spacing
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor((gaps.length - 1) / 2)];
+}
+
+/**
+ * Lays out the text of a PDF
+ * @param layouts - Text items of every page, in page order
+ * @returns Markdown-style text with headings and paragraphs, and the character range of each page
+ */
+export function layoutPdfText(layouts: PdfPageLayout[]): PdfLayoutResult {
+  const pageLines = stripRunningText(
+    layouts.map((layout, index) => buildLines(layout, index + 1)),
+    layouts
+  ).map((lines, index) => orderLines(lines, layouts[index].width));
+
+  const lines = pageLines.flat();
+  const bodySize = findBodySize(lines);
+  const headingLevels = assignHeadingLevels(lines, bodySize);
+  const lineSpacing = findLineSpacing(lines, bodySize);
+
+  let content = '';
+  const pageStarts = new Map<number, number>();
+  let previous: Line | null = null;
+  let previousLevel = 0;
+
+  for (const line of lines) {
+    const level = isHeadingLine(line, bodySize) ? headingLevels.get(roundSize(line.fontSize)) ?? 0 : 0;
+    const bullet = BULLET_PATTERN.test(line.text);
+    let text = bullet ? `- ${line.text.replace(BULLET_PATTERN, '')}` : line.text;
+    let separator: string;
+
+    if (!previous) {
+      separator = '';
+    } else if (level || previousLevel) {
+      // Multi-line headings continue; anything else around a heading is a new block
+      separator = level === previousLevel && previous.page === line.page ? ' ' : '\n\n';
+    } else if (bullet) {
+      separator = /^- /.test(content.slice(content.lastIndexOf('\n') + 1)) ? '\n' : '\n\n';
+    } else {
+      const sameFlow = previous.page === line.page && line.y < previous.y;
+      const gap = previous.y - line.y;
+      const sizeChanged = roundSize(previous.fontSize) !== roundSize(line.fontSize);
+      const sentenceEnded = /[.!?:]["')\]]?$/.test(previous.text);
+      const indented = line.x0 - previous.x0 > line.fontSize * 0.8;
+      const paragraphBreak = sameFlow
+        ? gap > lineSpacing * 1.4 || sizeChanged || (indented && sentenceEnded)
+        : sentenceEnded || sizeChanged;
+      separator = paragraphBreak ? '\n\n' : ' ';
+    }
+
+    if (level && separator !== ' ') text = `${'#'.repeat(level)} ${text}`;
+
+    // Rejoin words hyphenated across a line break
+    if (separator === ' ' && /\p{L}-$/u.test(content) && /^\p{Ll}/u.test(text)) {
+      content = content.slice(0, -1);
+      separator = '';
+    }
+
+    if (!pageStarts.has(line.page)) pageStarts.set(line.page, content.length + separator.length);
+    content += separator + text;
+    previous = line;
+    previousLevel = level;
+  }
+
+  // Pages without text (such as scanned pages) get an empty range
+  const pages: PageSpan[] = [];
+  let offset = content.length;
+  for (let page = layouts.length; page >= 1; page--) {
+    const start = pageStarts.get(page) ?? offset;
+    pages.unshift({ page, start, end: pages[0]?.start ?? content.length });
+    offset = start;
+  }
+
+  return { content, pages };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { gradeAnswer, parseNumber } from './quizGrading';
+import { NumericQuestion } from '../api';
+
+describe('parseNumber', () => {
+  it('parses decimals, exponents and fractions', () => {
+    expect(parseNumber('0.5')).toBe(0.5);
+    expect(parseNumber('-1e-3')).toBe(-0.001);
+    expect(parseNumber('1/4')).toBe(0.25);
+    expect(parseNumber('$ 2 $')).toBe(2);
+  });
+
+  it('reads a lone comma with one or two decimals as a decimal comma', () => {
+    expect(parseNumber('0,5')).toBe(0.5);
+    expect(parseNumber('3,14')).toBe(3.14);
+    expect(parseNumber('-2,5')).toBe(-2.5);
+    expect(parseNumber('0,125')).toBe(0.125);
+  });
+
+  it('removes commas grouping thousands', () => {
+    expect(parseNumber('1,000')).toBe(1000);
+    expect(parseNumber('1,000,000')).toBe(1000000);
+    expect(parseNumber('12,345.67')).toBe(12345.67);
+    expect(parseNumber('-1,500')).toBe(-1500);
+  });
+
+  it('rejects malformed input', () => {
+    expect(parseNumber('1,00,0')).toBeNull();
+    expect(parseNumber('1,5.2')).toBeNull();
+    expect(parseNumber('abc')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+});
+
+describe('gradeAnswer', () => {
+  const question: NumericQuestion = {
+    id: 'q1',
+    type: 'numeric',
+    question: 'How many meters are in a kilometer?',
+    explanation: 'A kilometer is 1000 meters.',
+    numericAnswer: 1000,
+    tolerance: 0,
+    unit: 'm',
+  };
+
+  it('accepts numeric answers written with thousands separators', () => {
+    expect(gradeAnswer(question, '1,000')).toBe(true);
+    expect(gradeAnswer(question, '1000')).toBe(true);
+    expect(gradeAnswer(question, '1,0')).toBe(false);
+  });
+});
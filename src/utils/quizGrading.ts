@@ -0,0 +1,108 @@
+/**
+ * Quiz Grading Utilities
+ *
+ * Grades quiz answers that can be checked locally. Short free-text answers
+ * are graded by the model through the API instead.
+ */
+
+import { QuestionType, QuizQuestion } from '../api';
+
+/** A learner's answer: option index, option indices, true/false, or typed text */
+export type QuizAnswer = number | number[] | boolean | string;
+
+/**
+ * Returns a question's type, treating untyped questions as multiple choice
+ */
+export function getQuestionType(question: QuizQuestion): QuestionType {
+  return question.type ?? 'multiple-choice';
+}
+
+/**
+ * Normalizes typed text for comparison: case, spacing, math delimiters and end punctuation
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!]+$/, '');
+}
+
+/**
+ * Rewrites commas in a typed number to the form `Number` parses
+ *
+ * A lone comma followed by one or two digits, or after a leading zero, is a
+ * decimal comma ("0,5", "3,14", "0,125"); commas grouping thousands are
+ * removed ("1,000", "1,234.5").
+ */
+function normalizeCommas(text: string): string {
+  if (/^[-+]?(\d+,\d{1,2}|0,\d+)(e[-+]?\d+)?$/i.test(text)) return text.replace(',', '.');
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?(e[-+]?\d+)?$/i.test(text)) return text.replace(/,/g, '');
+  return text;
+}
+
+/**
+ * Parses a typed number, accepting decimals, exponents, decimal commas, thousands separators and simple fractions
+ * @param input - Typed answer such as "0.5", "1e-3", "0,5", "1,000" or "1/2"
+ * @returns The value, or null when the input is not a number
+ */
+export function parseNumber(input: string): number | null {
+  const text = input.replace(/\$/g, '').replace(/−/g, '-').replace(/\s+/g, '');
+  if (!text) return null;
+
+  const fraction = text.match(/^([-+]?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  const value = Number(normalizeCommas(text));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Reports whether the learner has given an answer
+ */
+export function isAnswered(answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return false;
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === 'string') return answer.trim().length > 0;
+  return true;
+}
+
+/**
+ * Grades an answer locally
+ * @param question - Question being answered
+ * @param answer - Learner's answer, if any
+ * @returns Whether the answer is correct, or null for types graded by the model
+ */
+export function gradeAnswer(question: QuizQuestion, answer: QuizAnswer | undefined): boolean | null {
+  if (question.type === 'short-answer') return null;
+  if (!isAnswered(answer)) return false;
+
+  switch (question.type) {
+    case 'true-false':
+      return answer === question.isTrue;
+    case 'multi-select': {
+      const selected = Array.isArray(answer) ? [...answer].sort((a, b) => a - b) : [];
+      return (
+        selected.length === question.correctAnswers.length &&
+        selected.every((index, position) => index === question.correctAnswers[position])
+      );
+    }
+    case 'fill-blank':
+      return (
+        typeof answer === 'string' &&
+        question.acceptedAnswers.some((accepted) => normalizeText(accepted) === normalizeText(answer))
+      );
+    case 'numeric': {
+      const value = typeof answer === 'string' ? parseNumber(answer) : null;
+      // Allow for floating point error when the tolerance is zero
+      const tolerance = Math.max(question.tolerance, Math.abs(question.numericAnswer) * 1e-9);
+      return value !== null && Math.abs(value - question.numericAnswer) <= tolerance;
+    }
+    default:
+      return answer === question.correctAnswer;
+  }
+}
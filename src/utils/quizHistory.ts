@@ -0,0 +1,131 @@
+/**
+ * Quiz History
+ *
+ * Types of saved quiz attempts and the statistics computed from them: scores,
+ * accuracy per topic and the weak topics a follow-up quiz should focus on.
+ */
+
+import { QuizQuestion } from '../api';
+import { QuizAnswer } from './quizGrading';
+
+/** Quiz difficulty level */
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+/** Grade of one answered question */
+export interface QuestionGrade {
+  correct: boolean;
+  /** Model feedback for short answers */
+  feedback?: string;
+}
+
+/** A submitted quiz as saved in the workspace database */
+export interface QuizAttempt {
+  id: string;
+  quizId: string;
+  documentId: string;
+  documentName: string;
+  difficulty: Difficulty;
+  questions: QuizQuestion[];
+  answers: Record<string, QuizAnswer>;
+  grades: Record<string, QuestionGrade>;
+  /** Percentage of questions answered correctly */
+  score: number;
+  /** Milliseconds each question was worked on, from entering it until leaving it; absent on attempts saved before timing */
+  timings?: Record<string, number>;
+  /** Milliseconds from the quiz being shown to its submission */
+  durationMs?: number;
+  submittedAt: Date;
+}
+
+/** Answers of one topic across attempts */
+export interface TopicStat {
+  topic: string;
+  correct: number;
+  total: number;
+  /** Share of correct answers, from 0 to 1 */
+  accuracy: number;
+}
+
+/** Topic of questions generated before questions had topics */
+export const UNTAGGED_TOPIC = 'Untagged';
+
+/** Accuracy below which a topic counts as weak */
+export const WEAK_TOPIC_ACCURACY = 0.7;
+
+/** Maximum number of topics a follow-up quiz focuses on */
+const MAX_WEAK_TOPICS = 5;
+
+/**
+ * Returns the topic of a question, or the untagged topic for older quizzes
+ */
+export function questionTopic(question: QuizQuestion): string {
+  return question.topic?.trim() || UNTAGGED_TOPIC;
+}
+
+/**
+ * Calculates a quiz score as a percentage of correctly answered questions
+ */
+export function calculateScore(questions: QuizQuestion[], grades: Record<string, QuestionGrade>): number {
+  if (questions.length === 0) return 0;
+  const correct = questions.filter((question) => grades[question.id]?.correct).length;
+  return Math.round((correct / questions.length) * 100);
+}
+
+/**
+ * Tallies answers per topic across attempts
+ * @returns Topics from least to most accurate; equally accurate topics with more answers first
+ */
+export function topicStats(attempts: QuizAttempt[]): TopicStat[] {
+  const tallies = new Map<string, { correct: number; total: number }>();
+
+  attempts.forEach((attempt) => {
+    attempt.questions.forEach((question) => {
+      const topic = questionTopic(question);
+      const tally = tallies.get(topic) ?? { correct: 0, total: 0 };
+      tally.total++;
+      if (attempt.grades[question.id]?.correct) tally.correct++;
+      tallies.set(topic, tally);
+    });
+  });
+
+  return [...tallies.entries()]
+    .map(([topic, { correct, total }]) => ({ topic, correct, total, accuracy: correct / total }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total);
+}
+
+/**
+ * Picks the topics a follow-up quiz should focus on
+ * @returns Up to five tagged topics below the weak accuracy threshold, weakest first
+ */
+export function weakTopics(attempts: QuizAttempt[]): string[] {
+  return topicStats(attempts)
+    .filter(({ topic, accuracy }) => topic !== UNTAGGED_TOPIC && accuracy < WEAK_TOPIC_ACCURACY)
+    .slice(0, MAX_WEAK_TOPICS)
+    .map(({ topic }) => topic);
+}
+
+/**
+ * Groups attempts by quiz
+ * @returns Attempts of each quiz, oldest first; quizzes with the latest attempt first
+ */
+export function groupByQuiz(attempts: QuizAttempt[]): QuizAttempt[][] {
+  const groups = new Map<string, QuizAttempt[]>();
+  [...attempts]
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime())
+    .forEach((attempt) => groups.set(attempt.quizId, [...(groups.get(attempt.quizId) ?? []), attempt]));
+
+  return [...groups.values()].sort(
+    (a, b) => new Date(b[b.length - 1].submittedAt).getTime() - new Date(a[a.length - 1].submittedAt).getTime()
+  );
+}
+
+/**
+ * Formats a duration such as "45 s" or "3 min 20 s"
+ * @param ms - Duration in milliseconds
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 ? `${minutes} min ${seconds % 60} s` : `${minutes} min`;
+}
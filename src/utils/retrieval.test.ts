@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { embedTexts } from '../api';
+import { retrievePassages } from './retrieval';
+
+vi.mock('../api', () => ({
+  // Vectors of [1, 0] for passages about cats, [0, 1] for the rest
+  embedTexts: vi.fn(async (texts: string[]) => ({
+    success: true,
+    data: { embeddings: texts.map((text) => (/cat/i.test(text) ? [1, 0] : [0, 1])) },
+  })),
+}));
+
+/** A document of paragraphs */
+function document(id: string, paragraphs: string[]) {
+  return { id, name: id, content: paragraphs.join('\n\n') };
+}
+
+describe('retrievePassages', () => {
+  it('embeds the query once for all documents', async () => {
+    const documents = ['a', 'b', 'c'].map((id) =>
+      document(id, [`Dogs bark in document ${id}.`, `Cats purr in document ${id}.`, `Birds sing in document ${id}.`])
+    );
+
+    const selected = await retrievePassages(documents, 'Why do cats purr?', 'embeddings', 3);
+
+    const queryCalls = vi.mocked(embedTexts).mock.calls.filter(([texts]) => texts.includes('Why do cats purr?'));
+    expect(queryCalls).toHaveLength(1);
+    expect(selected.map((doc) => doc.passages.map((passage) => passage.index))).toEqual([[1], [1], [1]]);
+  });
+});
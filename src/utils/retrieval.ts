@@ -0,0 +1,360 @@
+/**
+ * Passage Retrieval
+ *
+ * Indexes each document's passages so chat sends only the passages relevant to a
+ * question instead of the full text. Index backends are pluggable: a local BM25
+ * keyword index that works offline, and a semantic index built from the server's
+ * embedding model. Indexes are cached per document and backend.
+ */
+
+import { embedTexts, ChatDocument } from '../api';
+import { splitPassages } from './passages';
+
+/** Available index backend identifiers */
+export type RetrievalBackendId = 'bm25' | 'embeddings';
+
+/** Document fields needed for indexing */
+interface IndexableDocument {
+  id: string;
+  name: string;
+  content: string;
+}
+
+/** A passage matched by a search */
+interface RankedPassage {
+  /** Zero-based passage index within the document */
+  index: number;
+  score: number;
+}
+
+/** A query prepared once per search and scored against every document's index */
+interface PreparedQuery {
+  text: string;
+  /** Query embedding, for the semantic backend */
+  vector?: number[];
+}
+
+/** Searchable index over one document's passages */
+interface PassageIndex {
+  search(query: PreparedQuery, limit: number): RankedPassage[];
+}
+
+/** Index backend configuration */
+interface RetrievalBackend {
+  id: RetrievalBackendId;
+  label: string;
+  buildIndex(passages: string[], documentId: string): Promise<PassageIndex>;
+  prepareQuery(query: string): Promise<PreparedQuery>;
+}
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 document length normalization */
+const BM25_B = 0.75;
+
+/** Maximum number of texts sent per embedding request */
+const EMBED_BATCH_SIZE = 100;
+
+/** localStorage key of the preferred backend */
+const BACKEND_STORAGE_KEY = 'retrievalBackend';
+
+/** Backend used when no preference is stored, and when another backend fails */
+export const DEFAULT_RETRIEVAL_BACKEND: RetrievalBackendId = 'bm25';
+
+/** Common English words ignored by the keyword index */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+/**
+ * Splits text into lowercase search terms, keeping LaTeX commands such as \frac
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/\\[a-z]+|[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Builds an offline BM25 keyword index
+ */
+async function buildBm25Index(passages: string[]): Promise<PassageIndex> {
+  const termCounts = passages.map((passage) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(passage)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const lengths = termCounts.map((counts) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0)
+  );
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / passages.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return {
+    search(query, limit) {
+      const queryTerms = [...new Set(tokenize(query.text))];
+
+      return termCounts
+        .map((counts, index) => {
+          let score = 0;
+          for (const term of queryTerms) {
+            const frequency = counts.get(term);
+            if (!frequency) continue;
+
+            const df = documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+            const norm = 1 - BM25_B + BM25_B * (lengths[index] / averageLength);
+            score += (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+          }
+          return { index, score };
+        })
+        .filter((ranked) => ranked.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Embeds texts in batches with the server's embedding model
+ */
+async function embedAll(texts: string[], documentId?: string): Promise<number[][]> {
+  const vectors: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const response = await embedTexts(texts.slice(start, start + EMBED_BATCH_SIZE), documentId);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Embedding failed');
+    }
+    vectors.push(...response.data.embeddings);
+  }
+
+  return vectors;
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Builds a semantic index from server-side embeddings
+ */
+async function buildEmbeddingIndex(passages: string[], documentId: string): Promise<PassageIndex> {
+  const vectors = await embedAll(passages, documentId);
+
+  return {
+    search({ vector: queryVector }, limit) {
+      if (!queryVector) throw new Error('Semantic search needs an embedded query');
+
+      return vectors
+        .map((vector, index) => ({ index, score: cosineSimilarity(queryVector, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Embeds a query once so every document's semantic index can score it
+ */
+async function embedQuery(text: string): Promise<PreparedQuery> {
+  const [vector] = await embedAll([text]);
+  return { text, vector };
+}
+
+/** Available index backends */
+export const RETRIEVAL_BACKENDS: RetrievalBackend[] = [
+  {
+    id: 'bm25',
+    label: 'Keyword (offline)',
+    buildIndex: buildBm25Index,
+    prepareQuery: async (text) => ({ text }),
+  },
+  {
+    id: 'embeddings',
+    label: 'Semantic (embeddings)',
+    buildIndex: buildEmbeddingIndex,
+    prepareQuery: embedQuery,
+  },
+];
+
+/** Built indexes keyed by backend and document */
+const indexCache = new Map<string, { content: string; index: Promise<PassageIndex> }>();
+
+/**
+ * Splits a document into the passages chat cites
+ */
+function getPassages(document: IndexableDocument): string[] {
+  const passages = splitPassages(document.content);
+  return passages.length ? passages : [document.content];
+}
+
+/**
+ * Looks up a backend by identifier
+ */
+function findBackend(backendId: RetrievalBackendId): RetrievalBackend {
+  const backend = RETRIEVAL_BACKENDS.find((candidate) => candidate.id === backendId);
+  if (!backend) throw new Error(`Unknown retrieval backend: ${backendId}`);
+  return backend;
+}
+
+/**
+ * Returns the cached index for a document, building it on first use
+ */
+function getDocumentIndex(
+  document: IndexableDocument,
+  backendId: RetrievalBackendId
+): Promise<PassageIndex> {
+  const key = `${backendId}:${document.id}`;
+  const cached = indexCache.get(key);
+  if (cached && cached.content === document.content) return cached.index;
+
+  const index = findBackend(backendId).buildIndex(getPassages(document), document.id);
+  indexCache.set(key, { content: document.content, index });
+
+  // Forget failed builds so the next question retries
+  index.catch(() => {
+    if (indexCache.get(key)?.index === index) indexCache.delete(key);
+  });
+
+  return index;
+}
+
+/**
+ * Reads the preferred backend from localStorage
+ */
+export function loadRetrievalBackend(): RetrievalBackendId {
+  const stored = localStorage.getItem(BACKEND_STORAGE_KEY);
+  return RETRIEVAL_BACKENDS.some((backend) => backend.id === stored)
+    ? (stored as RetrievalBackendId)
+    : DEFAULT_RETRIEVAL_BACKEND;
+}
+
+/**
+ * Stores the preferred backend in localStorage
+ */
+export function saveRetrievalBackend(backendId: RetrievalBackendId): void {
+  localStorage.setItem(BACKEND_STORAGE_KEY, backendId);
+}
+
+/**
+ * Indexes documents ahead of the first question and drops indexes of removed documents
+ * @param documents - Currently loaded documents
+ * @param backendId - Backend to build indexes with
+ */
+export function indexDocuments(documents: IndexableDocument[], backendId: RetrievalBackendId): void {
+  const loadedIds = new Set(documents.map((doc) => doc.id));
+  for (const key of indexCache.keys()) {
+    const documentId = key.slice(key.indexOf(':') + 1);
+    if (!loadedIds.has(documentId)) indexCache.delete(key);
+  }
+
+  for (const document of documents) {
+    getDocumentIndex(document, backendId).catch((error) => {
+      console.warn(`Failed to index document ${document.id}:`, error);
+    });
+  }
+}
+
+/**
+ * Ranks every document's passages against the query with one backend
+ *
+ * The query is prepared (for semantic search, embedded) once for all documents.
+ */
+async function rankPassages(
+  documents: IndexableDocument[],
+  query: string,
+  backendId: RetrievalBackendId,
+  limit: number
+): Promise<RankedPassage[][]> {
+  const [indexes, prepared] = await Promise.all([
+    Promise.all(documents.map((document) => getDocumentIndex(document, backendId))),
+    findBackend(backendId).prepareQuery(query),
+  ]);
+  return indexes.map((index) => index.search(prepared, limit));
+}
+
+/**
+ * Selects the passages most relevant to a query as chat context
+ *
+ * Small selections are sent whole. Otherwise the `limit` best passages across all
+ * documents are kept, plus each document's best passage so none drops out entirely.
+ * Falls back to the offline backend when the chosen one fails.
+ * @param documents - Documents to draw passages from
+ * @param query - Question text used for ranking
+ * @param backendId - Backend to rank with
+ * @param limit - Maximum number of passages across all documents
+ * @returns Chat documents holding the selected passages in document order
+ */
+export async function retrievePassages(
+  documents: IndexableDocument[],
+  query: string,
+  backendId: RetrievalBackendId,
+  limit: number
+): Promise<ChatDocument[]> {
+  const passagesByDoc = documents.map(getPassages);
+  const totalPassages = passagesByDoc.reduce((sum, passages) => sum + passages.length, 0);
+
+  if (totalPassages <= limit) {
+    return documents.map((doc, docIndex) => ({
+      id: doc.id,
+      name: doc.name,
+      passages: passagesByDoc[docIndex].map((text, index) => ({ index, text })),
+    }));
+  }
+
+  let rankings: RankedPassage[][];
+  try {
+    rankings = await rankPassages(documents, query, backendId, limit);
+  } catch (error) {
+    if (backendId === DEFAULT_RETRIEVAL_BACKEND) throw error;
+    console.warn(`Retrieval with ${backendId} failed, using ${DEFAULT_RETRIEVAL_BACKEND}:`, error);
+    rankings = await rankPassages(documents, query, DEFAULT_RETRIEVAL_BACKEND, limit);
+  }
+
+  const best = rankings
+    .flatMap((ranked, docIndex) => ranked.map((passage) => ({ ...passage, docIndex })))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return documents.map((doc, docIndex) => {
+    const selected = new Set(
+      best.filter((passage) => passage.docIndex === docIndex).map((passage) => passage.index)
+    );
+    // Keep the document represented even when nothing matched the query
+    if (selected.size === 0) selected.add(rankings[docIndex][0]?.index ?? 0);
+
+    return {
+      id: doc.id,
+      name: doc.name,
+      passages: [...selected]
+        .sort((a, b) => a - b)
+        .map((index) => ({ index, text: passagesByDoc[docIndex][index] })),
+    };
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Spaced Repetition
+ *
+ * Schedules flashcard reviews with the SM-2 algorithm. Each review is graded
+ * from 0 (forgotten) to 5 (perfect recall). A recalled card's interval grows
+ * from 1 day to 6 days and then by its ease factor, which rises or falls with
+ * the grade. A forgotten card starts over and comes back a few minutes later,
+ * so it is relearned in the same session.
+ */
+
+/** Recall quality of a review, from 0 (forgotten) to 5 (perfect) */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Review state of one card */
+export interface CardSchedule {
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Days until the next review after the last successful one */
+  intervalDays: number;
+  /** Interval multiplier, at least 1.3 */
+  easeFactor: number;
+  /** When the card is next due, in epoch milliseconds */
+  due: number;
+  /** When the card was last reviewed, in epoch milliseconds */
+  lastReviewed?: number;
+  /** Times the card was forgotten after being learned */
+  lapses: number;
+}
+
+/** A grading button of the study view */
+export interface GradeOption {
+  grade: ReviewGrade;
+  label: string;
+}
+
+/** Grades offered while studying, from forgotten to easy */
+export const GRADE_OPTIONS: GradeOption[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+/** Ease factor of a new card */
+const INITIAL_EASE = 2.5;
+
+/** Lowest ease factor; below it intervals would barely grow */
+const MIN_EASE = 1.3;
+
+/** Lowest grade that counts as recalled */
+const PASSING_GRADE = 3;
+
+/** Delay before a forgotten card is shown again */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule of a card that has never been reviewed; it is due immediately
+ * @param now - Current time in epoch milliseconds
+ */
+export function newSchedule(now: number = Date.now()): CardSchedule {
+  return { repetitions: 0, intervalDays: 0, easeFactor: INITIAL_EASE, due: now, lapses: 0 };
+}
+
+/**
+ * Schedules a card after a review
+ * @param schedule - Schedule before the review
+ * @param grade - Recall quality
+ * @param now - Review time in epoch milliseconds
+ * @returns The new schedule
+ */
+export function reviewCard(schedule: CardSchedule, grade: ReviewGrade, now: number = Date.now()): CardSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < PASSING_GRADE) {
+    return {
+      repetitions: 0,
+      intervalDays: 0,
+      easeFactor,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now,
+      lapses: schedule.lapses + (schedule.repetitions > 0 ? 1 : 0),
+    };
+  }
+
+  const intervalDays =
+    schedule.repetitions === 0 ? 1 : schedule.repetitions === 1 ? 6 : Math.round(schedule.intervalDays * easeFactor);
+
+  return {
+    repetitions: schedule.repetitions + 1,
+    intervalDays,
+    easeFactor,
+    due: now + intervalDays * DAY_MS,
+    lastReviewed: now,
+    lapses: schedule.lapses,
+  };
+}
+
+/**
+ * Whether a card is due for review
+ */
+export function isDue(schedule: CardSchedule, now: number = Date.now()): boolean {
+  return schedule.due <= now;
+}
+
+/**
+ * Describes the wait until a time, e.g. "10 min", "1 day" or "3 mo"
+ * @param due - Time in epoch milliseconds
+ * @param now - Current time in epoch milliseconds
+ */
+export function formatWait(due: number, now: number = Date.now()): string {
+  const minutes = Math.max(0, Math.round((due - now) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h`;
+
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 31) return `${days} ${days === 1 ? 'day' : 'days'}`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} yr`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Summary Styles
+ *
+ * Describes the shapes a summary can take and parses the fixed Markdown
+ * layout of the structured ones, so they can be rendered as takeaway lists,
+ * term tables and formula cards. Parsers return an empty list when the model
+ * did not follow the layout; callers then show the Markdown as it is.
+ */
+
+import { SummaryLength, SummaryStyle } from '../api';
+
+/** Display details of a summary style */
+export interface SummaryStyleInfo {
+  label: string;
+  description: string;
+  /** Whether the style takes a length */
+  usesLength: boolean;
+}
+
+/** A term of a glossary summary */
+export interface GlossaryTerm {
+  term: string;
+  /** Definition in Markdown with LaTeX */
+  definition: string;
+}
+
+/** An equation of a formula sheet */
+export interface FormulaSheetEntry {
+  title: string;
+  /** Equation with its display math delimiters */
+  formula: string;
+  /** What the equation states, in Markdown with LaTeX */
+  explanation: string;
+}
+
+/** Available summary styles, in the order they are offered */
+export const SUMMARY_STYLES: Record<SummaryStyle, SummaryStyleInfo> = {
+  prose: { label: 'Summary', description: 'Condensed prose', usesLength: true },
+  outline: { label: 'Outline', description: 'Hierarchical sections and subtopics', usesLength: true },
+  takeaways: { label: 'Key Takeaways', description: 'One-sentence bullet points', usesLength: true },
+  glossary: { label: 'Glossary', description: 'Defined terms with their definitions', usesLength: false },
+  formulas: { label: 'Formula Sheet', description: 'Every equation with its meaning', usesLength: false },
+  tldr: { label: 'TL;DR', description: 'A single sentence', usesLength: false },
+};
+
+/**
+ * Title of a summary, e.g. "Medium Summary" or "Short Key Takeaways"
+ * @param style - Summary style; results saved before styles existed have none
+ * @param length - Summary length, for styles that take one
+ */
+export function summaryTitle(style: SummaryStyle | undefined, length: SummaryLength | undefined): string {
+  const info = SUMMARY_STYLES[style ?? 'prose'] ?? SUMMARY_STYLES.prose;
+  if (!info.usesLength || !length) return info.label;
+  return `${length.charAt(0).toUpperCase()}${length.slice(1)} ${info.label}`;
+}
+
+/**
+ * Top-level bullet items of a Markdown list, continuation lines joined
+ */
+function bulletItems(text: string): string[] {
+  const items: string[] = [];
+  for (const line of text.split('\n')) {
+    const bullet = line.match(/^[-*+]\s+(.*)$/) ?? line.match(/^\d+[.)]\s+(.*)$/);
+    if (bullet) {
+      items.push(bullet[1].trim());
+    } else if (line.trim() && items.length) {
+      items[items.length - 1] += ` ${line.trim()}`;
+    }
+  }
+  return items;
+}
+
+/**
+ * Parses key takeaways
+ * @param text - Takeaways summary, a bulleted list
+ * @returns One entry per takeaway
+ */
+export function parseTakeaways(text: string): string[] {
+  return bulletItems(text).filter(Boolean);
+}
+
+/**
+ * Parses a glossary summary of `- **Term**: definition` bullets
+ * @param text - Glossary summary
+ * @returns Terms in order, or an empty list when the layout was not followed
+ */
+export function parseGlossarySummary(text: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+  for (const item of bulletItems(text)) {
+    const match = item.match(/^\*\*(.+?)\*\*\s*[:–—-]?\s*(.*)$/);
+    if (match && match[2].trim()) {
+      terms.push({ term: match[1].replace(/:$/, '').trim(), definition: match[2].trim() });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Parses a formula sheet of `### Title` sections, each holding one display equation and its explanation
+ * @param text - Formula sheet summary
+ * @returns Equations in order, or an empty list when the layout was not followed
+ */
+export function parseFormulaSheet(text: string): FormulaSheetEntry[] {
+  const entries: FormulaSheetEntry[] = [];
+  for (const section of text.split(/^#{2,4}\s+/m).slice(1)) {
+    const newline = section.indexOf('\n');
+    const title = (newline === -1 ? section : section.slice(0, newline)).trim();
+    const body = newline === -1 ? '' : section.slice(newline + 1);
+    const display = body.match(/\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\begin\{(\w+\*?)\}[\s\S]+?\\end\{\1\}/);
+    if (title && display) {
+      entries.push({
+        title,
+        formula: display[0].trim(),
+        explanation: body.replace(display[0], '').trim(),
+      });
+    }
+  }
+  return entries;
+}
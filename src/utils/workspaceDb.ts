@@ -0,0 +1,232 @@
+/**
+ * Workspace Database
+ *
+ * Persists the workspace (documents, results, chat threads, quiz attempts,
+ * translation glossaries and flashcard decks) in IndexedDB so it survives page reloads. The schema
+ * is versioned: each entry in MIGRATIONS upgrades the database by one version,
+ * and the database version is the number of migrations.
+ */
+
+/** IndexedDB database name */
+const DB_NAME = 'polyform-workspace';
+
+/** Object stores in the workspace database */
+export type StoreName = 'documents' | 'results' | 'chatThreads' | 'quizAttempts' | 'glossaries' | 'flashcardDecks';
+
+/** Every object store, in display order */
+export const STORE_NAMES: StoreName[] = [
+  'documents',
+  'results',
+  'chatThreads',
+  'quizAttempts',
+  'glossaries',
+  'flashcardDecks',
+];
+
+/**
+ * Schema migrations; MIGRATIONS[n] upgrades version n to version n + 1
+ *
+ * Never edit a released migration. Append a new one instead.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: initial workspace stores
+  (db) => {
+    db.createObjectStore('documents', { keyPath: 'id' });
+    db.createObjectStore('results', { keyPath: 'id' });
+    db.createObjectStore('chatThreads', { keyPath: 'key' });
+    const attempts = db.createObjectStore('quizAttempts', { keyPath: 'id' });
+    attempts.createIndex('documentId', 'documentId');
+  },
+  // v2: translation glossaries, one record per target language
+  (db) => {
+    db.createObjectStore('glossaries', { keyPath: 'language' });
+  },
+  // v3: flashcard decks with their review schedules
+  (db) => {
+    db.createObjectStore('flashcardDecks', { keyPath: 'id' });
+  },
+];
+
+/** Current schema version */
+const DB_VERSION = MIGRATIONS.length;
+
+/** Per-store record count and approximate size */
+export interface StoreUsage {
+  store: StoreName;
+  count: number;
+  /** Approximate serialized size in bytes */
+  bytes: number;
+}
+
+/** Storage used by the workspace */
+export interface WorkspaceUsage {
+  stores: StoreUsage[];
+  /** Origin-wide usage reported by the browser, when available */
+  usage?: number;
+  /** Origin-wide quota reported by the browser, when available */
+  quota?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Opens the workspace database, running pending migrations
+ */
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction;
+        if (!transaction) return;
+
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Workspace database upgrade is blocked by another tab'));
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Reads every record in a store
+ * @param store - Store to read
+ * @returns Records in key order
+ */
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Reads the records of a store that match an index value
+ * @param store - Store to read
+ * @param index - Index name
+ * @param value - Indexed value to match
+ */
+export async function getRecordsByIndex<T>(
+  store: StoreName,
+  index: string,
+  value: IDBValidKey
+): Promise<T[]> {
+  const db = await openDb();
+  const request = db.transaction(store).objectStore(store).index(index).getAll(value);
+  return promisify(request as IDBRequest<T[]>);
+}
+
+/**
+ * Inserts or updates one record
+ * @param store - Store to write
+ * @param record - Record including its key
+ */
+export async function putRecord<T>(store: StoreName, record: T): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).put(record);
+  return transactionDone(transaction);
+}
+
+/**
+ * Deletes one record
+ * @param store - Store to write
+ * @param key - Key of the record
+ */
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  return transactionDone(transaction);
+}
+
+/**
+ * Replaces the full contents of a store in one transaction
+ * @param store - Store to write
+ * @param records - Records that should remain in the store
+ */
+export async function replaceRecords<T>(store: StoreName, records: T[]): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+
+  objectStore.clear();
+  records.forEach((record) => objectStore.put(record));
+
+  return transactionDone(transaction);
+}
+
+/**
+ * Deletes every record from every store
+ */
+export async function clearWorkspace(): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(STORE_NAMES, 'readwrite');
+  STORE_NAMES.forEach((store) => transaction.objectStore(store).clear());
+  return transactionDone(transaction);
+}
+
+/**
+ * Measures how much storage the workspace uses
+ *
+ * Per-store sizes are estimated from the JSON size of the records.
+ */
+export async function getWorkspaceUsage(): Promise<WorkspaceUsage> {
+  const stores = await Promise.all(
+    STORE_NAMES.map(async (store) => {
+      const records = await getAllRecords<unknown>(store);
+      const bytes = records.reduce<number>(
+        (total, record) => total + new Blob([JSON.stringify(record)]).size,
+        0
+      );
+      return { store, count: records.length, bytes };
+    })
+  );
+
+  const estimate = await navigator.storage?.estimate?.();
+  return { stores, usage: estimate?.usage, quota: estimate?.quota };
+}